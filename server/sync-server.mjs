@@ -0,0 +1,182 @@
+// Rhythm Planner sync server
+//
+// A small self-hosted server that devices push their changes to and pull other
+// devices' changes from. It keeps the latest version of every record in a JSON
+// file and hands out a revision number per accepted change, so a device only
+// pulls what changed since its last pull.
+//
+// Usage:  npm run sync-server
+// Env:    PORT            (default 8787)
+//         SYNC_DATA_FILE  (default ./sync-data.json)
+//         SYNC_TOKEN      (optional - when set, requests need "Authorization: Bearer <token>")
+
+import { createServer } from 'node:http';
+import { readFile, writeFile, rename } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = resolve(process.env.SYNC_DATA_FILE || 'sync-data.json');
+const TOKEN = process.env.SYNC_TOKEN || '';
+
+const SYNCED_TABLES = ['tasks', 'sessions', 'dailyPlanTasks', 'userPrefs', 'taskOccurrences'];
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const MAX_PULL_LIMIT = 1000;
+
+// { revision, records: { "table:id": { table, id, version, updatedAt, deviceId, deleted, data, revision } } }
+let store = { revision: 0, records: {} };
+let saveQueue = Promise.resolve();
+
+/**
+ * Same rule as the app: higher version, then later change, then the larger device id
+ */
+const compareVersions = (a, b) => {
+  return a.version - b.version || a.updatedAt.localeCompare(b.updatedAt) || a.deviceId.localeCompare(b.deviceId);
+};
+
+const loadStore = async () => {
+  if (!existsSync(DATA_FILE)) return;
+  store = JSON.parse(await readFile(DATA_FILE, 'utf8'));
+};
+
+// Write to a temp file and rename, so a crash mid-write never leaves a half-written store
+const saveStore = () => {
+  saveQueue = saveQueue.then(async () => {
+    const tmpFile = `${DATA_FILE}.tmp`;
+    await writeFile(tmpFile, JSON.stringify(store));
+    await rename(tmpFile, DATA_FILE);
+  });
+  return saveQueue;
+};
+
+const validateChange = (change) => {
+  if (!change || typeof change !== 'object') return 'Change must be an object';
+  if (!SYNCED_TABLES.includes(change.table)) return `Unknown table "${change.table}"`;
+  if (typeof change.id !== 'string' && typeof change.id !== 'number') return 'Change is missing its record id';
+  if (!Number.isInteger(change.version) || change.version < 1) return 'Change version must be a positive integer';
+  if (typeof change.updatedAt !== 'string' || typeof change.deviceId !== 'string') return 'Change is missing updatedAt or deviceId';
+  if (typeof change.deleted !== 'boolean') return 'Change is missing deleted';
+  if (!change.deleted && (!change.data || typeof change.data !== 'object')) return 'Change is missing its record data';
+  return null;
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolveBody, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new Error('Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolveBody(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+const handlePush = async (req, res) => {
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    return sendJson(res, 400, { error: error.message === 'Request body too large' ? error.message : 'Invalid JSON' });
+  }
+  if (!Array.isArray(body?.changes)) {
+    return sendJson(res, 400, { error: 'Expected { deviceId, changes: [] }' });
+  }
+  for (const change of body.changes) {
+    const problem = validateChange(change);
+    if (problem) return sendJson(res, 400, { error: problem });
+  }
+
+  let accepted = 0;
+  const rejected = [];
+  for (const change of body.changes) {
+    const key = `${change.table}:${change.id}`;
+    const current = store.records[key];
+    if (current && compareVersions(change, current) <= 0) {
+      // Sent back in full so the device can merge with it
+      rejected.push(current);
+      continue;
+    }
+    store.revision++;
+    store.records[key] = {
+      table: change.table,
+      id: change.id,
+      version: change.version,
+      updatedAt: change.updatedAt,
+      deviceId: change.deviceId,
+      deleted: change.deleted,
+      data: change.deleted ? null : change.data,
+      revision: store.revision
+    };
+    accepted++;
+  }
+
+  if (accepted > 0) await saveStore();
+  console.log(`PUSH ${body.deviceId || 'unknown device'}: ${accepted} accepted, ${rejected.length} rejected (revision ${store.revision})`);
+  sendJson(res, 200, { accepted, rejected, revision: store.revision });
+};
+
+const handlePull = (url, res) => {
+  const since = Number(url.searchParams.get('since')) || 0;
+  const limit = Math.min(Number(url.searchParams.get('limit')) || MAX_PULL_LIMIT, MAX_PULL_LIMIT);
+
+  const newer = Object.values(store.records)
+    .filter(record => record.revision > since)
+    .sort((a, b) => a.revision - b.revision);
+  const changes = newer.slice(0, limit);
+  const hasMore = newer.length > limit;
+
+  sendJson(res, 200, {
+    changes,
+    // The cursor to pull from next time
+    revision: hasMore ? changes[changes.length - 1].revision : store.revision,
+    hasMore
+  });
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    return res.end();
+  }
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return sendJson(res, 401, { error: 'Invalid or missing sync token' });
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  try {
+    if (req.method === 'GET' && url.pathname === '/sync/status') {
+      return sendJson(res, 200, { revision: store.revision, records: Object.keys(store.records).length });
+    }
+    if (req.method === 'POST' && url.pathname === '/sync/push') {
+      return await handlePush(req, res);
+    }
+    if (req.method === 'GET' && url.pathname === '/sync/pull') {
+      return handlePull(url, res);
+    }
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Error handling request:', error);
+    sendJson(res, 500, { error: 'Internal server error' });
+  }
+});
+
+await loadStore();
+server.listen(PORT, () => {
+  console.log(`Rhythm Planner sync server on http://localhost:${PORT}`);
+  console.log(`Data file: ${DATA_FILE} (revision ${store.revision}, ${Object.keys(store.records).length} records)`);
+  if (!TOKEN) console.log('No SYNC_TOKEN set - anyone who can reach this server can read and write your data');
+});
@@ -1,18 +1,26 @@
 import { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { Home, List, Settings as SettingsIcon, Calendar, Menu, X } from 'lucide-react';
+import { Home, List, Settings as SettingsIcon, Calendar, CalendarDays, Flame, Menu, X } from 'lucide-react';
 import { Dashboard } from './components/Dashboard';
 import { TaskLibrary } from './components/TaskLibrary';
 import { Settings } from './components/Settings';
 import { TodayView } from './components/TodayView';
+import { CalendarView } from './components/CalendarView';
+import { HabitsView } from './components/HabitsView';
 import { Timer } from './components/Timer';
 import { SkipReplacementModal } from './components/SkipReplacementModal';
 import { WelcomeScreen } from './components/WelcomeScreen';
 import { EndOfDayReview } from './components/EndOfDayReview';
 import { ErrorBoundary } from './components/ErrorBoundary';
-import { Task, Energy, initializeDatabase, cleanupArchivedTasks } from './db/database';
+import { SyncStatus } from './components/SyncStatus';
+import { Task, Energy, db, initializeDatabase, cleanupArchivedTasks } from './db/database';
+import { getLogicalDate, getLogicalDateString, getWakeWindow } from './utils/wakeSchedule';
+import { toLocalDateString } from './utils/localDate';
+import { takeDailySnapshot } from './utils/localSnapshots';
+import { startAutoSync } from './utils/sync';
+import { recordMissedOccurrences } from './utils/occurrenceLedger';
 
-type View = 'dashboard' | 'today' | 'library' | 'settings';
+type View = 'dashboard' | 'today' | 'calendar' | 'habits' | 'library' | 'settings';
 
 function App() {
   const [currentView, setCurrentView] = useState<View>('dashboard');
@@ -36,8 +44,9 @@ function App() {
     // Initialize database on app load
     initializeDatabase();
 
-    // Clean up old archived tasks based on retention policy
-    cleanupArchivedTasks();
+    // Take today's local snapshot, clean up old archived tasks based on retention policy,
+    // then note recurring occurrences that came and went without being done
+    takeDailySnapshot().then(() => cleanupArchivedTasks()).then(() => recordMissedOccurrences());
 
     // Check if user has completed onboarding
     const hasOnboarded = localStorage.getItem('rhythmPlanner_onboarded');
@@ -54,18 +63,34 @@ function App() {
     }
   }, []);
 
-  const checkForEndOfDayPrompt = () => {
+  useEffect(() => {
+    // Sync with the self-hosted server (a no-op until it's set up in Settings)
+    const stopAutoSync = startAutoSync();
+
+    // Views listen for 'sync-applied' themselves and reload their data in place
+    return () => {
+      stopAutoSync();
+    };
+  }, []);
+
+  const checkForEndOfDayPrompt = async () => {
     const lastDayEnd = localStorage.getItem('rhythmPlanner_lastDayEnd');
     const lastDayStart = localStorage.getItem('rhythmPlanner_lastDayStart');
-    const currentHour = new Date().getHours();
+    const prefs = await db.userPrefs.get(1);
+    if (!prefs) return;
+
+    const now = new Date();
+    const today = getLogicalDate(prefs, now);
+    const { sleep } = getWakeWindow(prefs, today);
+    const hoursToSleep = (sleep.getTime() - now.getTime()) / (1000 * 60 * 60);
 
     // Show end of day review if:
-    // 1. It's between 8pm and 11pm
+    // 1. It's within 2 hours before sleep time (or up to 1 hour after)
     // 2. User started their day but hasn't ended it yet
-    // 3. Not already shown today
-    if (currentHour >= 20 && currentHour < 23 && lastDayStart) {
-      const todayString = new Date().toISOString().split('T')[0];
-      const lastEndDate = lastDayEnd ? new Date(lastDayEnd).toISOString().split('T')[0] : null;
+    // 3. Not already shown for this (logical) day
+    if (hoursToSleep <= 2 && hoursToSleep > -1 && lastDayStart) {
+      const todayString = toLocalDateString(today);
+      const lastEndDate = lastDayEnd ? getLogicalDateString(prefs, new Date(lastDayEnd)) : null;
 
       if (lastEndDate !== todayString) {
         // Wait a bit before showing (not immediately on load)
@@ -107,6 +132,8 @@ function App() {
   const navItems: { id: View; label: string; icon: any }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'today', label: 'Today', icon: Calendar },
+    { id: 'calendar', label: 'Calendar', icon: CalendarDays },
+    { id: 'habits', label: 'Habits', icon: Flame },
     { id: 'library', label: 'Task Library', icon: List },
     { id: 'settings', label: 'Settings', icon: SettingsIcon },
   ];
@@ -124,13 +151,16 @@ function App() {
             {currentEnergy === 'High' && '⚡ High'}
           </p>
         </div>
-        <button
-          onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
-          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
-          aria-label="Toggle menu"
-        >
-          {isMobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
-        </button>
+        <div className="flex items-center gap-1">
+          <SyncStatus />
+          <button
+            onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            aria-label="Toggle menu"
+          >
+            {isMobileMenuOpen ? <X size={24} /> : <Menu size={24} />}
+          </button>
+        </div>
       </header>
 
       {/* Mobile Menu Overlay */}
@@ -197,7 +227,10 @@ function App() {
       {/* Desktop Sidebar Navigation */}
       <aside className="hidden lg:block fixed left-0 top-0 h-full w-64 bg-white/90 backdrop-blur-xl shadow-2xl z-40 border-r border-gray-200/50">
         <div className="p-6 border-b border-gray-200/50 bg-gradient-to-br from-gray-50 to-white">
-          <h1 className="text-2xl font-bold bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">Rhythm Planner</h1>
+          <div className="flex items-center justify-between">
+            <h1 className="text-2xl font-bold bg-gradient-to-r from-gray-800 to-gray-600 bg-clip-text text-transparent">Rhythm Planner</h1>
+            <SyncStatus />
+          </div>
           <p className="text-xs text-gray-600 mt-1 font-medium">Local-first life management</p>
         </div>
 
@@ -268,6 +301,28 @@ function App() {
               />
             </motion.div>
           )}
+          {currentView === 'calendar' && (
+            <motion.div
+              key="calendar"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <CalendarView onOpenToday={() => handleNavigateToView('today')} />
+            </motion.div>
+          )}
+          {currentView === 'habits' && (
+            <motion.div
+              key="habits"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              transition={{ duration: 0.3 }}
+            >
+              <HabitsView />
+            </motion.div>
+          )}
           {currentView === 'library' && (
             <motion.div
               key="library"
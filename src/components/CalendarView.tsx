@@ -0,0 +1,410 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, CalendarDays, CalendarRange, Check, Pin, AlertTriangle, X } from 'lucide-react';
+import { Task, db, Domain } from '../db/database';
+import { getCalendarDays, assignTaskToDate, CalendarDay } from '../utils/calendarData';
+import { getWeekStart } from '../utils/weeklyCaps';
+import { getLogicalDateString } from '../utils/wakeSchedule';
+import { addDays, fromLocalDateString, toLocalDateString } from '../utils/localDate';
+import { getDomainColor } from '../utils/domainColors';
+
+interface CalendarViewProps {
+  onOpenToday: () => void;
+}
+
+type CalendarMode = 'week' | 'month';
+
+const WEEKDAY_HEADERS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TASK_DRAG_TYPE = 'text/plain';
+
+export const CalendarView = ({ onOpenToday }: CalendarViewProps) => {
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchorDate, setAnchorDate] = useState<Date>(new Date());
+  const [days, setDays] = useState<CalendarDay[]>([]);
+  const [todayString, setTodayString] = useState(toLocalDateString(new Date()));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [unassignedTasks, setUnassignedTasks] = useState<Task[]>([]);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // Visible range: one Sunday-to-Saturday week, or the whole weeks covering the month
+  const getRange = (): { start: Date; end: Date } => {
+    if (mode === 'week') {
+      const start = getWeekStart(anchorDate);
+      return { start, end: addDays(start, 6) };
+    }
+    const monthStart = new Date(anchorDate.getFullYear(), anchorDate.getMonth(), 1);
+    const monthEnd = new Date(anchorDate.getFullYear(), anchorDate.getMonth() + 1, 0);
+    const start = getWeekStart(monthStart);
+    return { start, end: addDays(getWeekStart(monthEnd), 6) };
+  };
+
+  useEffect(() => {
+    loadCalendar();
+
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadCalendar();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
+  }, [mode, anchorDate]);
+
+  const loadCalendar = async () => {
+    setLoading(true);
+    const prefs = await db.userPrefs.get(1);
+    if (!prefs) {
+      setLoading(false);
+      return;
+    }
+
+    const { start, end } = getRange();
+    setTodayString(getLogicalDateString(prefs));
+    setDays(await getCalendarDays(prefs, toLocalDateString(start), toLocalDateString(end)));
+
+    const tasks = await db.tasks
+      .where('status')
+      .equals('todo')
+      .and(task => !task.archived && !task.assignedDate && task.taskType !== 'Fixed')
+      .toArray();
+    setUnassignedTasks(tasks);
+    setLoading(false);
+  };
+
+  const handleStep = (direction: 1 | -1) => {
+    if (mode === 'week') {
+      setAnchorDate(addDays(anchorDate, direction * 7));
+    } else {
+      setAnchorDate(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + direction, 1));
+    }
+  };
+
+  const handleOpenDay = (date: string) => {
+    setSelectedDate(date);
+    if (mode === 'month') {
+      setAnchorDate(fromLocalDateString(date));
+      setMode('week');
+    }
+  };
+
+  const handleDrop = async (e: React.DragEvent, date: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const taskId = e.dataTransfer.getData(TASK_DRAG_TYPE);
+    if (!taskId) return;
+
+    if (date < todayString) {
+      alert('Tasks can only be assigned to today or a future day.');
+      return;
+    }
+
+    try {
+      const task = await db.tasks.get(taskId);
+      if (!task) return;
+      await assignTaskToDate(taskId, date);
+      const label = fromLocalDateString(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+      setMessage(
+        date === todayString
+          ? `"${task.title}" assigned to today - Update Schedule Now in Today to place it.`
+          : `"${task.title}" assigned to ${label}.`
+      );
+      await loadCalendar();
+    } catch (error) {
+      console.error('Error assigning task:', error);
+      alert('Failed to assign the task. Please try again.');
+    }
+  };
+
+  const dropHandlers = (date: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dropTarget !== date) setDropTarget(date);
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, date)
+  });
+
+  const dragHandlers = (taskId: string | undefined) => ({
+    draggable: !!taskId,
+    onDragStart: (e: React.DragEvent) => {
+      if (taskId) e.dataTransfer.setData(TASK_DRAG_TYPE, taskId);
+    }
+  });
+
+  const formatTime = (isoString: string): string => {
+    return new Date(isoString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  };
+
+  const getPlannedMinutesByDomain = (day: CalendarDay): { domain: Domain; minutes: number }[] => {
+    const totals: Partial<Record<Domain, number>> = {};
+    for (const { block, task } of day.blocks) {
+      const domain = task ? task.domain : block.interruptionDomain;
+      if (domain) totals[domain] = (totals[domain] || 0) + (block.sliceDuration || 0);
+    }
+    return (Object.entries(totals) as [Domain, number][]).map(([domain, minutes]) => ({ domain, minutes }));
+  };
+
+  const { start: rangeStart } = getRange();
+  const title = mode === 'week'
+    ? `Week of ${rangeStart.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`
+    : anchorDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+  const renderWeekColumn = (day: CalendarDay) => {
+    const date = fromLocalDateString(day.date);
+    const isToday = day.date === todayString;
+    const isSelected = day.date === selectedDate;
+
+    return (
+      <div
+        key={day.date}
+        {...dropHandlers(day.date)}
+        className={`min-h-[320px] bg-white rounded-lg shadow-sm border-2 flex flex-col ${
+          dropTarget === day.date ? 'border-blue-400 bg-blue-50' : isSelected ? 'border-gray-800' : 'border-transparent'
+        } ${day.date < todayString ? 'opacity-80' : ''}`}
+      >
+        <button
+          onClick={() => setSelectedDate(isSelected ? null : day.date)}
+          className={`px-2 py-2 text-left border-b border-gray-100 ${isToday ? 'bg-amber-50' : ''}`}
+        >
+          <div className="text-xs text-gray-500">{WEEKDAY_HEADERS[date.getDay()]}</div>
+          <div className={`text-lg font-semibold ${isToday ? 'text-amber-700' : 'text-gray-800'}`}>{date.getDate()}</div>
+        </button>
+
+        <div className="p-1.5 space-y-1 flex-1">
+          {day.dueTasks.map(task => (
+            <div
+              key={`due-${task.id}`}
+              {...dragHandlers(task.id)}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs bg-red-50 text-red-700 cursor-grab"
+              title={`${task.title} is due`}
+            >
+              <AlertTriangle size={10} className="flex-shrink-0" />
+              <span className="truncate">Due: {task.title}</span>
+            </div>
+          ))}
+
+          {day.fixedEvents.map(task => (
+            <div
+              key={`fixed-${task.id}`}
+              className="px-1.5 py-1 rounded text-xs text-white"
+              style={{ backgroundColor: getDomainColor(task.domain) }}
+              title="Fixed event"
+            >
+              <div className="flex items-center gap-1 opacity-90">
+                <Pin size={10} />
+                {formatTime(task.fixedStartTime!)}
+              </div>
+              <div className="truncate font-medium">{task.title}</div>
+            </div>
+          ))}
+
+          {day.blocks.map(({ block, task }) => {
+            const domain = task ? task.domain : block.interruptionDomain;
+            const color = domain ? getDomainColor(domain) : '#9ca3af';
+            return (
+              <div
+                key={block.id}
+                {...dragHandlers(block.completed ? undefined : task?.id)}
+                className={`px-1.5 py-1 rounded text-xs border-l-4 ${block.isDraft ? 'border-dashed bg-gray-50 text-gray-600' : 'bg-gray-100 text-gray-800'} ${
+                  task && !block.completed ? 'cursor-grab' : ''
+                }`}
+                style={{ borderLeftColor: color }}
+                title={block.isDraft ? 'Draft' : 'Planned'}
+              >
+                <div className="text-gray-500">
+                  {formatTime(block.scheduledStartTime)} · {block.sliceDuration || 0}m{block.isDraft ? ' · draft' : ''}
+                </div>
+                <div className={`truncate font-medium ${block.completed ? 'line-through' : ''}`}>
+                  {task ? task.title : `Interruption (${block.interruptionDomain || 'Unplanned'})`}
+                </div>
+              </div>
+            );
+          })}
+
+          {day.sessions.map(({ session, task }) => (
+            <div
+              key={session.id}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded text-xs text-white"
+              style={{ backgroundColor: getDomainColor(task.domain) }}
+              title={`Completed ${session.earnedMins}m`}
+            >
+              <Check size={10} className="flex-shrink-0" />
+              <span className="truncate">{task.title} · {session.earnedMins}m</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonthCell = (day: CalendarDay) => {
+    const date = fromLocalDateString(day.date);
+    const inMonth = date.getMonth() === anchorDate.getMonth();
+    const isToday = day.date === todayString;
+    const planned = getPlannedMinutesByDomain(day);
+    const workedMinutes = day.sessions.reduce((sum, { session }) => sum + (session.earnedMins || 0), 0);
+
+    return (
+      <button
+        key={day.date}
+        {...dropHandlers(day.date)}
+        onClick={() => handleOpenDay(day.date)}
+        className={`min-h-[90px] p-1.5 text-left rounded-lg border-2 transition-all ${
+          dropTarget === day.date ? 'border-blue-400 bg-blue-50' : 'border-transparent hover:border-gray-300'
+        } ${inMonth ? 'bg-white' : 'bg-gray-50 text-gray-400'}`}
+      >
+        <div className={`text-sm font-semibold ${isToday ? 'text-amber-700' : ''}`}>{date.getDate()}</div>
+        <div className="flex gap-0.5 mt-1 h-1.5 rounded overflow-hidden">
+          {planned.map(({ domain, minutes }) => (
+            <div key={domain} style={{ backgroundColor: getDomainColor(domain), flexGrow: minutes }} title={`${domain}: ${minutes}m planned`} />
+          ))}
+        </div>
+        <div className="mt-1 space-y-0.5 text-[10px] leading-tight">
+          {day.fixedEvents.length > 0 && <div className="text-gray-600">📌 {day.fixedEvents.length} fixed</div>}
+          {day.dueTasks.length > 0 && <div className="text-red-600">⏰ {day.dueTasks.length} due</div>}
+          {workedMinutes > 0 && <div className="text-green-700">✓ {Math.round(workedMinutes / 60 * 10) / 10}h done</div>}
+        </div>
+      </button>
+    );
+  };
+
+  const selectedDay = days.find(day => day.date === selectedDate);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h1 className="text-4xl font-semibold text-gray-800 mb-2">Calendar</h1>
+          <p className="text-gray-600">Drag a task onto a day to assign it</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex bg-white rounded-lg shadow overflow-hidden">
+            <button
+              onClick={() => setMode('week')}
+              className={`flex items-center gap-2 px-4 py-2 font-medium transition-all ${
+                mode === 'week' ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <CalendarRange size={16} />
+              Week
+            </button>
+            <button
+              onClick={() => setMode('month')}
+              className={`flex items-center gap-2 px-4 py-2 font-medium transition-all ${
+                mode === 'month' ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              <CalendarDays size={16} />
+              Month
+            </button>
+          </div>
+          <div className="flex items-center bg-white rounded-lg shadow">
+            <button onClick={() => handleStep(-1)} className="p-2 hover:bg-gray-100 rounded-l-lg" title="Previous">
+              <ChevronLeft size={20} />
+            </button>
+            <button
+              onClick={() => setAnchorDate(fromLocalDateString(todayString))}
+              className="px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100"
+            >
+              Today
+            </button>
+            <button onClick={() => handleStep(1)} className="p-2 hover:bg-gray-100 rounded-r-lg" title="Next">
+              <ChevronRight size={20} />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {message && (
+        <div className="flex items-start justify-between gap-3 px-4 py-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-900">
+          <span>{message}</span>
+          <button onClick={() => setMessage(null)} className="text-blue-500 hover:text-blue-700">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        {/* Unassigned tasks to drag onto the calendar */}
+        <div className="lg:w-56 flex-shrink-0 bg-white rounded-lg shadow p-4">
+          <h3 className="text-sm font-semibold text-gray-800 mb-2">Unassigned ({unassignedTasks.length})</h3>
+          <div className="space-y-1 max-h-[60vh] overflow-y-auto">
+            {unassignedTasks.map(task => (
+              <div
+                key={task.id}
+                {...dragHandlers(task.id)}
+                className="px-2 py-1 rounded text-xs bg-gray-50 border-l-4 cursor-grab hover:bg-gray-100"
+                style={{ borderLeftColor: getDomainColor(task.domain) }}
+              >
+                <div className="truncate font-medium text-gray-800">{task.title}</div>
+                <div className="text-gray-500">{task.domain} · {task.estimateMins}m</div>
+              </div>
+            ))}
+            {unassignedTasks.length === 0 && <p className="text-xs text-gray-500">Every task has a day.</p>}
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <h2 className="text-xl font-semibold text-gray-800 mb-3">{title}</h2>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <p className="text-gray-500">Loading calendar...</p>
+            </div>
+          ) : mode === 'week' ? (
+            <div className="grid grid-cols-7 gap-2">
+              {days.map(renderWeekColumn)}
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-7 gap-1 mb-1">
+                {WEEKDAY_HEADERS.map(label => (
+                  <div key={label} className="text-xs font-medium text-gray-500 text-center">{label}</div>
+                ))}
+              </div>
+              <div className="grid grid-cols-7 gap-1">
+                {days.map(renderMonthCell)}
+              </div>
+            </>
+          )}
+
+          {/* Selected day summary */}
+          {selectedDay && mode === 'week' && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mt-4 bg-white rounded-lg shadow p-4"
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold text-gray-800">
+                  {fromLocalDateString(selectedDay.date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+                </h3>
+                {selectedDay.date === todayString && (
+                  <button
+                    onClick={onOpenToday}
+                    className="px-3 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+                  >
+                    Open in Today
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 text-sm text-gray-700">
+                {getPlannedMinutesByDomain(selectedDay).map(({ domain, minutes }) => (
+                  <span key={domain} className="px-2 py-1 rounded text-white text-xs" style={{ backgroundColor: getDomainColor(domain) }}>
+                    {domain} {Math.round(minutes / 60 * 10) / 10}h planned
+                  </span>
+                ))}
+                <span className="px-2 py-1 rounded bg-green-50 text-green-700 text-xs">
+                  {Math.round(selectedDay.sessions.reduce((sum, { session }) => sum + (session.earnedMins || 0), 0) / 60 * 10) / 10}h completed
+                </span>
+                {selectedDay.blocks.some(({ block }) => block.isDraft) && (
+                  <span className="px-2 py-1 rounded bg-gray-100 text-gray-600 text-xs">Draft plan</span>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
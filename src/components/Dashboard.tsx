@@ -1,19 +1,25 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Play, Briefcase, Home, ShoppingCart, Heart, Palette, Zap, Calendar, Rocket, Sun, Moon } from 'lucide-react';
+import { Play, Briefcase, Home, ShoppingCart, Heart, Palette, Zap, Calendar, Rocket, Sun, Moon, AlertTriangle, Flame } from 'lucide-react';
 import { Task, Energy, db, Domain } from '../db/database';
 import { getRecommendedTasks, getTodayMinutes, calculateWeeklyMinutes } from '../utils/taskRecommender';
 import { getDomainColor, getDomainClasses } from '../utils/domainColors';
 import { generateWakeDaySchedule } from '../utils/wakeDayScheduler';
+import { snapshotPlan } from '../utils/planHistory';
 import { DomainPanel } from './DomainPanel';
 import { getEnergyAtTime, logBioRhythmApplied, calculateDailyEnergyCurve } from '../utils/bioRhythm';
 import { sanitizeText } from '../utils/sanitize';
+import { forecastDeadlines, DeadlineCheckpoint } from '../utils/deadlineForecast';
+import { getWeeklyCapStatuses } from '../utils/weeklyCaps';
+import { HabitStats, getChainsAtRisk, getHabitStats } from '../utils/habitStats';
+import { getLogicalDate, getLogicalDateString, getLogicalDayBounds } from '../utils/wakeSchedule';
+import { toLocalDateString, fromLocalDateString } from '../utils/localDate';
 
 interface DashboardProps {
   onStartTask: (task: Task, blockDuration: number) => void;
   currentEnergy: Energy;
   onEnergyChange: (energy: Energy) => void;
-  onNavigateToView: (view: 'dashboard' | 'today' | 'library' | 'settings') => void;
+  onNavigateToView: (view: 'dashboard' | 'today' | 'calendar' | 'habits' | 'library' | 'settings') => void;
   onShowEndOfDay?: () => void;
 }
 
@@ -29,30 +35,36 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
   const [selectedDomain, setSelectedDomain] = useState<Domain | null>(null);
   const [showWeekModal, setShowWeekModal] = useState(false);
   const [weekSummary, setWeekSummary] = useState<{ domain: Domain; minutes: number }[]>([]);
+  const [capWarning, setCapWarning] = useState<string | null>(null);
+  const [deadlineRisks, setDeadlineRisks] = useState<{ checkpoint: DeadlineCheckpoint; titles: string[] }[]>([]);
+  const [chainsAtRisk, setChainsAtRisk] = useState<HabitStats[]>([]);
 
   useEffect(() => {
     loadDashboardData();
     checkIfDayStarted();
 
-    // Listen for settings changes and timer completion to reload
+    // Listen for settings changes, timer completion and synced changes to reload
     const handleSettingsChanged = () => loadDashboardData();
     const handleTimerComplete = () => loadDashboardData();
+    const handleSyncApplied = () => loadDashboardData();
 
     window.addEventListener('settings-changed', handleSettingsChanged);
     window.addEventListener('timer-complete', handleTimerComplete);
+    window.addEventListener('sync-applied', handleSyncApplied);
 
     return () => {
       window.removeEventListener('settings-changed', handleSettingsChanged);
       window.removeEventListener('timer-complete', handleTimerComplete);
+      window.removeEventListener('sync-applied', handleSyncApplied);
     };
   }, [currentEnergy]);
 
   const checkIfDayStarted = async () => {
     const prefs = await db.userPrefs.get(1);
     if (prefs && prefs.actualWakeTimeToday) {
+      // Same logical day, so a late shift started yesterday is still "today" after midnight
       const wakeTime = new Date(prefs.actualWakeTimeToday);
-      const today = new Date();
-      const isSameDay = wakeTime.toDateString() === today.toDateString();
+      const isSameDay = getLogicalDateString(prefs, wakeTime) === getLogicalDateString(prefs);
       setDayStarted(isSameDay);
     }
   };
@@ -63,7 +75,9 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
       const tasks = await getRecommendedTasks(currentEnergy, 60, 5);
       setRecommendedTasks(tasks);
 
-      const todayString = new Date().toISOString().split('T')[0];
+      const prefs = await db.userPrefs.get(1);
+      const today = prefs ? getLogicalDate(prefs) : new Date();
+      const todayString = toLocalDateString(today);
 
       // Today count: tasks with assignedDate = today
       const todayTaskCount = await db.tasks
@@ -73,9 +87,8 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
         .count();
       setTodayBlockCount(todayTaskCount);
 
-      // Today minutes: completed sessions today
-      const todayStart = new Date();
-      todayStart.setHours(0, 0, 0, 0);
+      // Today minutes: completed sessions since the logical day began
+      const todayStart = prefs ? getLogicalDayBounds(prefs, today).start : new Date(new Date().setHours(0, 0, 0, 0));
 
       // Get all sessions and filter in memory to avoid IndexedDB key errors
       const allSessions = await db.sessions.toArray();
@@ -110,11 +123,35 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
         .reduce((sum, s) => sum + (s.earnedMins || 0), 0);
       setWeeklyWorkMinutes(weeklyMins);
 
-      // Get user prefs
-      const prefs = await db.userPrefs.get(1);
       if (prefs) {
         setMaxWeeklyHours(prefs.maxWorkHoursPerWeek);
+
+        // Weekly cap note, only when a permission rule is enforcing caps
+        if (prefs.permissionRules.softCap || prefs.permissionRules.hardCap) {
+          const statuses = await getWeeklyCapStatuses(prefs);
+          const flagged = statuses.filter(status => status.nearCap);
+          setCapWarning(flagged.length > 0
+            ? flagged.map(status => `${status.domain} ${status.overCap ? 'over' : 'near'} weekly cap`).join(', ')
+            : null);
+        } else {
+          setCapWarning(null);
+        }
       }
+
+      // Deadlines that can't (or barely) fit in the remaining wake windows
+      const forecast = await forecastDeadlines();
+      const risks = await Promise.all(
+        forecast.checkpoints
+          .filter(checkpoint => checkpoint.status !== 'ok')
+          .map(async checkpoint => {
+            const dueTasks = await db.tasks.bulkGet(checkpoint.taskIds);
+            return { checkpoint, titles: dueTasks.filter(t => t !== undefined).map(t => t!.title) };
+          })
+      );
+      setDeadlineRisks(risks);
+
+      // Habits whose streak breaks tonight if today's occurrence stays open
+      setChainsAtRisk(prefs ? getChainsAtRisk(await getHabitStats(), prefs) : []);
     } catch (error) {
       console.error('Error loading dashboard data:', error);
       // Set default values on error
@@ -122,6 +159,8 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
       setTodayBlockCount(0);
       setTodayMinutes(0);
       setWeeklyWorkMinutes(0);
+      setDeadlineRisks([]);
+      setChainsAtRisk([]);
     }
   };
 
@@ -188,12 +227,14 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
       // Update local energy state
       onEnergyChange(bioRhythmEnergy);
 
-      // Clear today's existing plan
-      const todayString = now.toISOString().split('T')[0];
-      await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft).delete();
+      // Clear today's existing plan (pinned blocks stay where they were locked)
+      const today = getLogicalDate(prefs, now);
+      const todayString = toLocalDateString(today);
+      await snapshotPlan(todayString, 'startMyDay');
+      await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft && !task.pinned).delete();
 
       // Generate new schedule from now
-      const result = await generateWakeDaySchedule(now, false);
+      const result = await generateWakeDaySchedule(today, false);
 
       // Save schedule to database
       if (result.plannedTasks.length > 0) {
@@ -219,11 +260,16 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
     setIsGeneratingPlan(true);
     setPlanMessage(null);
     try {
-      const today = new Date();
-      const todayString = today.toISOString().split('T')[0];
+      const prefs = await db.userPrefs.get(1);
+      if (!prefs) {
+        throw new Error('User preferences not found');
+      }
+      const today = getLogicalDate(prefs);
+      const todayString = toLocalDateString(today);
 
-      // Clear existing plan for today
-      await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft).delete();
+      // Clear existing plan for today (pinned blocks stay where they were locked)
+      await snapshotPlan(todayString, 'regenerate');
+      await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft && !task.pinned).delete();
 
       const result = await generateWakeDaySchedule(today, false);
 
@@ -450,6 +496,12 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
               transition={{ duration: 0.8, delay: 0.2, ease: "easeOut" }}
             />
           </div>
+          {capWarning && (
+            <div className="mt-3 flex items-center gap-1.5 text-sm text-amber-700">
+              <AlertTriangle size={14} />
+              {capWarning}
+            </div>
+          )}
         </motion.div>
 
         {/* Energy level indicator */}
@@ -477,6 +529,68 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
         </motion.div>
       </div>
 
+      {/* Deadline forecast warnings */}
+      {deadlineRisks.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-red-100">
+          <div className="flex items-center gap-2 mb-4">
+            <AlertTriangle size={20} className="text-red-500" />
+            <h2 className="text-xl font-semibold text-gray-800">Deadline Forecast</h2>
+          </div>
+          <div className="space-y-3">
+            {deadlineRisks.map(({ checkpoint, titles }) => {
+              const isImpossible = checkpoint.status === 'impossible';
+              return (
+                <div
+                  key={checkpoint.dueDate}
+                  className={`p-3 rounded-lg border ${isImpossible ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <span className={`text-sm font-semibold ${isImpossible ? 'text-red-800' : 'text-amber-800'}`}>
+                      {isImpossible ? 'Impossible' : 'At risk'} · due {fromLocalDateString(checkpoint.dueDate).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    </span>
+                    <span className="text-xs text-gray-600">
+                      {formatMinutes(checkpoint.demandMinutes)} needed / {formatMinutes(checkpoint.capacityMinutes)} free
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-700 mt-1">{titles.map(title => sanitizeText(title)).join(', ')}</p>
+                  {checkpoint.overloadedDomains.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Over domain cap: {checkpoint.overloadedDomains.join(', ')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Don't break the chain */}
+      {chainsAtRisk.length > 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-6 border border-amber-100">
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <div className="flex items-center gap-2">
+              <Flame size={20} className="text-orange-500" />
+              <h2 className="text-xl font-semibold text-gray-800">Don't Break the Chain</h2>
+            </div>
+            <button
+              onClick={() => onNavigateToView('habits')}
+              className="text-sm font-medium text-gray-600 hover:text-gray-800"
+            >
+              View habits
+            </button>
+          </div>
+          <div className="space-y-2">
+            {chainsAtRisk.map(stat => (
+              <div key={stat.task.id} className="flex items-center justify-between gap-3 p-3 rounded-lg bg-amber-50 border border-amber-200">
+                <span className="text-sm font-semibold text-amber-800">{sanitizeText(stat.task.title)}</span>
+                <span className="text-xs text-amber-700">{stat.currentStreak} in a row - still open today</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Quick action buttons by domain */}
       <div>
         <h2 className="text-xl sm:text-2xl font-semibold text-gray-800 mb-4">Quick Start</h2>
@@ -638,12 +752,23 @@ export const Dashboard = ({ onStartTask, currentEnergy, onEnergyChange, onNaviga
                   })
                 )}
               </div>
-              <button
-                onClick={() => setShowWeekModal(false)}
-                className="mt-6 w-full px-6 py-2 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all"
-              >
-                Close
-              </button>
+              <div className="mt-6 flex gap-3">
+                <button
+                  onClick={() => {
+                    setShowWeekModal(false);
+                    onNavigateToView('calendar');
+                  }}
+                  className="flex-1 px-6 py-2 bg-white border border-gray-300 text-gray-800 rounded-lg font-semibold hover:bg-gray-50 transition-all"
+                >
+                  Open Calendar
+                </button>
+                <button
+                  onClick={() => setShowWeekModal(false)}
+                  className="flex-1 px-6 py-2 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all"
+                >
+                  Close
+                </button>
+              </div>
             </motion.div>
           </div>
         )}
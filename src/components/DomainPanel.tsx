@@ -1,9 +1,15 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, Plus, Zap, Check } from 'lucide-react';
-import { Task, Domain, Energy, db } from '../db/database';
+import { X, Plus, Zap, Check, Flame } from 'lucide-react';
+import { Task, Domain, Energy, TaskOccurrence, db } from '../db/database';
 import { getDomainColor } from '../utils/domainColors';
 import { getRecommendedTasks } from '../utils/taskRecommender';
+import { getLogicalDateString } from '../utils/wakeSchedule';
+import { toLocalDateString } from '../utils/localDate';
+import { describeRecurrence, getRecurrenceRule } from '../utils/recurrence';
+import { getOccurrenceExceptions, recordMissedOccurrences } from '../utils/occurrenceLedger';
+import { HabitStats, RATE_WINDOWS, computeHabitStats, formatCompletionRate } from '../utils/habitStats';
+import { OccurrenceHistory } from './OccurrenceHistory';
 
 interface DomainPanelProps {
   domain: Domain;
@@ -19,6 +25,9 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
   const [todayTasks, setTodayTasks] = useState<Task[]>([]);
   const [backlogTasks, setBacklogTasks] = useState<Task[]>([]);
   const [recurringTasks, setRecurringTasks] = useState<Task[]>([]);
+  const [occurrencesByTask, setOccurrencesByTask] = useState<Map<string, TaskOccurrence[]>>(new Map());
+  const [todayString, setTodayString] = useState(toLocalDateString(new Date()));
+  const [habitStats, setHabitStats] = useState<Map<string, HabitStats>>(new Map());
   const [completedTasks, setCompletedTasks] = useState<Task[]>([]);
   const [metrics, setMetrics] = useState({ plannedToday: 0, remainingToday: 0, energyMix: { High: 0, Medium: 0, Low: 0 } });
   const [showNewTaskModal, setShowNewTaskModal] = useState(false);
@@ -37,10 +46,17 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
 
   useEffect(() => {
     loadDomainData();
+
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadDomainData();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
   }, [domain]);
 
   const loadDomainData = async () => {
-    const todayString = new Date().toISOString().split('T')[0];
+    const prefs = await db.userPrefs.get(1);
+    const todayString = prefs ? getLogicalDateString(prefs) : toLocalDateString(new Date());
+    setTodayString(todayString);
 
     // Today: tasks assigned to today for this domain
     const today = await db.tasks
@@ -62,6 +78,24 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
       .toArray();
     setRecurringTasks(recurring);
 
+    // Occurrence history for the Recurring tab, with anything missed since last time filled in
+    await recordMissedOccurrences();
+    const occurrences = await db.taskOccurrences
+      .where('taskId')
+      .anyOf(recurring.map(task => task.id!))
+      .sortBy('date');
+    const grouped = new Map<string, TaskOccurrence[]>();
+    for (const occurrence of occurrences) {
+      grouped.set(occurrence.taskId, [...(grouped.get(occurrence.taskId) || []), occurrence]);
+    }
+    setOccurrencesByTask(grouped);
+
+    // Streaks for the ones on a calendar schedule (after-completion chores have none)
+    const exceptions = await getOccurrenceExceptions();
+    setHabitStats(new Map(recurring
+      .filter(task => !getRecurrenceRule(task)?.afterCompletion)
+      .map(task => [task.id!, computeHabitStats(task, grouped.get(task.id!) || [], exceptions, todayString)])));
+
     // Completed: archived tasks from last 7 days
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
@@ -157,6 +191,7 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
 
     setValidationError('');
 
+    const prefs = await db.userPrefs.get(1);
     const task: Partial<Task> = {
       title: newTask.title.trim(),
       domain,
@@ -170,7 +205,7 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
       dread: 0,
       createdAt: new Date().toISOString(),
       // Auto-assign to today if eligible
-      assignedDate: new Date().toISOString().split('T')[0]
+      assignedDate: prefs ? getLogicalDateString(prefs) : toLocalDateString(new Date())
     };
 
     try {
@@ -195,6 +230,22 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
     }
   };
 
+  const renderHabitStats = (stats: HabitStats | undefined) => {
+    if (!stats) return null;
+    return (
+      <div className="flex items-center gap-3 mt-1 text-xs text-gray-600">
+        <span className="flex items-center gap-1" title="Scheduled occurrences done in a row">
+          <Flame size={12} className={stats.currentStreak > 0 ? 'text-orange-500' : 'text-gray-300'} />
+          {stats.currentStreak} in a row
+        </span>
+        <span>Best {stats.longestStreak}</span>
+        {RATE_WINDOWS.map(days => (
+          <span key={days}>{days}d {formatCompletionRate(stats.rates[days])}</span>
+        ))}
+      </div>
+    );
+  };
+
   const renderTaskList = (tasks: Task[]) => {
     if (tasks.length === 0) {
       return <p className="text-gray-500 text-center py-8">No tasks in this category</p>;
@@ -211,7 +262,19 @@ export const DomainPanel = ({ domain, onClose, onStartTask, currentEnergy }: Dom
                   <span className="text-xs text-gray-500">{task.estimateMins}m</span>
                   <span className="text-xs text-gray-500">{task.energy} energy</span>
                   {task.priority === 'High' && <span className="text-xs text-red-500 font-semibold">High Priority</span>}
+                  {activeTab === 'recurring' && getRecurrenceRule(task) && (
+                    <span className="text-xs text-gray-500">{describeRecurrence(getRecurrenceRule(task)!)}</span>
+                  )}
                 </div>
+                {activeTab === 'recurring' && renderHabitStats(habitStats.get(task.id!))}
+                {activeTab === 'recurring' && (
+                  <OccurrenceHistory
+                    task={task}
+                    occurrences={occurrencesByTask.get(task.id!) || []}
+                    todayString={todayString}
+                    onChange={loadDomainData}
+                  />
+                )}
               </div>
               {activeTab === 'today' && (
                 <button
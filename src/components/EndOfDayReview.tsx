@@ -3,6 +3,8 @@ import { motion } from 'framer-motion';
 import { Trophy, TrendingUp, Calendar, ArrowRight, X, Sparkles, Target, Zap } from 'lucide-react';
 import { db, Domain } from '../db/database';
 import { getDomainColor } from '../utils/domainColors';
+import { getLogicalDate, getLogicalDayBounds } from '../utils/wakeSchedule';
+import { toLocalDateString } from '../utils/localDate';
 
 interface EndOfDayReviewProps {
   onClose: () => void;
@@ -31,9 +33,9 @@ export const EndOfDayReview = ({ onClose, onPlanTomorrow }: EndOfDayReviewProps)
   }, []);
 
   const loadDayStats = async () => {
-    const today = new Date();
-    const todayStart = new Date(today);
-    todayStart.setHours(0, 0, 0, 0);
+    // Sessions since the logical day began (a late shift keeps its after-midnight work)
+    const prefs = await db.userPrefs.get(1);
+    const todayStart = prefs ? getLogicalDayBounds(prefs, getLogicalDate(prefs)).start : new Date(new Date().setHours(0, 0, 0, 0));
 
     // Get completed sessions today
     const todaySessions = await db.sessions
@@ -84,8 +86,12 @@ export const EndOfDayReview = ({ onClose, onPlanTomorrow }: EndOfDayReviewProps)
     const lastDayStart = localStorage.getItem('rhythmPlanner_lastDayStart');
     if (!lastDayStart) return 1;
 
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 86400000).toISOString().split('T')[0];
+    const prefs = await db.userPrefs.get(1);
+    const todayDate = prefs ? getLogicalDate(prefs) : new Date();
+    const yesterdayDate = new Date(todayDate);
+    yesterdayDate.setDate(yesterdayDate.getDate() - 1);
+    const today = toLocalDateString(todayDate);
+    const yesterday = toLocalDateString(yesterdayDate);
 
     if (lastDayStart === yesterday) {
       const currentStreak = parseInt(localStorage.getItem('rhythmPlanner_streak') || '0') + 1;
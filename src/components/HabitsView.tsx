@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Flame, Trophy, AlertTriangle } from 'lucide-react';
+import { db } from '../db/database';
+import { HabitStats, RATE_WINDOWS, formatCompletionRate, getChainsAtRisk, getHabitStats } from '../utils/habitStats';
+import { describeRecurrence, getRecurrenceRule } from '../utils/recurrence';
+import { getDomainColor } from '../utils/domainColors';
+import { sanitizeText } from '../utils/sanitize';
+
+/**
+ * Every habit (calendar-based recurring task) with its streaks and completion rates
+ */
+export const HabitsView = () => {
+  const [stats, setStats] = useState<HabitStats[]>([]);
+  const [atRisk, setAtRisk] = useState<HabitStats[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadHabits();
+
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadHabits();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
+  }, []);
+
+  const loadHabits = async () => {
+    try {
+      const habitStats = await getHabitStats();
+      const prefs = await db.userPrefs.get(1);
+      setStats(habitStats);
+      setAtRisk(prefs ? getChainsAtRisk(habitStats, prefs) : []);
+    } catch (error) {
+      console.error('Error loading habits:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-semibold text-gray-800">Habits</h1>
+        <p className="text-gray-600 mt-1">Streaks and completion rates for your recurring tasks</p>
+      </div>
+
+      {/* Don't break the chain */}
+      {atRisk.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 flex items-start gap-3">
+          <AlertTriangle size={20} className="text-amber-600 flex-shrink-0 mt-0.5" />
+          <div>
+            <div className="font-semibold text-amber-800">Don't break the chain</div>
+            <p className="text-sm text-amber-700 mt-1">
+              Still open today: {atRisk.map(stat => `${sanitizeText(stat.task.title)} (${stat.currentStreak} in a row)`).join(', ')}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-gray-500 text-center py-8">Loading habits...</p>
+      ) : stats.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">
+          No habits yet. Give a task a repeating schedule in the Task Library to track it here.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {stats.map(stat => {
+            const rule = getRecurrenceRule(stat.task);
+            return (
+              <motion.div
+                key={stat.task.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="bg-white rounded-xl shadow-lg p-5"
+              >
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: getDomainColor(stat.task.domain) }} />
+                      <h3 className="font-semibold text-gray-800 truncate">{sanitizeText(stat.task.title)}</h3>
+                    </div>
+                    {rule && <p className="text-xs text-gray-500 mt-1">{describeRecurrence(rule)}</p>}
+                  </div>
+                  <span className={`text-xs font-medium px-2 py-1 rounded flex-shrink-0 ${
+                    stat.doneToday ? 'bg-green-100 text-green-700' : stat.dueToday ? 'bg-amber-100 text-amber-700' : 'bg-gray-100 text-gray-500'
+                  }`}>
+                    {stat.doneToday ? 'Done today' : stat.dueToday ? 'Due today' : 'Not today'}
+                  </span>
+                </div>
+
+                <div className="flex items-center gap-6 mt-4">
+                  <div className="flex items-center gap-2" title="Scheduled occurrences done in a row">
+                    <Flame size={20} className={stat.currentStreak > 0 ? 'text-orange-500' : 'text-gray-300'} />
+                    <div>
+                      <div className="text-2xl font-bold text-gray-800">{stat.currentStreak}</div>
+                      <div className="text-xs text-gray-500">Current streak</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2" title="Longest run in the last year">
+                    <Trophy size={20} className="text-yellow-500" />
+                    <div>
+                      <div className="text-2xl font-bold text-gray-800">{stat.longestStreak}</div>
+                      <div className="text-xs text-gray-500">Longest</div>
+                    </div>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 mt-4">
+                  {RATE_WINDOWS.map(days => (
+                    <div key={days}>
+                      <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+                        <span>{days}d</span>
+                        <span className="font-semibold text-gray-700">{formatCompletionRate(stat.rates[days])}</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full rounded-full"
+                          style={{ width: `${Math.round((stat.rates[days] ?? 0) * 100)}%`, backgroundColor: getDomainColor(stat.task.domain) }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { OccurrenceStatus, Task, TaskOccurrence } from '../db/database';
+import { getRecurrenceRule, getUpcomingOccurrences } from '../utils/recurrence';
+import { getAdjustedCompletionDueDate, moveOccurrence, restoreOccurrence, skipOccurrence } from '../utils/occurrenceLedger';
+import { fromLocalDateString } from '../utils/localDate';
+
+interface OccurrenceHistoryProps {
+  task: Task;
+  occurrences: TaskOccurrence[]; // The task's ledger, oldest first
+  todayString: string;
+  onChange: () => void;
+}
+
+interface StripEntry {
+  date: string;
+  occurrence: TaskOccurrence | null; // null for an upcoming occurrence with nothing recorded yet
+}
+
+const HISTORY_LENGTH = 14;
+const UPCOMING_LENGTH = 4;
+
+const STATUS_STYLES: Record<OccurrenceStatus, string> = {
+  done: 'bg-green-500 border-green-500',
+  skipped: 'bg-gray-300 border-gray-300',
+  missed: 'bg-red-400 border-red-400',
+  rescheduled: 'bg-blue-400 border-blue-400'
+};
+
+const STATUS_LABELS: Record<OccurrenceStatus, string> = {
+  done: 'Done',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  rescheduled: 'Moved'
+};
+
+const formatDate = (date: string) => fromLocalDateString(date).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const describeEntry = ({ date, occurrence }: StripEntry) => {
+  if (!occurrence) return `${formatDate(date)} · Open`;
+  const moved = occurrence.movedTo ? ` (moved to ${formatDate(occurrence.movedTo)})` : '';
+  return `${formatDate(date)} · ${STATUS_LABELS[occurrence.status]}${moved}`;
+};
+
+/**
+ * Recent occurrences of a recurring task and the next few, with skip and move for upcoming ones
+ */
+export const OccurrenceHistory = ({ task, occurrences, todayString, onChange }: OccurrenceHistoryProps) => {
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [moveTo, setMoveTo] = useState('');
+
+  const rule = getRecurrenceRule(task);
+  if (!rule) return null;
+
+  const byDate = new Map(occurrences.map(occurrence => [occurrence.date, occurrence]));
+  const past = occurrences.filter(occurrence => occurrence.date < todayString).slice(-HISTORY_LENGTH);
+
+  // After-completion tasks have a single due date (possibly overdue); calendar tasks follow their pattern
+  const upcomingDates = rule.afterCompletion
+    ? [getAdjustedCompletionDueDate(rule, task.lastCompletedAt, occurrences.filter(occurrence => occurrence.status === 'skipped' || occurrence.status === 'rescheduled'))]
+    : getUpcomingOccurrences(rule, todayString, UPCOMING_LENGTH);
+  const upcomingRecorded = occurrences.filter(occurrence => occurrence.date >= todayString).map(occurrence => occurrence.date);
+  const upcoming = Array.from(new Set([...upcomingDates, ...upcomingRecorded])).sort().slice(0, UPCOMING_LENGTH);
+
+  const entries: StripEntry[] = [
+    ...past.map(occurrence => ({ date: occurrence.date, occurrence })),
+    ...upcoming.filter(date => !past.some(occurrence => occurrence.date === date)).map(date => ({ date, occurrence: byDate.get(date) || null }))
+  ];
+  const selected = entries.find(entry => entry.date === selectedDate) || null;
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+      setSelectedDate(null);
+      setMoveTo('');
+      onChange();
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update this occurrence. Please try again.');
+    }
+  };
+
+  // Only today's and later occurrences that haven't been done can be skipped or moved
+  const isEditable = (entry: StripEntry) => {
+    const openOrOverdue = entry.date >= todayString || (!!rule.afterCompletion && !entry.occurrence);
+    return openOrOverdue && entry.occurrence?.status !== 'done';
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        {entries.map(entry => {
+          const isSelected = entry.date === selectedDate;
+          const style = entry.occurrence
+            ? STATUS_STYLES[entry.occurrence.status]
+            : entry.date <= todayString ? 'bg-white border-gray-800' : 'bg-white border-gray-300';
+          return (
+            <button
+              key={entry.date}
+              type="button"
+              title={describeEntry(entry)}
+              disabled={!isEditable(entry)}
+              onClick={() => setSelectedDate(isSelected ? null : entry.date)}
+              className={`w-4 h-4 rounded-sm border-2 transition-all disabled:cursor-default ${style} ${
+                isSelected ? 'ring-2 ring-gray-800 ring-offset-1' : ''
+              }`}
+            />
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="mt-2 p-2 bg-gray-50 rounded-lg text-xs text-gray-700 flex items-center gap-2 flex-wrap">
+          <span className="font-medium">{describeEntry(selected)}</span>
+          {selected.occurrence ? (
+            <button
+              onClick={() => runAction(() => restoreOccurrence(task, selected.date))}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Put back
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={() => runAction(() => skipOccurrence(task, selected.date))}
+                className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
+              >
+                Skip
+              </button>
+              <input
+                type="date"
+                value={moveTo}
+                min={todayString}
+                onChange={(e) => setMoveTo(e.target.value)}
+                className="px-2 py-1 border border-gray-300 rounded"
+              />
+              <button
+                onClick={() => runAction(() => moveOccurrence(task, selected.date, moveTo))}
+                disabled={!moveTo}
+                className="px-2 py-1 bg-gray-800 text-white rounded hover:bg-gray-900 disabled:opacity-50"
+              >
+                Move
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,256 @@
+import { RecurrenceRule } from '../db/database';
+import { describeRecurrence, getCompletionDueDate, getUpcomingOccurrences } from '../utils/recurrence';
+import { fromLocalDateString, getTodayString } from '../utils/localDate';
+
+interface RecurrenceEditorProps {
+  rule: RecurrenceRule;
+  lastCompletedAt: string | null;
+  onChange: (rule: RecurrenceRule) => void;
+}
+
+const WEEKDAYS = [
+  { num: 1, name: 'Mon' },
+  { num: 2, name: 'Tue' },
+  { num: 3, name: 'Wed' },
+  { num: 4, name: 'Thu' },
+  { num: 5, name: 'Fri' },
+  { num: 6, name: 'Sat' },
+  { num: 7, name: 'Sun' },
+];
+
+const WEEKDAY_PRESETS = [
+  { label: 'Weekdays', days: [1, 2, 3, 4, 5] },
+  { label: 'Weekends', days: [6, 7] },
+  { label: 'Mon/Wed/Fri', days: [1, 3, 5] },
+  { label: 'Tue/Thu', days: [2, 4] },
+];
+
+const LONG_WEEKDAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const UNITS: Record<RecurrenceRule['freq'], string> = { daily: 'days', weekly: 'weeks', monthly: 'months', yearly: 'years' };
+
+const formatDate = (date: string) => fromLocalDateString(date).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+const PREVIEW_COUNT = 4;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent';
+
+/**
+ * Repeat settings for a recurring task: interval, days, day of month and when the series ends
+ */
+export const RecurrenceEditor = ({ rule, lastCompletedAt, onChange }: RecurrenceEditorProps) => {
+  const update = (updates: Partial<RecurrenceRule>) => onChange({ ...rule, ...updates });
+  const endMode = rule.count !== null ? 'count' : rule.until ? 'until' : 'never';
+  const upcoming = rule.afterCompletion ? [] : getUpcomingOccurrences(rule, getTodayString(), PREVIEW_COUNT);
+  const completionDue = rule.afterCompletion ? getCompletionDueDate(rule, lastCompletedAt) : null;
+
+  const toggleWeekday = (day: number) => {
+    const byWeekday = rule.byWeekday.includes(day)
+      ? rule.byWeekday.filter(d => d !== day)
+      : [...rule.byWeekday, day].sort((a, b) => a - b);
+    update({ byWeekday });
+  };
+
+  return (
+    <div className="space-y-4 bg-gray-50 rounded-lg p-4">
+      {/* Calendar or completion-relative */}
+      <div className="flex gap-2">
+        {[false, true].map((afterCompletion) => (
+          <button
+            key={String(afterCompletion)}
+            type="button"
+            onClick={() => update({ afterCompletion, count: afterCompletion ? null : rule.count })}
+            className={`flex-1 px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+              !!rule.afterCompletion === afterCompletion ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {afterCompletion ? 'After I finish it' : 'On a schedule'}
+          </button>
+        ))}
+      </div>
+
+      {/* Interval */}
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>{rule.afterCompletion ? 'Again' : 'Every'}</span>
+        <input
+          type="number"
+          min="1"
+          max="999"
+          value={rule.interval}
+          onChange={(e) => update({ interval: parseInt(e.target.value) || 1 })}
+          className={`w-20 ${inputClass}`}
+        />
+        <span>{UNITS[rule.freq]}{rule.afterCompletion && ' after it was last done'}</span>
+      </div>
+
+      {/* Weekdays (weekly) */}
+      {rule.freq === 'weekly' && !rule.afterCompletion && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">On*</label>
+          <div className="grid grid-cols-7 gap-2">
+            {WEEKDAYS.map((day) => (
+              <button
+                key={day.num}
+                type="button"
+                onClick={() => toggleWeekday(day.num)}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
+                  rule.byWeekday.includes(day.num)
+                    ? 'bg-gray-800 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {day.name}
+              </button>
+            ))}
+          </div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {WEEKDAY_PRESETS.map((preset) => (
+              <button
+                key={preset.label}
+                type="button"
+                onClick={() => update({ byWeekday: preset.days })}
+                className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Month (yearly) */}
+      {rule.freq === 'yearly' && !rule.afterCompletion && (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <span>In</span>
+          <select
+            value={rule.month}
+            onChange={(e) => update({ month: parseInt(e.target.value) })}
+            className={inputClass}
+          >
+            {MONTHS.map((name, index) => (
+              <option key={name} value={index + 1}>{name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Day of month (monthly and yearly) */}
+      {(rule.freq === 'monthly' || rule.freq === 'yearly') && !rule.afterCompletion && (
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rule.monthDay === 'date'}
+              onChange={() => update({ monthDay: 'date' })}
+            />
+            <span>On day</span>
+            <input
+              type="number"
+              min="1"
+              max="31"
+              value={rule.dayOfMonth}
+              onChange={(e) => update({ monthDay: 'date', dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className={`w-20 ${inputClass}`}
+            />
+          </label>
+          <label className="flex items-center gap-2 flex-wrap">
+            <input
+              type="radio"
+              checked={rule.monthDay === 'nthWeekday'}
+              onChange={() => update({ monthDay: 'nthWeekday' })}
+            />
+            <span>On the</span>
+            <select
+              value={rule.nthWeek}
+              onChange={(e) => update({ monthDay: 'nthWeekday', nthWeek: parseInt(e.target.value) })}
+              className={inputClass}
+            >
+              <option value={1}>first</option>
+              <option value={2}>second</option>
+              <option value={3}>third</option>
+              <option value={4}>fourth</option>
+              <option value={-1}>last</option>
+            </select>
+            <select
+              value={rule.nthWeekday}
+              onChange={(e) => update({ monthDay: 'nthWeekday', nthWeekday: parseInt(e.target.value) })}
+              className={inputClass}
+            >
+              {LONG_WEEKDAYS.map((name, index) => (
+                <option key={name} value={index + 1}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={rule.monthDay === 'lastDay'}
+              onChange={() => update({ monthDay: 'lastDay' })}
+            />
+            <span>On the last day of the month</span>
+          </label>
+          {rule.monthDay === 'date' && rule.dayOfMonth > 28 && (
+            <p className="text-xs text-gray-500">Months without a {rule.dayOfMonth}th fall on their last day.</p>
+          )}
+        </div>
+      )}
+
+      {/* Ends */}
+      <div className="space-y-2 text-sm text-gray-700">
+        <label className="block text-sm font-medium text-gray-700">Ends</label>
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={endMode === 'never'}
+            onChange={() => update({ count: null, until: null })}
+          />
+          <span>Never</span>
+        </label>
+        {!rule.afterCompletion && (
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              checked={endMode === 'count'}
+              onChange={() => update({ count: rule.count ?? 10, until: null })}
+            />
+            <span>After</span>
+            <input
+              type="number"
+              min="1"
+              value={rule.count ?? ''}
+              onChange={(e) => update({ count: parseInt(e.target.value) || 1, until: null })}
+              className={`w-20 ${inputClass}`}
+            />
+            <span>times</span>
+          </label>
+        )}
+        <label className="flex items-center gap-2">
+          <input
+            type="radio"
+            checked={endMode === 'until'}
+            onChange={() => update({ count: null, until: rule.until || rule.anchor })}
+          />
+          <span>On</span>
+          <input
+            type="date"
+            value={rule.until || ''}
+            onChange={(e) => update({ count: null, until: e.target.value || null })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {/* Summary */}
+      <div className="text-xs text-gray-600 border-t border-gray-200 pt-3">
+        <div className="font-semibold">{describeRecurrence(rule)}</div>
+        <div className="mt-1">
+          {completionDue
+            ? `Due ${formatDate(completionDue)}${lastCompletedAt ? '' : ' (never done yet)'}, then again after each time it's done`
+            : upcoming.length > 0
+              ? `Next: ${upcoming.map(formatDate).join(' · ')}`
+              : 'No upcoming occurrences'}
+        </div>
+      </div>
+    </div>
+  );
+};
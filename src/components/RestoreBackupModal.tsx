@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, AlertTriangle } from 'lucide-react';
+import { BackupFile, ConflictChoice, RestoreMode, RestorePreview, restoreBackup } from '../utils/backup';
+import { takeSnapshot } from '../utils/localSnapshots';
+
+interface RestoreBackupModalProps {
+  backup: BackupFile;
+  preview: RestorePreview;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: 'Tasks',
+  sessions: 'Sessions',
+  dailyPlanTasks: 'Plan blocks',
+  blockTypes: 'Block types',
+  userPrefs: 'Settings',
+  planHistory: 'Plan history',
+  taskOccurrences: 'Recurring history',
+  localStorage: 'Reflections & streak'
+};
+
+export const RestoreBackupModal = ({ backup, preview, onClose, onRestored }: RestoreBackupModalProps) => {
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [conflictChoice, setConflictChoice] = useState<ConflictChoice>('local');
+  const [restoring, setRestoring] = useState(false);
+
+  const totalConflicts = preview.tables.reduce((sum, table) => sum + table.conflicts, 0);
+  const totalRemoved = preview.tables.reduce((sum, table) => sum + table.removed, 0);
+
+  const handleRestore = async () => {
+    if (mode === 'replace' && totalRemoved > 0 &&
+        !confirm(`Replace will delete ${totalRemoved} records that are not in the backup. Continue?`)) {
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      await takeSnapshot('beforeRestore', `backup from ${new Date(preview.exportDate).toLocaleDateString()}`);
+      await restoreBackup(backup, mode, conflictChoice);
+      window.dispatchEvent(new CustomEvent('settings-changed'));
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      alert('Failed to restore backup. Nothing was changed.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-800">Restore Backup</h2>
+            <p className="text-sm text-gray-500">
+              Made {new Date(preview.exportDate).toLocaleString()}
+              {preview.migratedFrom && ` · upgraded from a version ${preview.migratedFrom} export`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex gap-2">
+            {(['merge', 'replace'] as RestoreMode[]).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  mode === option ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {option === 'merge' ? 'Merge with this device' : 'Replace everything'}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-600 bg-gray-50 p-3 rounded">
+            {mode === 'merge'
+              ? 'Adds what is only in the backup and merges tasks edited on both sides field by field. Nothing on this device is deleted.'
+              : 'Makes this device match the backup exactly. Anything not in the backup is deleted.'}
+          </p>
+
+          {mode === 'merge' && totalConflicts > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {totalConflicts} records differ between the backup and this device. Where they can't be merged, keep:
+              </label>
+              <div className="flex gap-2">
+                {(['local', 'backup'] as ConflictChoice[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setConflictChoice(option)}
+                    className={`flex-1 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                      conflictChoice === option ? 'bg-gray-800 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option === 'local' ? "This device's copy" : "The backup's copy"}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Data</th>
+                <th className="py-2 font-medium text-right">In backup</th>
+                <th className="py-2 font-medium text-right">On device</th>
+                <th className="py-2 font-medium text-right">New</th>
+                <th className="py-2 font-medium text-right">Conflicts</th>
+                {mode === 'replace' && <th className="py-2 font-medium text-right">Deleted</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {preview.tables.map((table) => (
+                <tr key={table.table} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-800">{TABLE_LABELS[table.table]}</td>
+                  <td className="py-2 text-right text-gray-700">{table.incoming}</td>
+                  <td className="py-2 text-right text-gray-700">{table.existing}</td>
+                  <td className="py-2 text-right text-green-700">{table.added}</td>
+                  <td className={`py-2 text-right ${table.conflicts > 0 ? 'text-amber-700 font-semibold' : 'text-gray-400'}`}>
+                    {table.conflicts}
+                  </td>
+                  {mode === 'replace' && (
+                    <td className={`py-2 text-right ${table.removed > 0 ? 'text-red-600 font-semibold' : 'text-gray-400'}`}>
+                      {table.removed}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {preview.migratedFrom && (
+            <p className="text-xs text-amber-700 bg-amber-50 p-3 rounded flex items-start gap-2">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              Older exports only contain settings and tasks. Sessions, plans and reflections on this device are
+              {mode === 'replace' ? ' deleted by a replace.' : ' kept by a merge.'}
+            </p>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button
+              onClick={onClose}
+              className="flex-1 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className={`flex-1 px-6 py-3 text-white rounded-lg font-semibold transition-all disabled:opacity-50 ${
+                mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-800 hover:bg-gray-900'
+              }`}
+            >
+              {restoring ? 'Restoring...' : mode === 'replace' ? 'Replace' : 'Merge'}
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
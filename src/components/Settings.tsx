@@ -1,8 +1,29 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Settings as SettingsIcon, Download, Upload, Info, Check, Plus, X, Smartphone, Monitor, Share2 } from 'lucide-react';
-import { UserPrefs, db, Domain, BioRhythmProfile, BioRhythmSegment, Energy, SoundPack } from '../db/database';
+import { Settings as SettingsIcon, Download, Upload, Info, Check, Plus, X, Smartphone, Monitor, Share2, CalendarDays } from 'lucide-react';
+import { UserPrefs, db, Domain, BioRhythmProfile, BioRhythmSegment, Energy, SoundPack, ProtectedTime, WakeSleepTimes, CalendarExportOptions, DailyPlanTask, buildWeeklyWakeSchedule } from '../db/database';
 import { getBioRhythmSegments } from '../utils/bioRhythm';
+import { toLocalDateString } from '../utils/localDate';
+import { getTransitionKey } from '../utils/transitions';
+import { downloadPlanCalendar } from '../utils/icsExport';
+import { BackupFile, RestorePreview, downloadBackup, parseBackup, previewRestore } from '../utils/backup';
+import { RestoreBackupModal } from './RestoreBackupModal';
+import { SnapshotManager } from './SnapshotManager';
+import { SyncSettings } from './SyncSettings';
+
+const DEFAULT_CALENDAR_EXPORT: CalendarExportOptions = {
+  blockTypes: ['task', 'interruption'],
+  includeDrafts: true,
+  includeDueDates: true
+};
+
+const EXPORT_BLOCK_TYPES: { type: DailyPlanTask['blockType']; label: string }[] = [
+  { type: 'task', label: 'Tasks' },
+  { type: 'interruption', label: 'Interruptions' },
+  { type: 'free', label: 'Free time' },
+  { type: 'rest', label: 'Rest' },
+  { type: 'transition', label: 'Transitions & travel' }
+];
 
 export const Settings = () => {
   const [prefs, setPrefs] = useState<UserPrefs | null>(null);
@@ -11,6 +32,7 @@ export const Settings = () => {
   const [showInstallInstructions, setShowInstallInstructions] = useState(false);
   const [deviceType, setDeviceType] = useState<'ios' | 'android' | 'desktop'>('desktop');
   const [isStandalone, setIsStandalone] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{ backup: BackupFile; preview: RestorePreview } | null>(null);
 
   useEffect(() => {
     loadPrefs();
@@ -32,6 +54,13 @@ export const Settings = () => {
     setIsStandalone(isStandaloneMode);
   }, []);
 
+  useEffect(() => {
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadPrefs();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
+  }, []);
+
   const loadPrefs = async () => {
     const userPrefs = await db.userPrefs.get(1);
     if (userPrefs) {
@@ -52,88 +81,95 @@ export const Settings = () => {
     showToast('Settings saved');
 
     // Trigger live effects for certain settings
-    if ('maxWorkHoursPerWeek' in updates || 'maxWorkBlocksPerDay' in updates || 'domainColors' in updates) {
+    if ('maxWorkHoursPerWeek' in updates || 'maxWorkBlocksPerDay' in updates || 'domainColors' in updates || 'protectedTimes' in updates ||
+        'weeklyWakeSchedule' in updates || 'wakeScheduleOverrides' in updates || 'defaultTransitionMinutes' in updates ||
+        'transitionBuffers' in updates || 'errandTravelMinutes' in updates) {
       // Settings that affect planning - trigger replan
       window.dispatchEvent(new CustomEvent('settings-changed'));
     }
   };
 
   const handleExport = async () => {
-    const tasks = await db.tasks.toArray();
-    const userPrefs = await db.userPrefs.get(1);
-    const archivedTasks = tasks.filter(t => t.archived);
-
-    const exportData = {
-      version: '1.0.0',
-      exportDate: new Date().toISOString(),
-      settings: userPrefs,
-      tasks: tasks.filter(t => !t.archived),
-      archive: archivedTasks,
-    };
+    try {
+      await downloadBackup();
+      showToast('Backup exported successfully');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      showToast('Backup export failed');
+    }
+  };
 
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], {
-      type: 'application/json',
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `rhythm_settings_${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    showToast('Data exported successfully');
+  const handleCalendarExport = async () => {
+    if (!prefs) return;
+    try {
+      const eventCount = await downloadPlanCalendar(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT);
+      showToast(`Exported ${eventCount} events`);
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      showToast('Calendar export failed');
+    }
+  };
+
+  const toggleExportBlockType = (blockType: DailyPlanTask['blockType'], included: boolean) => {
+    if (!prefs) return;
+    const current = prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT;
+    const blockTypes = included
+      ? [...current.blockTypes.filter(type => type !== blockType), blockType]
+      : current.blockTypes.filter(type => type !== blockType);
+    saveSetting({ calendarExport: { ...current, blockTypes } });
   };
 
-  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (event) => {
-      try {
-        const data = JSON.parse(event.target?.result as string);
-
-        // Validate schema
-        if (!data.version || !data.settings) {
-          showToast('Invalid file format - missing version or settings');
-          return;
-        }
-
-        if (!data.version.startsWith('1.')) {
-          showToast('Incompatible version - please update your export');
-          return;
-        }
-
-        if (confirm('Import settings and tasks? This will merge with existing data.')) {
-          // Import settings
-          if (data.settings) {
-            await db.userPrefs.clear();
-            await db.userPrefs.add(data.settings);
-          }
-
-          // Import tasks (merge, don't replace)
-          if (data.tasks && Array.isArray(data.tasks)) {
-            await db.tasks.bulkPut(data.tasks);
-          }
-
-          // Import archive
-          if (data.archive && Array.isArray(data.archive)) {
-            await db.tasks.bulkPut(data.archive);
-          }
-
-          showToast('Data imported successfully');
-          loadPrefs();
-        }
-      } catch (error) {
-        showToast('Error importing - check file format');
-        console.error(error);
-      }
-    };
-    reader.readAsText(file);
+    try {
+      const { backup, migratedFrom } = parseBackup(await file.text());
+      const preview = await previewRestore(backup, migratedFrom);
+      setPendingRestore({ backup, preview });
+    } catch (error) {
+      console.error('Error reading backup:', error);
+      showToast(error instanceof Error ? error.message : 'Error importing - check file format');
+    }
   };
 
   const domains: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
+  const weekdayLabels = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+  const getWeekdayTimes = (weekday: number): WakeSleepTimes => {
+    return prefs?.weeklyWakeSchedule?.[weekday] || {
+      wakeTime: prefs?.defaultWakeTime || '06:00',
+      sleepTime: prefs?.defaultSleepTime || '22:00'
+    };
+  };
+
+  const updateWeekdayTimes = (weekday: number, updates: Partial<WakeSleepTimes>) => {
+    saveSetting({
+      weeklyWakeSchedule: {
+        ...(prefs?.weeklyWakeSchedule || {}),
+        [weekday]: { ...getWeekdayTimes(weekday), ...updates }
+      }
+    });
+  };
+
+  const updateProtectedTime = (idx: number, updates: Partial<ProtectedTime>) => {
+    const updated = [...(prefs?.protectedTimes || [])];
+    updated[idx] = { ...updated[idx], ...updates };
+    saveSetting({ protectedTimes: updated });
+  };
+
+  const transitionPairs = Object.entries(prefs?.transitionBuffers || {}).map(([key, minutes]) => {
+    const [from, to] = key.split('>') as [Domain, Domain];
+    return { key, from, to, minutes };
+  });
+
+  const updateTransitionPair = (key: string, from: Domain, to: Domain, minutes: number) => {
+    const updated = { ...(prefs?.transitionBuffers || {}) };
+    delete updated[key];
+    updated[getTransitionKey(from, to)] = minutes;
+    saveSetting({ transitionBuffers: updated });
+  };
 
   if (!prefs) {
     return (
@@ -180,32 +216,109 @@ export const Settings = () => {
 
       {/* Day Timing */}
       <div className="bg-white rounded-lg shadow p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">Day Timing</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <div>
-            <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
-              Default Wake Time
-            </label>
-            <input
-              type="time"
-              value={prefs.defaultWakeTime}
-              onChange={(e) => saveSetting({ defaultWakeTime: e.target.value })}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
-            />
-            <p className="text-xs text-gray-500 mt-1">When your day typically starts</p>
-          </div>
+        <h2 className="flex items-center text-xl font-semibold text-gray-800 mb-4">
+          Day Timing
+          <Tooltip text="When your day starts and the timeline fills to, per weekday. Date overrides replace the weekday hours for a single day." />
+        </h2>
+        <div className="space-y-2">
+          {weekdayLabels.map((dayLabel, i) => {
+            const weekday = i + 1;
+            const times = getWeekdayTimes(weekday);
+            return (
+              <div key={dayLabel} className="grid grid-cols-[60px_1fr_1fr] gap-3 items-center">
+                <span className="text-sm font-medium text-gray-700">{dayLabel}</span>
+                <input
+                  type="time"
+                  value={times.wakeTime}
+                  onChange={(e) => updateWeekdayTimes(weekday, { wakeTime: e.target.value })}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-gray-800 focus:border-transparent"
+                />
+                <input
+                  type="time"
+                  value={times.sleepTime}
+                  onChange={(e) => updateWeekdayTimes(weekday, { sleepTime: e.target.value })}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-gray-800 focus:border-transparent"
+                />
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex items-center justify-between mt-2">
+          <p className="text-xs text-gray-500">Wake time, then sleep time. A sleep time before the wake time runs past midnight.</p>
+          <button
+            onClick={() => saveSetting({ weeklyWakeSchedule: buildWeeklyWakeSchedule(getWeekdayTimes(1).wakeTime, getWeekdayTimes(1).sleepTime) })}
+            className="text-xs text-gray-600 underline hover:text-gray-800"
+          >
+            Use Monday for every day
+          </button>
+        </div>
 
-          <div>
-            <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
-              Default Sleep Time
-            </label>
-            <input
-              type="time"
-              value={prefs.defaultSleepTime}
-              onChange={(e) => saveSetting({ defaultSleepTime: e.target.value })}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
-            />
-            <p className="text-xs text-gray-500 mt-1">Timeline fills to this time</p>
+        <div className="border-t border-gray-200 mt-4 pt-4">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-gray-800">Date Overrides</h3>
+            <button
+              onClick={() => {
+                const tomorrow = new Date();
+                tomorrow.setDate(tomorrow.getDate() + 1);
+                const tomorrowString = toLocalDateString(tomorrow);
+                const tomorrowWeekday = tomorrow.getDay() === 0 ? 7 : tomorrow.getDay();
+                saveSetting({
+                  wakeScheduleOverrides: {
+                    ...(prefs.wakeScheduleOverrides || {}),
+                    [tomorrowString]: getWeekdayTimes(tomorrowWeekday)
+                  }
+                });
+              }}
+              className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+            >
+              <Plus size={14} /> Add Override
+            </button>
+          </div>
+          <div className="space-y-2">
+            {Object.entries(prefs.wakeScheduleOverrides || {})
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([dateString, times]) => (
+                <div key={dateString} className="grid grid-cols-[140px_1fr_1fr_40px] gap-3 items-center">
+                  <input
+                    type="date"
+                    value={dateString}
+                    onChange={(e) => {
+                      if (!e.target.value) return;
+                      const { [dateString]: moved, ...rest } = prefs.wakeScheduleOverrides || {};
+                      saveSetting({ wakeScheduleOverrides: { ...rest, [e.target.value]: moved } });
+                    }}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <input
+                    type="time"
+                    value={times.wakeTime}
+                    onChange={(e) => saveSetting({
+                      wakeScheduleOverrides: { ...prefs.wakeScheduleOverrides, [dateString]: { ...times, wakeTime: e.target.value } }
+                    })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <input
+                    type="time"
+                    value={times.sleepTime}
+                    onChange={(e) => saveSetting({
+                      wakeScheduleOverrides: { ...prefs.wakeScheduleOverrides, [dateString]: { ...times, sleepTime: e.target.value } }
+                    })}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded"
+                  />
+                  <button
+                    onClick={() => {
+                      const { [dateString]: _removed, ...rest } = prefs.wakeScheduleOverrides || {};
+                      saveSetting({ wakeScheduleOverrides: rest });
+                    }}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            {Object.keys(prefs.wakeScheduleOverrides || {}).length === 0 && (
+              <p className="text-xs text-gray-500">No overrides. Add one for a day with unusual hours.</p>
+            )}
           </div>
         </div>
       </div>
@@ -317,7 +430,7 @@ export const Settings = () => {
             <div className="flex-1">
               <div className="flex items-center">
                 <span className="font-medium text-gray-800">Soft Cap</span>
-                <Tooltip text="Show warnings when approaching weekly limits but allow exceeding them" />
+                <Tooltip text="Warn in the daily plan and before starting a timer once a domain reaches 90% of its weekly limit, but allow exceeding it" />
               </div>
               <div className="text-sm text-gray-600">Warn when approaching limits</div>
             </div>
@@ -340,9 +453,9 @@ export const Settings = () => {
             <div className="flex-1">
               <div className="flex items-center">
                 <span className="font-medium text-gray-800">Hard Cap</span>
-                <Tooltip text="Prevent scheduling new work sessions when weekly limit is reached" />
+                <Tooltip text="The scheduler only plans what is left of each weekly limit, and timers won't start once a domain's weekly limit is used" />
               </div>
-              <div className="text-sm text-gray-600">Block new sessions when limit reached</div>
+              <div className="text-sm text-gray-600">Stop scheduling and block sessions when limit reached</div>
             </div>
           </label>
 
@@ -363,14 +476,237 @@ export const Settings = () => {
             <div className="flex-1">
               <div className="flex items-center">
                 <span className="font-medium text-gray-800">Recovery Mode</span>
-                <Tooltip text="Prioritize rest blocks and low-energy tasks when energy is consistently low" />
+                <Tooltip text="After a day where Work or Side Hustle went over its daily limit, the next day gets half the daily limit and free time becomes Recharge" />
               </div>
-              <div className="text-sm text-gray-600">Prioritize rest when energy is low</div>
+              <div className="text-sm text-gray-600">Lighten the day after going over a daily limit</div>
             </div>
           </label>
         </div>
       </div>
 
+      {/* Protected Times */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center text-xl font-semibold text-gray-800">
+            Protected Times
+            <Tooltip text="Windows where the scheduler won't place the chosen domains, e.g. no Work after 18:00 or no Side Hustle on Sunday. An end time at or before the start runs past midnight." />
+          </h2>
+          <button
+            onClick={() => {
+              const newProtectedTime: ProtectedTime = {
+                id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                label: 'New window',
+                weekdays: [1, 2, 3, 4, 5],
+                startTime: '18:00',
+                endTime: '00:00',
+                blockedDomains: ['Work'],
+                enabled: true
+              };
+              saveSetting({ protectedTimes: [...(prefs.protectedTimes || []), newProtectedTime] });
+            }}
+            className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+          >
+            <Plus size={14} /> Add Window
+          </button>
+        </div>
+
+        {(prefs.protectedTimes || []).some(protectedTime => protectedTime.enabled === false) && (
+          <p className="text-xs text-amber-700 bg-amber-50 rounded p-2 mb-3">
+            Windows that are switched off aren't enforced. Ones from your earlier settings start off - turn on the ones you want the scheduler to keep.
+          </p>
+        )}
+
+        <div className="space-y-3">
+          {(prefs.protectedTimes || []).map((protectedTime, idx) => (
+            <div
+              key={protectedTime.id}
+              className={`border border-gray-200 rounded-lg p-3 space-y-2 ${protectedTime.enabled === false ? 'bg-gray-50' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-1 text-xs text-gray-700 cursor-pointer" title="Enforce this window when planning">
+                  <input
+                    type="checkbox"
+                    checked={protectedTime.enabled !== false}
+                    onChange={(e) => updateProtectedTime(idx, { enabled: e.target.checked })}
+                    className="w-3.5 h-3.5 rounded border-gray-300"
+                  />
+                  On
+                </label>
+                <input
+                  type="text"
+                  value={protectedTime.label}
+                  onChange={(e) => updateProtectedTime(idx, { label: e.target.value })}
+                  className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+                  placeholder="Label"
+                />
+                <input
+                  type="time"
+                  value={protectedTime.startTime}
+                  onChange={(e) => updateProtectedTime(idx, { startTime: e.target.value })}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+                <span className="text-sm text-gray-500">to</span>
+                <input
+                  type="time"
+                  value={protectedTime.endTime}
+                  onChange={(e) => updateProtectedTime(idx, { endTime: e.target.value })}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+                <button
+                  onClick={() => {
+                    const updated = (prefs.protectedTimes || []).filter((_, i) => i !== idx);
+                    saveSetting({ protectedTimes: updated });
+                  }}
+                  className="p-1 text-red-600 hover:bg-red-50 rounded"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {weekdayLabels.map((dayLabel, i) => {
+                  const weekday = i + 1;
+                  const active = protectedTime.weekdays.includes(weekday);
+                  return (
+                    <button
+                      key={dayLabel}
+                      onClick={() => updateProtectedTime(idx, {
+                        weekdays: active
+                          ? protectedTime.weekdays.filter(d => d !== weekday)
+                          : [...protectedTime.weekdays, weekday].sort()
+                      })}
+                      className={`px-2 py-0.5 text-xs rounded border ${
+                        active ? 'bg-gray-800 text-white border-gray-800' : 'bg-white text-gray-600 border-gray-300'
+                      }`}
+                    >
+                      {dayLabel}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="text-xs text-gray-600">Blocks:</span>
+                {domains.map((domain) => (
+                  <label key={domain} className="flex items-center gap-1 text-xs text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={protectedTime.blockedDomains.includes(domain)}
+                      onChange={(e) => updateProtectedTime(idx, {
+                        blockedDomains: e.target.checked
+                          ? [...protectedTime.blockedDomains, domain]
+                          : protectedTime.blockedDomains.filter(d => d !== domain)
+                      })}
+                      className="w-3.5 h-3.5 rounded border-gray-300"
+                    />
+                    {domain}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {(prefs.protectedTimes || []).length === 0 && (
+            <p className="text-xs text-gray-500">No protected times. Click "Add Window" to keep a domain out of part of your day.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Transitions */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="flex items-center text-xl font-semibold text-gray-800">
+            Transitions
+            <Tooltip text="Setup time the scheduler leaves between blocks of different domains, plus travel time to and from Errands. Shown on the timeline as Transition and Travel blocks." />
+          </h2>
+          <button
+            onClick={() => {
+              const unusedPair = domains
+                .flatMap(from => domains.filter(to => to !== from).map(to => getTransitionKey(from, to)))
+                .find(key => !(key in (prefs.transitionBuffers || {})));
+              if (!unusedPair) return;
+              saveSetting({
+                transitionBuffers: {
+                  ...(prefs.transitionBuffers || {}),
+                  [unusedPair]: prefs.defaultTransitionMinutes ?? 5
+                }
+              });
+            }}
+            className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900"
+          >
+            <Plus size={14} /> Add Pair
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-1 block">Default switch (min)</label>
+            <input
+              type="number"
+              min="0"
+              max="120"
+              value={prefs.defaultTransitionMinutes ?? 5}
+              onChange={(e) => saveSetting({ defaultTransitionMinutes: parseInt(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-1 block">Errand travel (min)</label>
+            <input
+              type="number"
+              min="0"
+              max="240"
+              value={prefs.errandTravelMinutes ?? 15}
+              onChange={(e) => saveSetting({ errandTravelMinutes: parseInt(e.target.value) || 0 })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {transitionPairs.map(({ key, from, to, minutes }) => (
+            <div key={key} className="flex items-center gap-2">
+              <select
+                value={from}
+                onChange={(e) => updateTransitionPair(key, e.target.value as Domain, to, minutes)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                {domains.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+              </select>
+              <span className="text-sm text-gray-500">→</span>
+              <select
+                value={to}
+                onChange={(e) => updateTransitionPair(key, from, e.target.value as Domain, minutes)}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              >
+                {domains.map(domain => <option key={domain} value={domain}>{domain}</option>)}
+              </select>
+              <input
+                type="number"
+                min="0"
+                max="120"
+                value={minutes}
+                onChange={(e) => updateTransitionPair(key, from, to, parseInt(e.target.value) || 0)}
+                className="w-20 px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-500">min</span>
+              <button
+                onClick={() => {
+                  const updated = { ...(prefs.transitionBuffers || {}) };
+                  delete updated[key];
+                  saveSetting({ transitionBuffers: updated });
+                }}
+                className="p-1 text-red-600 hover:bg-red-50 rounded"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+          {transitionPairs.length === 0 && (
+            <p className="text-xs text-gray-500">Every domain switch uses the default. Click "Add Pair" to set a longer or shorter switch, e.g. Work → Creative.</p>
+          )}
+        </div>
+      </div>
+
       {/* Bio-Rhythm Profile */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Bio-Rhythm Profile</h2>
@@ -483,6 +819,26 @@ export const Settings = () => {
               </div>
             </div>
           )}
+
+          <div>
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-2">
+              Energy Matching: {prefs.energyMatchPenalty ?? 5}
+              <Tooltip text="How hard the scheduler works to put High-energy tasks in your peaks and Low-energy tasks in your troughs. 0 packs tasks in order and ignores your energy pattern." />
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              value={prefs.energyMatchPenalty ?? 5}
+              onChange={(e) => saveSetting({ energyMatchPenalty: parseInt(e.target.value) })}
+              className="w-full max-w-xs h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer accent-blue-600"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {(prefs.energyMatchPenalty ?? 5) === 0
+                ? 'Off - tasks fill the earliest free slot'
+                : 'Higher values move tasks further to find a matching energy window'}
+            </p>
+          </div>
         </div>
       </div>
 
@@ -725,6 +1081,57 @@ export const Settings = () => {
         )}
       </AnimatePresence>
 
+      {/* Calendar Export */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h2 className="flex items-center text-xl font-semibold text-gray-800 mb-4">
+          Calendar Export
+          <Tooltip text="Download your plan as an .ics file for other calendar apps. Each block keeps the same ID across exports, so importing a newer file updates events instead of duplicating them." />
+        </h2>
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+          {EXPORT_BLOCK_TYPES.map(({ type, label }) => (
+            <label key={type} className="flex items-center gap-2 p-2 hover:bg-gray-50 rounded cursor-pointer">
+              <input
+                type="checkbox"
+                checked={(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT).blockTypes.includes(type)}
+                onChange={(e) => toggleExportBlockType(type, e.target.checked)}
+                className="w-5 h-5 text-gray-800 border-gray-300 rounded focus:ring-2 focus:ring-gray-800"
+              />
+              <span className="text-sm text-gray-800">{label}</span>
+            </label>
+          ))}
+        </div>
+        <div className="space-y-2 mb-4">
+          <label className="flex items-center gap-2 p-2 hover:bg-gray-50 rounded cursor-pointer">
+            <input
+              type="checkbox"
+              checked={(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT).includeDrafts}
+              onChange={(e) => saveSetting({ calendarExport: { ...(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT), includeDrafts: e.target.checked } })}
+              className="w-5 h-5 text-gray-800 border-gray-300 rounded focus:ring-2 focus:ring-gray-800"
+            />
+            <span className="text-sm text-gray-800">Include future drafts (marked tentative)</span>
+          </label>
+          <label className="flex items-center gap-2 p-2 hover:bg-gray-50 rounded cursor-pointer">
+            <input
+              type="checkbox"
+              checked={(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT).includeDueDates}
+              onChange={(e) => saveSetting({ calendarExport: { ...(prefs.calendarExport ?? DEFAULT_CALENDAR_EXPORT), includeDueDates: e.target.checked } })}
+              className="w-5 h-5 text-gray-800 border-gray-300 rounded focus:ring-2 focus:ring-gray-800"
+            />
+            <span className="text-sm text-gray-800">Include task due dates (all-day events)</span>
+          </label>
+        </div>
+        <button
+          onClick={handleCalendarExport}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all"
+        >
+          <CalendarDays size={20} />
+          Export .ics
+        </button>
+        <p className="text-xs text-gray-500 mt-3">
+          Covers the last 7 days and everything planned ahead. Meetings imported from a calendar are left out.
+        </p>
+      </div>
+
       {/* Data Management */}
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-xl font-semibold text-gray-800 mb-4">Data Management</h2>
@@ -744,9 +1151,34 @@ export const Settings = () => {
           </label>
         </div>
         <p className="text-xs text-gray-500 mt-3">
-          Export downloads rhythm_settings.json with settings, tasks, and archive
+          Export downloads rhythm_backup.json with every task, session, plan, setting and reflection. Import shows what
+          will change before restoring, and also accepts older rhythm_settings.json exports.
         </p>
       </div>
+
+      {/* Sync */}
+      <SyncSettings onMessage={showToast} />
+
+      {/* Snapshots */}
+      <SnapshotManager
+        onRestored={() => {
+          showToast('Snapshot restored');
+          loadPrefs();
+        }}
+      />
+
+      {pendingRestore && (
+        <RestoreBackupModal
+          backup={pendingRestore.backup}
+          preview={pendingRestore.preview}
+          onClose={() => setPendingRestore(null)}
+          onRestored={() => {
+            setPendingRestore(null);
+            showToast('Backup restored');
+            loadPrefs();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,255 @@
+import { useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { X, History, Trash2, Camera } from 'lucide-react';
+import { LocalSnapshot, SnapshotReason, deleteSnapshot, listSnapshots, restoreSnapshot, takeSnapshot } from '../utils/localSnapshots';
+import { RestorePreview, previewRestore } from '../utils/backup';
+import { getDomainColor } from '../utils/domainColors';
+import { sanitizeText } from '../utils/sanitize';
+
+interface SnapshotManagerProps {
+  onRestored: () => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  schemaUpgrade: 'Before app update',
+  deleteTask: 'Before deleting a task',
+  calendarImport: 'Before calendar import',
+  beforeRestore: 'Before a restore',
+  manual: 'Manual'
+};
+
+const TABLE_LABELS: Record<string, string> = {
+  tasks: 'Tasks',
+  sessions: 'Sessions',
+  dailyPlanTasks: 'Plan blocks',
+  blockTypes: 'Block types',
+  userPrefs: 'Settings',
+  planHistory: 'Plan history',
+  taskOccurrences: 'Recurring history'
+};
+
+const PREVIEW_TASK_LIMIT = 50;
+const PREVIEW_SESSION_LIMIT = 10;
+
+export const SnapshotManager = ({ onRestored }: SnapshotManagerProps) => {
+  const [snapshots, setSnapshots] = useState<LocalSnapshot[]>([]);
+  const [selected, setSelected] = useState<LocalSnapshot | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, []);
+
+  const loadSnapshots = async () => {
+    setSnapshots(await listSnapshots());
+  };
+
+  const handleTakeSnapshot = async () => {
+    setWorking(true);
+    try {
+      await takeSnapshot('manual');
+      await loadSnapshots();
+    } catch (error) {
+      console.error('Error taking snapshot:', error);
+      alert('Failed to take snapshot. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleOpen = async (snapshot: LocalSnapshot) => {
+    setSelected(snapshot);
+    setPreview(null);
+    try {
+      setPreview(await previewRestore(snapshot.backup));
+    } catch (error) {
+      console.error('Error previewing snapshot:', error);
+    }
+  };
+
+  const handleDelete = async (snapshot: LocalSnapshot) => {
+    if (!confirm('Delete this snapshot?')) return;
+    await deleteSnapshot(snapshot.id);
+    await loadSnapshots();
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm('Roll back to this snapshot? Everything changed since then is replaced. Your current data is snapshotted first.')) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await restoreSnapshot(selected.id);
+      window.dispatchEvent(new CustomEvent('settings-changed'));
+      setSelected(null);
+      await loadSnapshots();
+      onRestored();
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      alert('Failed to restore snapshot. Nothing was changed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const snapshotTasks = selected ? selected.backup.tables.tasks : [];
+  const activeTasks = snapshotTasks.filter(task => !task.archived);
+  const tasksById = new Map(snapshotTasks.map(task => [task.id, task]));
+  const completedSessions = selected ? selected.backup.tables.sessions.filter(session => session.completed) : [];
+  const recentSessions = [...completedSessions]
+    .sort((a, b) => b.startTime.localeCompare(a.startTime))
+    .slice(0, PREVIEW_SESSION_LIMIT);
+  const sessionMinutes = completedSessions.reduce((sum, session) => sum + (session.earnedMins || 0), 0);
+  const changes = preview?.tables.filter(table => table.table !== 'localStorage') || [];
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-800">
+          <History size={20} />
+          Snapshots
+        </h2>
+        <button
+          onClick={handleTakeSnapshot}
+          disabled={working}
+          className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-800 text-white rounded hover:bg-gray-900 disabled:opacity-50"
+        >
+          <Camera size={14} /> Take Snapshot
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        Copies of all your data kept in this browser: one a day (last 7), before app updates, and before deleting
+        tasks, importing calendars or restoring. Open one to see what it holds and roll back to it.
+      </p>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        {snapshots.map((snapshot) => (
+          <div key={snapshot.id} className="flex items-center gap-3 p-2 rounded hover:bg-gray-50">
+            <button onClick={() => handleOpen(snapshot)} className="flex-1 text-left">
+              <div className="text-sm font-medium text-gray-800">
+                {new Date(snapshot.createdAt).toLocaleString()}
+                <span className="ml-2 text-xs font-normal text-gray-500">{REASON_LABELS[snapshot.reason]}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                {snapshot.counts.tasks} tasks · {snapshot.counts.sessions} sessions · {snapshot.counts.dailyPlanTasks} plan blocks
+                {snapshot.note && ` · ${sanitizeText(snapshot.note)}`}
+              </div>
+            </button>
+            <button
+              onClick={() => handleDelete(snapshot)}
+              className="p-1 text-red-600 hover:bg-red-50 rounded"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        {snapshots.length === 0 && (
+          <p className="text-xs text-gray-500">No snapshots yet. The first one is taken the next time the app opens.</p>
+        )}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+          >
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-semibold text-gray-800">Snapshot</h2>
+                <p className="text-sm text-gray-500">
+                  {new Date(selected.createdAt).toLocaleString()} · {REASON_LABELS[selected.reason]}
+                  {selected.note && ` · ${sanitizeText(selected.note)}`}
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600">
+                <X size={24} />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-5">
+              {changes.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-gray-700 mb-2">Rolling back would</h3>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {changes
+                      .filter(table => table.added + table.conflicts + table.removed > 0)
+                      .map(table => (
+                        <li key={table.table}>
+                          <strong>{TABLE_LABELS[table.table]}:</strong>{' '}
+                          {table.added > 0 && <span className="text-green-700">bring back {table.added} </span>}
+                          {table.conflicts > 0 && <span className="text-amber-700">revert {table.conflicts} </span>}
+                          {table.removed > 0 && <span className="text-red-600">remove {table.removed} added since</span>}
+                        </li>
+                      ))}
+                    {changes.every(table => table.added + table.conflicts + table.removed === 0) && (
+                      <li className="text-gray-500">Change nothing - this snapshot matches your current data</li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-2">
+                  Tasks ({activeTasks.length} active, {snapshotTasks.length - activeTasks.length} archived)
+                </h3>
+                <div className="space-y-1 max-h-60 overflow-y-auto">
+                  {activeTasks.slice(0, PREVIEW_TASK_LIMIT).map(task => (
+                    <div key={task.id} className="flex items-center gap-2 text-sm">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getDomainColor(task.domain) }} />
+                      <span className={task.status === 'done' ? 'text-gray-400 line-through' : 'text-gray-800'}>
+                        {sanitizeText(task.title)}
+                      </span>
+                      <span className="text-xs text-gray-500">{task.domain}</span>
+                    </div>
+                  ))}
+                  {activeTasks.length > PREVIEW_TASK_LIMIT && (
+                    <p className="text-xs text-gray-500">and {activeTasks.length - PREVIEW_TASK_LIMIT} more</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-700 mb-2">
+                  Sessions ({completedSessions.length} completed, {Math.round(sessionMinutes / 60 * 10) / 10}h)
+                </h3>
+                <div className="space-y-1">
+                  {recentSessions.map(session => (
+                    <div key={session.id} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-800">{sanitizeText(tasksById.get(session.taskId)?.title || 'Deleted task')}</span>
+                      <span className="text-xs text-gray-500">
+                        {new Date(session.startTime).toLocaleString()} · {session.earnedMins} min
+                      </span>
+                    </div>
+                  ))}
+                  {recentSessions.length === 0 && <p className="text-xs text-gray-500">No completed sessions</p>}
+                </div>
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={() => setSelected(null)}
+                  className="flex-1 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-all"
+                >
+                  Close
+                </button>
+                <button
+                  onClick={handleRestore}
+                  disabled={working}
+                  className="flex-1 px-6 py-3 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-all disabled:opacity-50"
+                >
+                  {working ? 'Restoring...' : 'Roll Back to This'}
+                </button>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      )}
+    </div>
+  );
+};
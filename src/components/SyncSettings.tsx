@@ -0,0 +1,133 @@
+import { useState, useEffect } from 'react';
+import { Cloud, RefreshCw } from 'lucide-react';
+import { SyncConfig, SyncStatus, getSyncConfig, getSyncStatus, saveSyncConfig, syncNow, testSyncServer } from '../utils/sync';
+import { getDeviceId } from '../db/changeLog';
+
+interface SyncSettingsProps {
+  onMessage: (message: string) => void;
+}
+
+export const SyncSettings = ({ onMessage }: SyncSettingsProps) => {
+  const [config, setConfig] = useState<SyncConfig>(getSyncConfig());
+  const [serverUrl, setServerUrl] = useState(config.serverUrl);
+  const [token, setToken] = useState(config.token);
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    const handleStatus = (event: Event) => {
+      setStatus((event as CustomEvent<SyncStatus>).detail);
+      setConfig(getSyncConfig());
+    };
+    window.addEventListener('sync-status', handleStatus);
+    return () => window.removeEventListener('sync-status', handleStatus);
+  }, []);
+
+  const handleConnect = async () => {
+    const url = serverUrl.trim();
+    if (!url) {
+      onMessage('Enter the sync server URL');
+      return;
+    }
+
+    setTesting(true);
+    try {
+      const server = await testSyncServer(url, token.trim());
+      setConfig(saveSyncConfig({ enabled: true, serverUrl: url, token: token.trim() }));
+      onMessage(`Connected - server holds ${server.records} records`);
+      syncNow();
+    } catch (error) {
+      console.error('Error connecting to sync server:', error);
+      onMessage(error instanceof Error ? `Could not connect: ${error.message}` : 'Could not connect to sync server');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleDisable = () => {
+    setConfig(saveSyncConfig({ enabled: false }));
+    onMessage('Sync turned off');
+  };
+
+  const handleSyncNow = async () => {
+    const result = await syncNow();
+    if (getSyncStatus().state === 'idle') {
+      onMessage(`Synced - sent ${result.pushed}, received ${result.pulled}`);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h2 className="flex items-center gap-2 text-xl font-semibold text-gray-800 mb-4">
+        <Cloud size={20} />
+        Sync
+      </h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Keep tasks, sessions, plans and settings in step across devices through a sync server you host yourself
+        (run <code>npm run sync-server</code>). Changes made offline are sent the next time you're connected.
+      </p>
+
+      <div className="space-y-3 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Server URL</label>
+          <input
+            type="url"
+            value={serverUrl}
+            onChange={(e) => setServerUrl(e.target.value)}
+            placeholder="http://localhost:8787"
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Token (if the server sets SYNC_TOKEN)</label>
+          <input
+            type="password"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <button
+          onClick={handleConnect}
+          disabled={testing}
+          className="flex items-center gap-2 px-6 py-3 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all disabled:opacity-50"
+        >
+          {testing ? 'Connecting...' : config.enabled ? 'Save & Reconnect' : 'Turn On Sync'}
+        </button>
+        {config.enabled && (
+          <>
+            <button
+              onClick={handleSyncNow}
+              disabled={status.state === 'syncing'}
+              className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-all disabled:opacity-50"
+            >
+              <RefreshCw size={20} className={status.state === 'syncing' ? 'animate-spin' : ''} />
+              Sync Now
+            </button>
+            <button
+              onClick={handleDisable}
+              className="px-6 py-3 text-red-600 rounded-lg font-semibold hover:bg-red-50 transition-all"
+            >
+              Turn Off
+            </button>
+          </>
+        )}
+      </div>
+
+      {config.enabled && (
+        <div className="text-xs text-gray-600 mt-4 space-y-1">
+          <div>
+            Last synced: {config.lastSyncAt ? new Date(config.lastSyncAt).toLocaleString() : 'never'}
+            {status.pending > 0 && ` · ${status.pending} changes waiting`}
+          </div>
+          {status.state === 'error' && <div className="text-red-600">Last sync failed: {status.lastError}</div>}
+          {status.state === 'offline' && <div className="text-amber-600">Offline - will sync when you reconnect</div>}
+        </div>
+      )}
+      <p className="text-xs text-gray-400 mt-2">This device: {getDeviceId()}</p>
+    </div>
+  );
+};
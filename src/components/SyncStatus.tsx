@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { Cloud, CloudOff, RefreshCw, AlertCircle } from 'lucide-react';
+import { SyncStatus as SyncStatusValue, getSyncStatus, refreshSyncStatus, syncNow } from '../utils/sync';
+
+/**
+ * Header indicator for sync - hidden until sync is set up in Settings
+ * Clicking it syncs right away.
+ */
+export const SyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatusValue>(getSyncStatus());
+
+  useEffect(() => {
+    const handleStatus = (event: Event) => setStatus((event as CustomEvent<SyncStatusValue>).detail);
+    window.addEventListener('sync-status', handleStatus);
+    refreshSyncStatus();
+    return () => window.removeEventListener('sync-status', handleStatus);
+  }, []);
+
+  if (status.state === 'off') return null;
+
+  const lastSync = status.lastSyncAt ? `Last synced ${new Date(status.lastSyncAt).toLocaleString()}` : 'Not synced yet';
+  const title = {
+    idle: status.pending > 0 ? `${status.pending} changes waiting to sync. ${lastSync}` : `Synced. ${lastSync}`,
+    syncing: 'Syncing...',
+    offline: `Offline - ${status.pending} changes will sync when you reconnect`,
+    error: `Sync failed: ${status.lastError}. Click to retry.`
+  }[status.state];
+
+  return (
+    <button
+      onClick={() => syncNow()}
+      disabled={status.state === 'syncing'}
+      title={title}
+      aria-label={title}
+      className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium transition-colors hover:bg-gray-100 ${
+        status.state === 'error' ? 'text-red-600' : status.state === 'offline' ? 'text-amber-600' : 'text-gray-600'
+      }`}
+    >
+      {status.state === 'syncing' && <RefreshCw size={16} className="animate-spin" />}
+      {status.state === 'idle' && <Cloud size={16} />}
+      {status.state === 'offline' && <CloudOff size={16} />}
+      {status.state === 'error' && <AlertCircle size={16} />}
+      {status.pending > 0 && status.state !== 'syncing' && <span>{status.pending}</span>}
+    </button>
+  );
+};
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { ConflictSide, TaskConflict, TaskFieldConflict } from '../db/database';
+import { resolveTaskConflict } from '../utils/taskMerge';
+import { sanitizeText } from '../utils/sanitize';
+
+interface TaskConflictReviewProps {
+  conflicts: TaskConflict[];
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+const FIELD_LABELS: Record<TaskFieldConflict['field'], string> = {
+  title: 'Title',
+  notes: 'Notes',
+  dread: 'Dread'
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '(empty)';
+  return sanitizeText(String(value));
+};
+
+export const TaskConflictReview = ({ conflicts, onClose, onResolved }: TaskConflictReviewProps) => {
+  // Picks per task and field, starting from the side the merge kept
+  const [choices, setChoices] = useState<Record<string, Partial<Record<TaskFieldConflict['field'], ConflictSide>>>>(
+    () => Object.fromEntries(conflicts.map(conflict => [
+      conflict.taskId,
+      Object.fromEntries(conflict.fields.map(field => [field.field, field.chosen]))
+    ]))
+  );
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const choose = (taskId: string, field: TaskFieldConflict['field'], side: ConflictSide) => {
+    setChoices(prev => ({ ...prev, [taskId]: { ...prev[taskId], [field]: side } }));
+  };
+
+  const handleApply = async (conflict: TaskConflict) => {
+    setSaving(conflict.taskId);
+    try {
+      await resolveTaskConflict(conflict.taskId, choices[conflict.taskId] || {});
+      onResolved();
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      alert('Failed to save your choice. Please try again.');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.95, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-800">Review Conflicts</h2>
+            <p className="text-sm text-gray-500">
+              These tasks were edited in two places at once. Everything else was merged - pick which version to keep here.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {conflicts.map(conflict => (
+            <div key={conflict.taskId} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <h3 className="font-semibold text-gray-800">{sanitizeText(conflict.taskTitle)}</h3>
+                  <p className="text-xs text-gray-500">
+                    {conflict.source === 'sync' ? 'From sync' : 'From a backup restore'} · {new Date(conflict.detectedAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleApply(conflict)}
+                  disabled={saving === conflict.taskId}
+                  className="px-4 py-2 text-sm bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all disabled:opacity-50"
+                >
+                  {saving === conflict.taskId ? 'Saving...' : 'Keep Selected'}
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {conflict.fields.map(field => (
+                  <div key={field.field}>
+                    <div className="text-sm font-medium text-gray-700 mb-1">{FIELD_LABELS[field.field]}</div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {(['local', 'remote'] as ConflictSide[]).map(side => (
+                        <button
+                          key={side}
+                          onClick={() => choose(conflict.taskId, field.field, side)}
+                          className={`text-left p-3 rounded-lg border-2 transition-all ${
+                            choices[conflict.taskId]?.[field.field] === side
+                              ? 'border-gray-800 bg-gray-50'
+                              : 'border-gray-200 hover:border-gray-400'
+                          }`}
+                        >
+                          <div className="text-xs text-gray-500 mb-1">
+                            {side === 'local' ? 'This device' : conflict.source === 'sync' ? 'Other device' : 'Backup'}
+                          </div>
+                          <div className="text-sm text-gray-800 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">
+                            {formatValue(side === 'local' ? field.local : field.remote)}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </div>
+  );
+};
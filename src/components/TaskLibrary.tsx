@@ -8,11 +8,23 @@ import {
   Clock,
   Zap,
   AlertCircle,
+  AlertTriangle,
   X,
+  CalendarPlus,
+  Lock,
 } from 'lucide-react';
-import { Task, Domain, Priority, Energy, Recurrence, TaskType, db } from '../db/database';
+import { Task, Domain, Priority, Energy, Recurrence, TaskType, TaskConflict, db, deleteTaskCascade } from '../db/database';
 import { getDomainColor } from '../utils/domainColors';
 import { sanitizeText } from '../utils/sanitize';
+import { forecastDeadlines, TaskForecast } from '../utils/deadlineForecast';
+import { fromLocalDateString, toDateKey } from '../utils/localDate';
+import { importIcsCalendar, IcsImportResult } from '../utils/icsImport';
+import { snapshotBeforeAction } from '../utils/localSnapshots';
+import { getTaskConflicts } from '../utils/taskMerge';
+import { TaskConflictReview } from './TaskConflictReview';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { createRecurrenceRule, describeRecurrence, getRecurrenceRule, validateRecurrenceRule } from '../utils/recurrence';
+import { getBlockingTasks, isOpenPrerequisite, setDependents, validateDependencies } from '../utils/taskDependencies';
 
 export const TaskLibrary = () => {
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -23,9 +35,18 @@ export const TaskLibrary = () => {
   const [showAddModal, setShowAddModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [showArchive, setShowArchive] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [forecasts, setForecasts] = useState<Record<string, TaskForecast>>({});
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
 
   useEffect(() => {
     loadTasks();
+
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadTasks();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
   }, []);
 
   useEffect(() => {
@@ -38,6 +59,15 @@ export const TaskLibrary = () => {
       .filter(task => !task.archived)
       .toArray();
     setTasks(allTasks);
+    setConflicts(await getTaskConflicts());
+
+    try {
+      const forecast = await forecastDeadlines();
+      setForecasts(forecast.tasks);
+    } catch (error) {
+      console.error('Failed to forecast deadlines:', error);
+      setForecasts({});
+    }
   };
 
   const applyFilters = () => {
@@ -61,14 +91,8 @@ export const TaskLibrary = () => {
   const handleDeleteTask = async (taskId: string) => {
     if (confirm('Are you sure you want to delete this task? This will also delete all associated sessions and daily plans.')) {
       try {
-        // Use transaction to ensure atomic deletion
-        await db.transaction('rw', [db.tasks, db.sessions, db.dailyPlanTasks], async () => {
-          // Delete dependent records first
-          await db.sessions.where('taskId').equals(taskId).delete();
-          await db.dailyPlanTasks.where('taskId').equals(taskId).delete();
-          // Then delete the task
-          await db.tasks.delete(taskId);
-        });
+        await snapshotBeforeAction('deleteTask', tasks.find(task => task.id === taskId)?.title);
+        await deleteTaskCascade(taskId);
         loadTasks();
       } catch (error) {
         console.error('Failed to delete task:', error);
@@ -80,6 +104,7 @@ export const TaskLibrary = () => {
   const domains: (Domain | 'All')[] = ['All', 'Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
   const priorities: (Priority | 'All')[] = ['All', 'High', 'Medium', 'Low'];
   const energyLevels: (Energy | 'All')[] = ['All', 'Low', 'Medium', 'High'];
+  const tasksById = new Map(tasks.map(task => [task.id!, task]));
 
   return (
     <div className="space-y-6">
@@ -96,6 +121,13 @@ export const TaskLibrary = () => {
           >
             View Archive
           </button>
+          <button
+            onClick={() => setShowImportModal(true)}
+            className="flex items-center gap-2 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-all shadow"
+          >
+            <CalendarPlus size={20} />
+            Import Calendar
+          </button>
           <button
             onClick={() => {
               setEditingTask(null);
@@ -109,6 +141,22 @@ export const TaskLibrary = () => {
         </div>
       </div>
 
+      {/* Conflicting edits from sync or a backup merge */}
+      {conflicts.length > 0 && (
+        <div className="flex items-center justify-between gap-3 bg-amber-50 border border-amber-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 text-sm text-amber-800">
+            <AlertTriangle size={18} className="flex-shrink-0" />
+            {conflicts.length} {conflicts.length === 1 ? 'task was' : 'tasks were'} edited in two places at once
+          </div>
+          <button
+            onClick={() => setShowConflicts(true)}
+            className="px-4 py-2 text-sm bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all"
+          >
+            Review
+          </button>
+        </div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center gap-2 mb-4">
@@ -172,6 +220,8 @@ export const TaskLibrary = () => {
         <AnimatePresence>
           {filteredTasks.map((task) => {
             const domainColor = getDomainColor(task.domain);
+            const forecast = task.id ? forecasts[task.id] : undefined;
+            const waitingOn = getBlockingTasks(task, tasksById);
             return (
               <motion.div
                 key={task.id}
@@ -204,12 +254,39 @@ export const TaskLibrary = () => {
                           High Priority
                         </span>
                       )}
-                      <span className="text-xs text-gray-500">{task.recurrence}</span>
+                      <span className="text-xs text-gray-500">
+                        {getRecurrenceRule(task) ? describeRecurrence(getRecurrenceRule(task)!) : task.recurrence}
+                      </span>
+                      {task.icsUid && (
+                        <span className="text-xs text-gray-500" title={task.icsSource ? `Imported from ${task.icsSource}` : undefined}>
+                          📅 {task.fixedStartTime && new Date(task.fixedStartTime).toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                        </span>
+                      )}
                       {task.dread > 0 && (
                         <span className="text-xs text-orange-500 font-semibold">
                           Dread: {task.dread}
                         </span>
                       )}
+                      {forecast && forecast.status !== 'ok' && (
+                        <span
+                          className={`text-xs font-semibold flex items-center gap-1 px-2 py-0.5 rounded ${
+                            forecast.status === 'impossible' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                          }`}
+                          title="Remaining work due by this date compared with the free time left before it: wake windows minus fixed events, planned blocks and protected time, within your daily and weekly caps"
+                        >
+                          <AlertTriangle size={12} />
+                          {forecast.status === 'impossible' ? 'Impossible' : 'At risk'}
+                        </span>
+                      )}
+                      {waitingOn.length > 0 && (
+                        <span
+                          className="text-xs font-semibold flex items-center gap-1 px-2 py-0.5 rounded bg-gray-100 text-gray-700"
+                          title={`Waiting on ${waitingOn.map(prerequisite => prerequisite.title).join(', ')}`}
+                        >
+                          <Lock size={12} />
+                          Blocked
+                        </span>
+                      )}
                     </div>
                     <h3 className="font-semibold text-gray-800 text-lg mb-1">{sanitizeText(task.title)}</h3>
                     {task.notes && <p className="text-sm text-gray-600">{sanitizeText(task.notes)}</p>}
@@ -218,6 +295,14 @@ export const TaskLibrary = () => {
                         Due: {new Date(task.deadline).toLocaleDateString()}
                       </p>
                     )}
+                    {task.isProject && forecast && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        {forecast.projectedCompletion
+                          ? `Projected completion: ${fromLocalDateString(forecast.projectedCompletion).toLocaleDateString()}`
+                          : 'Projected completion: not within the next year at current pace'}
+                        {task.dueDate && ` (due ${fromLocalDateString(toDateKey(task.dueDate)).toLocaleDateString()})`}
+                      </p>
+                    )}
                   </div>
 
                   <div className="flex gap-2 ml-4">
@@ -264,6 +349,7 @@ export const TaskLibrary = () => {
       {showAddModal && (
         <TaskModal
           task={editingTask}
+          allTasks={tasks}
           onClose={() => {
             setShowAddModal(false);
             setEditingTask(null);
@@ -275,6 +361,162 @@ export const TaskLibrary = () => {
           }}
         />
       )}
+
+      {/* Conflict Review Modal */}
+      {showConflicts && (
+        <TaskConflictReview
+          conflicts={conflicts}
+          onClose={() => setShowConflicts(false)}
+          onResolved={async () => {
+            await loadTasks();
+            if ((await getTaskConflicts()).length === 0) setShowConflicts(false);
+          }}
+        />
+      )}
+
+      {/* Calendar Import Modal */}
+      {showImportModal && (
+        <ImportCalendarModal
+          onClose={() => setShowImportModal(false)}
+          onImported={loadTasks}
+        />
+      )}
+    </div>
+  );
+};
+
+// Calendar Import Modal Component
+interface ImportCalendarModalProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const ImportCalendarModal = ({ onClose, onImported }: ImportCalendarModalProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [domain, setDomain] = useState<Domain>('Work');
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<IcsImportResult | null>(null);
+
+  const domains: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
+
+  const handleImport = async () => {
+    if (!file) {
+      alert('Choose an .ics file to import');
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const text = await file.text();
+      const importResult = await importIcsCalendar(text, file.name, domain);
+      setResult(importResult);
+      onImported();
+    } catch (error) {
+      console.error('Failed to import calendar:', error);
+      alert('Failed to import calendar. Please check the file and try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+      >
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-gray-800">Import Calendar</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="p-6 space-y-4">
+            <p className="text-gray-700">
+              Imported <strong>{sanitizeText(result.source)}</strong> as Fixed {domain} tasks:
+            </p>
+            <ul className="text-sm text-gray-700 space-y-1">
+              <li>{result.added} added</li>
+              <li>{result.updated} updated</li>
+              <li>{result.removed} removed (no longer in the calendar)</li>
+              <li>{result.unchanged} unchanged</li>
+              {result.skippedAllDay > 0 && <li>{result.skippedAllDay} all-day events skipped</li>}
+            </ul>
+            {result.warnings.length > 0 && (
+              <div className="text-xs text-amber-700 bg-amber-50 p-3 rounded space-y-1">
+                {result.warnings.map((warning) => (
+                  <p key={warning}>{sanitizeText(warning)}</p>
+                ))}
+              </div>
+            )}
+            {result.updated + result.removed > 0 && (
+              <p className="text-xs text-gray-600 bg-gray-50 p-3 rounded">
+                Moved or removed meetings leave gaps in plans you already made. Use <strong>Update Schedule Now</strong> in
+                Today View to replan around them.
+              </p>
+            )}
+            <button
+              onClick={onClose}
+              className="w-full px-6 py-3 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              Events in the next 60 days become Fixed tasks at their calendar times, including repeating events.
+              Import the same calendar again to pick up changes - events are matched by their calendar ID, so nothing is
+              duplicated.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Calendar file (.ics)</label>
+              <input
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className="w-full text-sm text-gray-700"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Domain</label>
+              <select
+                value={domain}
+                onChange={(e) => setDomain(e.target.value as Domain)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
+              >
+                {domains.map((d) => (
+                  <option key={d} value={d}>
+                    {d}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-6 py-3 bg-gray-100 text-gray-700 rounded-lg font-semibold hover:bg-gray-200 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || !file}
+                className="flex-1 px-6 py-3 bg-gray-800 text-white rounded-lg font-semibold hover:bg-gray-900 transition-all disabled:opacity-50"
+              >
+                {importing ? 'Importing...' : 'Import'}
+              </button>
+            </div>
+          </div>
+        )}
+      </motion.div>
     </div>
   );
 };
@@ -282,11 +524,12 @@ export const TaskLibrary = () => {
 // Task Modal Component
 interface TaskModalProps {
   task: Task | null;
+  allTasks: Task[]; // Library tasks, for picking dependencies
   onClose: () => void;
   onSave: () => void;
 }
 
-const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
+const TaskModal = ({ task, allTasks, onClose, onSave }: TaskModalProps) => {
   const [formData, setFormData] = useState<Partial<Task>>({
     title: task?.title || '',
     domain: task?.domain || 'Work',
@@ -299,6 +542,7 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
     recurrence: task?.recurrence || 'Once',
     daysOfWeek: task?.daysOfWeek || [],
     weeklyDay: task?.weeklyDay || null,
+    recurrenceRule: task ? getRecurrenceRule(task) : null,
     notes: task?.notes || '',
     subtasks: task?.subtasks || [],
     status: task?.status || 'todo',
@@ -316,7 +560,40 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
     fixedStartTime: task?.fixedStartTime || null,
     eligibleStartTime: task?.eligibleStartTime || null,
     mustFinishByTime: task?.mustFinishByTime || null,
+    // Dependencies
+    blockedBy: (task?.blockedBy || []).filter(id => allTasks.some(other => other.id === id)), // Archived prerequisites drop off
   });
+  // Tasks that wait on this one - stored on them, so edited separately from formData
+  const [blocks, setBlocks] = useState<string[]>(
+    () => task?.id ? allTasks.filter(other => other.blockedBy?.includes(task.id!)).map(other => other.id!) : []
+  );
+
+  const handleRecurrenceChange = (recurrence: Recurrence) => {
+    if (recurrence === 'Once') {
+      setFormData({ ...formData, recurrence, recurrenceRule: null });
+      return;
+    }
+    // Switching frequency keeps the interval and end, and restarts the day pattern from the anchor
+    const freq = ({ Daily: 'daily', Weekly: 'weekly', Monthly: 'monthly', Yearly: 'yearly' } as const)[recurrence as 'Daily' | 'Weekly' | 'Monthly' | 'Yearly'];
+    const previous = formData.recurrenceRule;
+    const anchor = formData.startDate ? toDateKey(formData.startDate) : previous?.anchor;
+    const rule = createRecurrenceRule(freq, anchor);
+    setFormData({
+      ...formData,
+      recurrence,
+      recurrenceRule: previous
+        ? { ...rule, interval: previous.interval, count: previous.count, until: previous.until, afterCompletion: previous.afterCompletion }
+        : rule
+    });
+  };
+
+  const handleStartDateChange = (startDate: string | null) => {
+    // The first occurrence follows the start date
+    const recurrenceRule = formData.recurrenceRule && startDate
+      ? { ...formData.recurrenceRule, anchor: startDate }
+      : formData.recurrenceRule;
+    setFormData({ ...formData, startDate, recurrenceRule });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -346,33 +623,43 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
       }
     }
 
-    if (formData.recurrence === 'Weekly' && (!formData.weeklyDay || formData.weeklyDay.length === 0)) {
-      alert('Weekly tasks require at least one day to be selected');
-      return;
+    if (formData.recurrenceRule) {
+      const recurrenceError = validateRecurrenceRule(formData.recurrenceRule);
+      if (recurrenceError) {
+        alert(recurrenceError);
+        return;
+      }
     }
 
-    if (formData.recurrence === 'CustomDays' && (!formData.customRecurrenceDays || formData.customRecurrenceDays.length === 0)) {
-      alert('Custom recurrence requires at least one day to be selected');
+    if (formData.sliceSize && (formData.sliceSize < 5 || formData.sliceSize > formData.estimateMins)) {
+      alert(`Slice size must be between 5 minutes and ${formData.estimateMins} minutes (task estimate)`);
       return;
     }
 
-    if (formData.sliceSize && (formData.sliceSize < 5 || formData.sliceSize > formData.estimateMins)) {
-      alert(`Slice size must be between 5 minutes and ${formData.estimateMins} minutes (task estimate)`);
+    // Only one-off tasks can hold others up - a repeating task is never finished for good
+    const taskId = task?.id || crypto.randomUUID();
+    const dependentIds = formData.recurrence === 'Once' ? blocks : [];
+    const dependencyError = validateDependencies(taskId, formData.blockedBy || [], dependentIds, allTasks);
+    if (dependencyError) {
+      alert(dependencyError);
       return;
     }
 
     try {
-      if (task?.id) {
-        // Update existing task
-        await db.tasks.update(task.id, formData);
-      } else {
-        // Create new task
-        await db.tasks.add({
-          ...formData,
-          id: crypto.randomUUID(),
-          createdAt: new Date().toISOString(),
-        } as Task);
-      }
+      await db.transaction('rw', db.tasks, async () => {
+        if (task?.id) {
+          // Update existing task
+          await db.tasks.update(task.id, formData);
+        } else {
+          // Create new task
+          await db.tasks.add({
+            ...formData,
+            id: taskId,
+            createdAt: new Date().toISOString(),
+          } as Task);
+        }
+        await setDependents(taskId, dependentIds);
+      });
 
       onSave();
     } catch (error) {
@@ -384,9 +671,10 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
   const domains: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
   const priorities: Priority[] = ['High', 'Medium', 'Low'];
   const energyLevels: Energy[] = ['Low', 'Medium', 'High'];
-  const recurrences: Recurrence[] = ['Once', 'Daily', 'Weekly', 'Monthly', 'CustomDays'];
+  const recurrences: Recurrence[] = ['Once', 'Daily', 'Weekly', 'Monthly', 'Yearly'];
   const taskTypes: TaskType[] = ['Fixed', 'Flexible', 'Recurring'];
   const sliceSizes = [15, 30, 45, 60];
+  const otherTasks = allTasks.filter(other => other.id !== task?.id && !other.archived);
 
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -488,9 +776,7 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
               <label className="block text-sm font-medium text-gray-700 mb-2">Recurrence*</label>
               <select
                 value={formData.recurrence}
-                onChange={(e) =>
-                  setFormData({ ...formData, recurrence: e.target.value as Recurrence })
-                }
+                onChange={(e) => handleRecurrenceChange(e.target.value as Recurrence)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
               >
                 {recurrences.map((r) => (
@@ -511,7 +797,7 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
               <input
                 type="date"
                 value={formData.startDate?.split('T')[0] || ''}
-                onChange={(e) => setFormData({ ...formData, startDate: e.target.value || null })}
+                onChange={(e) => handleStartDateChange(e.target.value || null)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
               />
               <p className="text-xs text-gray-500 mt-1">Earliest date to schedule</p>
@@ -533,97 +819,13 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
             </div>
           </div>
 
-          {/* Weekly Day Selector (shown only for Weekly recurrence) */}
-          {formData.recurrence === 'Weekly' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Day of Week*
-              </label>
-              <select
-                value={formData.weeklyDay || ''}
-                onChange={(e) => setFormData({ ...formData, weeklyDay: e.target.value ? parseInt(e.target.value) : null })}
-                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent"
-                required
-              >
-                <option value="">Select a day</option>
-                <option value="1">Monday</option>
-                <option value="2">Tuesday</option>
-                <option value="3">Wednesday</option>
-                <option value="4">Thursday</option>
-                <option value="5">Friday</option>
-                <option value="6">Saturday</option>
-                <option value="7">Sunday</option>
-              </select>
-            </div>
-          )}
-
-          {/* Custom Days Selector (shown only for CustomDays recurrence) */}
-          {formData.recurrence === 'CustomDays' && (
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Days of Week*
-              </label>
-              <div className="grid grid-cols-7 gap-2">
-                {[
-                  { num: 1, name: 'Mon' },
-                  { num: 2, name: 'Tue' },
-                  { num: 3, name: 'Wed' },
-                  { num: 4, name: 'Thu' },
-                  { num: 5, name: 'Fri' },
-                  { num: 6, name: 'Sat' },
-                  { num: 7, name: 'Sun' },
-                ].map((day) => (
-                  <button
-                    key={day.num}
-                    type="button"
-                    onClick={() => {
-                      const currentDays = formData.daysOfWeek || [];
-                      const newDays = currentDays.includes(day.num)
-                        ? currentDays.filter(d => d !== day.num)
-                        : [...currentDays, day.num].sort((a, b) => a - b);
-                      setFormData({ ...formData, daysOfWeek: newDays });
-                    }}
-                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-all ${
-                      (formData.daysOfWeek || []).includes(day.num)
-                        ? 'bg-gray-800 text-white'
-                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-                    }`}
-                  >
-                    {day.name}
-                  </button>
-                ))}
-              </div>
-              <div className="mt-2 flex flex-wrap gap-2">
-                <button
-                  type="button"
-                  onClick={() => setFormData({ ...formData, daysOfWeek: [1, 2, 3, 4, 5] })}
-                  className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
-                >
-                  Weekdays
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setFormData({ ...formData, daysOfWeek: [6, 7] })}
-                  className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
-                >
-                  Weekends
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setFormData({ ...formData, daysOfWeek: [1, 3, 5] })}
-                  className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
-                >
-                  Mon/Wed/Fri
-                </button>
-                <button
-                  type="button"
-                  onClick={() => setFormData({ ...formData, daysOfWeek: [2, 4] })}
-                  className="px-2 py-1 text-xs bg-blue-100 text-blue-700 rounded hover:bg-blue-200"
-                >
-                  Tue/Thu
-                </button>
-              </div>
-            </div>
+          {/* Repeat pattern (shown for repeating tasks) */}
+          {formData.recurrenceRule && (
+            <RecurrenceEditor
+              rule={formData.recurrenceRule}
+              lastCompletedAt={formData.lastCompletedAt ?? null}
+              onChange={(recurrenceRule) => setFormData({ ...formData, recurrenceRule })}
+            />
           )}
 
           {/* Task Type & Time Windows Section */}
@@ -735,6 +937,29 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
             />
           </div>
 
+          {/* Dependencies Section */}
+          <div className="border-t border-gray-200 pt-4 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-800">Dependencies</h3>
+            <DependencyPicker
+              label="Blocked by"
+              hint="This task won't be scheduled until these are done"
+              selectedIds={formData.blockedBy || []}
+              options={otherTasks.filter(isOpenPrerequisite)}
+              allTasks={allTasks}
+              onChange={(blockedBy) => setFormData({ ...formData, blockedBy })}
+            />
+            {formData.recurrence === 'Once' && (
+              <DependencyPicker
+                label="Blocks"
+                hint="These tasks won't be scheduled until this one is done"
+                selectedIds={blocks}
+                options={otherTasks.filter(other => other.status !== 'done')}
+                allTasks={allTasks}
+                onChange={setBlocks}
+              />
+            )}
+          </div>
+
           {/* Project Chunking Section */}
           <div className="border-t border-gray-200 pt-4">
             <div className="flex items-center gap-2 mb-4">
@@ -862,3 +1087,57 @@ const TaskModal = ({ task, onClose, onSave }: TaskModalProps) => {
     </div>
   );
 };
+
+// Dependency Picker Component
+interface DependencyPickerProps {
+  label: string;
+  hint: string;
+  selectedIds: string[];
+  options: Task[]; // Tasks that may be added
+  allTasks: Task[];
+  onChange: (ids: string[]) => void;
+}
+
+const DependencyPicker = ({ label, hint, selectedIds, options, allTasks, onChange }: DependencyPickerProps) => {
+  const available = options.filter(option => !selectedIds.includes(option.id!));
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {selectedIds.map(id => {
+            const linked = allTasks.find(other => other.id === id);
+            return (
+              <span key={id} className="flex items-center gap-1 px-2 py-1 bg-gray-100 text-gray-700 rounded text-sm">
+                {linked ? sanitizeText(linked.title) : 'Deleted task'}
+                {linked?.status === 'done' && <span className="text-xs text-green-600">(done)</span>}
+                <button
+                  type="button"
+                  onClick={() => onChange(selectedIds.filter(selected => selected !== id))}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X size={14} />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange([...selectedIds, e.target.value])}
+        disabled={available.length === 0}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-gray-800 focus:border-transparent disabled:opacity-50"
+      >
+        <option value="">{available.length === 0 ? 'No tasks to add' : 'Add a task...'}</option>
+        {available.map(option => (
+          <option key={option.id} value={option.id}>
+            {option.title}
+          </option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500 mt-1">{hint}</p>
+    </div>
+  );
+};
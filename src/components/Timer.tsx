@@ -4,6 +4,11 @@ import { Play, Pause, SkipForward, X, Minimize2, ChevronUp, Plus, Square, Bell,
 import { Task, Session, Energy, db } from '../db/database';
 import { getDomainColor } from '../utils/domainColors';
 import { playSound, unlockAudio } from '../utils/soundPlayer';
+import { checkTimerStartAllowed } from '../utils/weeklyCaps';
+import { generateNextOccurrence } from '../utils/recurringTaskGenerator';
+import { getUnblockedDependents } from '../utils/taskDependencies';
+import { updateScheduleNow } from '../utils/wakeDayScheduler';
+import { getLogicalDateString } from '../utils/wakeSchedule';
 
 interface TimerSegment {
   type: 'focus' | 'break';
@@ -192,6 +197,16 @@ export const Timer = ({ task, blockDuration, onComplete, onSkip, onClose, curren
     if (!isRunning && !isStarting) {
       setIsStarting(true);
       try {
+        // Enforce weekly caps per permission rules
+        const capCheck = await checkTimerStartAllowed(task);
+        if (!capCheck.allowed) {
+          alert(capCheck.warning);
+          return;
+        }
+        if (capCheck.warning && !confirm(`${capCheck.warning} Start anyway?`)) {
+          return;
+        }
+
         // Unlock audio on user gesture
         if (bellEnabled && !audioUnlockedRef.current) {
         const unlocked = await unlockAudio();
@@ -257,6 +272,26 @@ export const Timer = ({ task, blockDuration, onComplete, onSkip, onClose, curren
     setIsPaused(false);
   };
 
+  // Finishing a prerequisite frees up the tasks waiting on it - reflow today's plan (if there is one) to fit them in
+  const reflowIfUnblocked = async () => {
+    try {
+      const unblocked = await getUnblockedDependents(task.id!);
+      if (unblocked.length === 0) return;
+      const prefs = await db.userPrefs.get(1);
+      if (!prefs) return;
+      const plannedBlocks = await db.dailyPlanTasks
+        .where('planDate')
+        .equals(getLogicalDateString(prefs))
+        .and(block => !block.isDraft)
+        .count();
+      if (plannedBlocks > 0) {
+        await updateScheduleNow();
+      }
+    } catch (error) {
+      console.error('Error reflowing after unblocking tasks:', error);
+    }
+  };
+
   const handleComplete = async () => {
     setIsRunning(false);
 
@@ -297,6 +332,9 @@ export const Timer = ({ task, blockDuration, onComplete, onSkip, onClose, curren
       }
 
       await db.tasks.update(task.id!, updates);
+      if (newRemaining <= 0) {
+        await reflowIfUnblocked();
+      }
     } else {
       // Regular tasks: handle based on recurrence type
       if (task.recurrence === 'Once') {
@@ -306,10 +344,11 @@ export const Timer = ({ task, blockDuration, onComplete, onSkip, onClose, curren
           lastCompletedAt: now,
           assignedDate: null
         });
+        await reflowIfUnblocked();
       } else {
-        // Recurring tasks: record completion but keep as todo, clear assignedDate
+        // Recurring tasks: record completion in the ledger but keep as todo, clear assignedDate
+        await generateNextOccurrence(task);
         await db.tasks.update(task.id!, {
-          lastCompletedAt: now,
           assignedDate: null
         });
       }
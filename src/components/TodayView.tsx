@@ -1,9 +1,22 @@
 import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
-import { Clock, Play, Check, X, Calendar, Sun, RefreshCw, AlertCircle, List, LayoutGrid } from 'lucide-react';
-import { Task, DailyPlanTask, db, Domain, FreeTimeType } from '../db/database';
-import { startMyDay, updateScheduleNow, logInterruption, generateWakeDaySchedule } from '../utils/wakeDayScheduler';
+import { Clock, Play, Check, X, Calendar, CalendarRange, Sun, RefreshCw, AlertCircle, List, LayoutGrid, HelpCircle, Lock, Unlock, Undo2, GitCompare, GripVertical } from 'lucide-react';
+import { Task, DailyPlanTask, db, Domain, FreeTimeType, PlanSnapshot, ReflowReason, deleteTaskCascade } from '../db/database';
+import {
+  startMyDay,
+  updateScheduleNow,
+  logInterruption,
+  generateWakeDaySchedule,
+  generateMultiDaySchedule,
+  getLastScheduleTrace,
+  ScheduleDecision,
+  ScheduleDecisionReason
+} from '../utils/wakeDayScheduler';
+import { getWakeSleepTimes, getLogicalDate, getLogicalDateString, ResolvedWakeTimes } from '../utils/wakeSchedule';
+import { toLocalDateString, fromLocalDateString, toDateKey } from '../utils/localDate';
 import { getDomainColor } from '../utils/domainColors';
+import { getLatestSnapshot, undoLastReflow, diffPlans, PlanChange } from '../utils/planHistory';
+import { planTimelineEdit, applyTimelineEdit, TimelineEditMode } from '../utils/timelineEdit';
 
 interface TodayViewProps {
   onStartTask: (task: Task, blockDuration: number) => void;
@@ -14,16 +27,88 @@ interface PlannedTaskWithDetails {
   task: Task | null; // null for Free/Rest blocks
 }
 
+interface DraftDay {
+  planDate: string;
+  items: PlannedTaskWithDetails[];
+}
+
 type SortMode = 'time' | 'domain';
 
+interface TimelineDrag {
+  blockId: string;
+  kind: 'move' | 'resize';
+  originY: number;
+  start: Date;
+  end: Date;
+  deltaMinutes: number;
+}
+
+const DRAG_PIXELS_PER_MINUTE = 1; // Dragging 60px moves a block by an hour
+const DRAG_SNAP_MINUTES = 5;
+const MIN_BLOCK_MINUTES = 5;
+
+/**
+ * Where a dragged block would land: moving shifts both ends, resizing only the end
+ */
+const getDragTimes = (drag: TimelineDrag): { start: Date; end: Date } => {
+  const delta = drag.deltaMinutes * 60 * 1000;
+  if (drag.kind === 'move') {
+    return { start: new Date(drag.start.getTime() + delta), end: new Date(drag.end.getTime() + delta) };
+  }
+  const minEnd = drag.start.getTime() + MIN_BLOCK_MINUTES * 60 * 1000;
+  return { start: drag.start, end: new Date(Math.max(minEnd, drag.end.getTime() + delta)) };
+};
+
+const PLAN_HORIZON_DAYS = 7;
+
+const DECISION_LABELS: Record<ScheduleDecisionReason, string> = {
+  placed: 'Scheduled',
+  domainCap: 'Domain cap reached',
+  noSlot: 'No slot in its window',
+  fixedOtherDay: 'Fixed on another day',
+  timeConflict: 'Fixed time conflict',
+  outsideWakeDay: 'Outside wake day',
+  protectedTime: 'Protected time',
+  missingFixedTime: 'Missing fixed time',
+  blocked: 'Waiting on another task'
+};
+
+const REFLOW_LABELS: Record<ReflowReason, string> = {
+  startMyDay: 'Start My Day',
+  updateScheduleNow: 'Update Schedule Now',
+  interruption: 'Log Interruption',
+  regenerate: 'Plan My Day',
+  manualEdit: 'Timeline edit'
+};
+
+const CHANGE_STYLES: Record<PlanChange, { label: string; className: string }> = {
+  moved: { label: 'Moved', className: 'bg-amber-100 text-amber-800' },
+  dropped: { label: 'Dropped', className: 'bg-red-100 text-red-700' },
+  added: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  unchanged: { label: 'Same', className: 'bg-gray-100 text-gray-500' }
+};
+
 export const TodayView = ({ onStartTask }: TodayViewProps) => {
   const [plannedTasks, setPlannedTasks] = useState<PlannedTaskWithDetails[]>([]);
   const [tomorrowTasks, setTomorrowTasks] = useState<PlannedTaskWithDetails[]>([]);
+  const [tomorrowHours, setTomorrowHours] = useState<ResolvedWakeTimes | null>(null);
+  const [logicalToday, setLogicalToday] = useState<Date>(new Date());
+  const [weekDrafts, setWeekDrafts] = useState<DraftDay[]>([]);
+  const [horizonMessage, setHorizonMessage] = useState<string | null>(null);
+  const [showWhyPanel, setShowWhyPanel] = useState(false);
+  const [traceDecisions, setTraceDecisions] = useState<ScheduleDecision[]>([]);
+  const [traceGeneratedAt, setTraceGeneratedAt] = useState<string | null>(null);
+  const [ineligibleTasks, setIneligibleTasks] = useState<Task[]>([]);
+  const [lastSnapshot, setLastSnapshot] = useState<PlanSnapshot | null>(null);
+  const [showPlanDiff, setShowPlanDiff] = useState(false);
+  const [diffTasks, setDiffTasks] = useState<Record<string, Task>>({});
   const [loading, setLoading] = useState(true);
   const [dayStarted, setDayStarted] = useState(false);
   const [showInterruptionModal, setShowInterruptionModal] = useState(false);
   const [sortMode, setSortMode] = useState<SortMode>('time');
   const [tomorrowSortMode, setTomorrowSortMode] = useState<SortMode>('time');
+  const [editMode, setEditMode] = useState<TimelineEditMode>('cascade');
+  const [drag, setDrag] = useState<TimelineDrag | null>(null);
   const [interruptionData, setInterruptionData] = useState({
     duration: 30,
     domain: 'Unplanned' as Domain,
@@ -33,14 +118,45 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
   useEffect(() => {
     loadTodaysPlan();
     checkIfDayStarted();
+
+    // Reload in place when another device's changes arrive
+    const handleSyncApplied = () => loadTodaysPlan();
+    window.addEventListener('sync-applied', handleSyncApplied);
+    return () => window.removeEventListener('sync-applied', handleSyncApplied);
   }, []);
 
+  // Dragging a block: vertical distance maps to minutes on a 5-minute grid
+  useEffect(() => {
+    if (!drag) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const deltaMinutes = Math.round((e.clientY - drag.originY) / DRAG_PIXELS_PER_MINUTE / DRAG_SNAP_MINUTES) * DRAG_SNAP_MINUTES;
+      if (deltaMinutes !== drag.deltaMinutes) {
+        setDrag({ ...drag, deltaMinutes });
+      }
+    };
+
+    const handlePointerUp = () => {
+      setDrag(null);
+      if (drag.deltaMinutes !== 0) {
+        const { start, end } = getDragTimes(drag);
+        handleTimelineEdit(drag.blockId, start, end);
+      }
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+    };
+  }, [drag]);
+
   const checkIfDayStarted = async () => {
     const prefs = await db.userPrefs.get(1);
     if (prefs && prefs.actualWakeTimeToday) {
       const wakeTime = new Date(prefs.actualWakeTimeToday);
-      const today = new Date();
-      const isSameDay = wakeTime.toDateString() === today.toDateString();
+      const isSameDay = getLogicalDateString(prefs, wakeTime) === getLogicalDateString(prefs);
       setDayStarted(isSameDay);
     }
   };
@@ -48,9 +164,11 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
   const loadTodaysPlan = async () => {
     setLoading(true);
 
-    // Load today's plan
-    const today = new Date();
-    const todayString = today.toISOString().split('T')[0];
+    // Load today's plan (the logical day keeps after-midnight hours on the day they started)
+    const prefs = await db.userPrefs.get(1);
+    const today = prefs ? getLogicalDate(prefs) : new Date();
+    const todayString = toLocalDateString(today);
+    setLogicalToday(today);
 
     const todayPlanned = await db.dailyPlanTasks
       .where('planDate')
@@ -70,11 +188,14 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
     );
 
     setPlannedTasks(todayWithDetails.filter(item => item.task !== undefined) as PlannedTaskWithDetails[]);
+    setLastSnapshot(await getLatestSnapshot(todayString));
 
     // Load tomorrow's draft
     const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowString = tomorrow.toISOString().split('T')[0];
+    const tomorrowString = toLocalDateString(tomorrow);
+
+    setTomorrowHours(prefs ? getWakeSleepTimes(prefs, tomorrow) : null);
 
     const tomorrowPlanned = await db.dailyPlanTasks
       .where('planDate')
@@ -93,6 +214,32 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
     );
 
     setTomorrowTasks(tomorrowWithDetails.filter(item => item.task !== undefined) as PlannedTaskWithDetails[]);
+
+    // Load the rest of the planning horizon (drafts after tomorrow)
+    const horizonStart = new Date(today);
+    horizonStart.setDate(horizonStart.getDate() + 2);
+    const horizonEnd = new Date(today);
+    horizonEnd.setDate(horizonEnd.getDate() + PLAN_HORIZON_DAYS);
+
+    const horizonPlanned = await db.dailyPlanTasks
+      .where('planDate')
+      .between(toLocalDateString(horizonStart), toLocalDateString(horizonEnd), true, true)
+      .and(task => task.isDraft === true && task.blockType === 'task')
+      .sortBy('scheduledStartTime');
+
+    const draftDays: DraftDay[] = [];
+    for (const plannedTask of horizonPlanned) {
+      const task = plannedTask.taskId ? await db.tasks.get(plannedTask.taskId) : undefined;
+      if (!task) continue;
+      let day = draftDays.find(d => d.planDate === plannedTask.planDate);
+      if (!day) {
+        day = { planDate: plannedTask.planDate, items: [] };
+        draftDays.push(day);
+      }
+      day.items.push({ plannedTask, task });
+    }
+
+    setWeekDrafts(draftDays.sort((a, b) => a.planDate.localeCompare(b.planDate)));
     setLoading(false);
   };
 
@@ -141,11 +288,11 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
   const handleGenerateTomorrowPreview = async () => {
     setLoading(true);
     try {
-      const tomorrow = new Date();
+      const tomorrow = new Date(logicalToday);
       tomorrow.setDate(tomorrow.getDate() + 1);
 
       // Clear existing tomorrow draft
-      const tomorrowString = tomorrow.toISOString().split('T')[0];
+      const tomorrowString = toLocalDateString(tomorrow);
       await db.dailyPlanTasks.where('planDate').equals(tomorrowString).and(task => task.isDraft === true).delete();
 
       // Generate new draft
@@ -165,19 +312,88 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
     }
   };
 
+  const handleShowWhyPanel = async () => {
+    const trace = getLastScheduleTrace(toLocalDateString(logicalToday));
+    const decisions = trace ? trace.decisions : [];
+
+    // Tasks the scheduler never considered today (recurrence, start date or snooze)
+    const tracedIds = new Set(decisions.map(d => d.taskId));
+    const todoTasks = await db.tasks
+      .where('status')
+      .equals('todo')
+      .and(task => !task.archived && !tracedIds.has(task.id!))
+      .toArray();
+
+    setTraceDecisions(decisions);
+    setTraceGeneratedAt(trace ? trace.generatedAt : null);
+    setIneligibleTasks(todoTasks);
+    setShowWhyPanel(true);
+  };
+
+  const handleUndoReflow = async () => {
+    if (!lastSnapshot) return;
+    if (!confirm(`Undo the last reflow (${REFLOW_LABELS[lastSnapshot.reason]} at ${formatTime(lastSnapshot.createdAt)})?`)) return;
+
+    setLoading(true);
+    try {
+      await undoLastReflow(toLocalDateString(logicalToday));
+      setShowPlanDiff(false);
+      await loadTodaysPlan();
+    } catch (error) {
+      console.error('Error undoing reflow:', error);
+      alert('Failed to undo the last reflow. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShowPlanDiff = async () => {
+    if (!lastSnapshot) return;
+
+    // Dropped tasks are no longer on today's plan, so look every task up again
+    const taskIds = new Set(
+      [...lastSnapshot.blocks, ...plannedTasks.map(item => item.plannedTask)]
+        .filter(block => block.taskId)
+        .map(block => block.taskId!)
+    );
+    const tasks: Record<string, Task> = {};
+    for (const taskId of taskIds) {
+      const task = await db.tasks.get(taskId);
+      if (task) tasks[taskId] = task;
+    }
+
+    setDiffTasks(tasks);
+    setShowPlanDiff(true);
+  };
+
+  const handlePlanWeek = async () => {
+    setLoading(true);
+    try {
+      const result = await generateMultiDaySchedule(PLAN_HORIZON_DAYS);
+      setHorizonMessage(result.message);
+      await loadTodaysPlan();
+    } catch (error) {
+      console.error('Error planning week:', error);
+      alert('Failed to plan the week. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleComplete = async (plannedTaskId: string) => {
     // Mark the block as completed
     await db.dailyPlanTasks.update(plannedTaskId, { completed: true });
 
     // Get the task to update its status and clear assignment
     const plannedTask = await db.dailyPlanTasks.get(plannedTaskId);
-    if (plannedTask && plannedTask.taskId) {
-      const task = await db.tasks.get(plannedTask.taskId);
+    const taskId = plannedTask?.taskId;
+    if (taskId) {
+      const task = await db.tasks.get(taskId);
       if (task) {
         if (task.recurrence === 'Once') {
           // Non-recurring task: archive it (or delete if retention=0)
           const now = new Date().toISOString();
-          await db.tasks.update(plannedTask.taskId, {
+          await db.tasks.update(taskId, {
             archived: true,
             completedAt: now,
             assignedDate: null,
@@ -187,29 +403,63 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
           // Run cleanup immediately to delete if retention is 0
           const prefs = await db.userPrefs.get(1);
           if (prefs && prefs.archiveRetentionDays === 0) {
-            // Cascade delete with sessions and daily plans
-            await db.transaction('rw', [db.tasks, db.sessions, db.dailyPlanTasks], async () => {
-              await db.sessions.where('taskId').equals(plannedTask.taskId).delete();
-              await db.dailyPlanTasks.where('taskId').equals(plannedTask.taskId).delete();
-              await db.tasks.delete(plannedTask.taskId);
-            });
+            await deleteTaskCascade(taskId);
           }
         } else {
           // Recurring task: update lastCompletedAt, clear assignment, stays in todo
           const { generateNextOccurrence } = await import('../utils/recurringTaskGenerator');
           await generateNextOccurrence(task);
-          await db.tasks.update(plannedTask.taskId, {
+          await db.tasks.update(taskId, {
             assignedDate: null
           });
         }
       }
     }
 
-    // Trigger Update Schedule to reflow and reclaim the time slot
+    // Trigger Update Schedule to reflow and reclaim the time slot (and fit in unblocked tasks)
     await updateScheduleNow();
     await loadTodaysPlan();
   };
 
+  const handleTogglePin = async (plannedTask: DailyPlanTask) => {
+    // Pinned blocks keep their time through Update Schedule Now and interruptions
+    await db.dailyPlanTasks.update(plannedTask.id!, { pinned: !plannedTask.pinned });
+    loadTodaysPlan();
+  };
+
+  const handleStartDrag = (e: React.PointerEvent, plannedTask: DailyPlanTask, kind: TimelineDrag['kind']) => {
+    e.preventDefault();
+    setDrag({
+      blockId: plannedTask.id!,
+      kind,
+      originY: e.clientY,
+      start: new Date(plannedTask.scheduledStartTime),
+      end: new Date(plannedTask.scheduledEndTime),
+      deltaMinutes: 0
+    });
+  };
+
+  const handleTimelineEdit = async (blockId: string, start: Date, end: Date) => {
+    try {
+      const todayString = toLocalDateString(logicalToday);
+      const result = await planTimelineEdit(todayString, blockId, start, end, editMode);
+
+      if (result.refusal) {
+        alert(result.refusal);
+        return;
+      }
+      if (result.warnings.length > 0 && !confirm(`${result.warnings.join('\n')}\n\nApply this change anyway?`)) {
+        return;
+      }
+
+      await applyTimelineEdit(todayString, result);
+      await loadTodaysPlan();
+    } catch (error) {
+      console.error('Error editing timeline:', error);
+      alert('Failed to update the timeline. Please try again.');
+    }
+  };
+
   const handleRemove = async (plannedTaskId: string) => {
     if (confirm('Remove this task from today\'s plan?')) {
       const plannedTask = await db.dailyPlanTasks.get(plannedTaskId);
@@ -232,13 +482,27 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
     return Math.round((endTime - startTime) / (1000 * 60));
   };
 
-  // Group tasks by domain (including Free/Rest/Interruption as pseudo-domains)
+  const getTransitionTitle = (plannedTask: DailyPlanTask): string => {
+    return plannedTask.transitionKind === 'travel' ? '🚗 Travel' : '🔀 Transition';
+  };
+
+  const getTransitionDescription = (plannedTask: DailyPlanTask): string => {
+    const { transitionFrom, transitionTo } = plannedTask;
+    if (plannedTask.transitionKind === 'travel') {
+      return transitionTo === 'Errand' ? 'Travel to Errand' : `Travel back${transitionTo ? ` for ${transitionTo}` : ' home'}`;
+    }
+    return `Switching from ${transitionFrom} to ${transitionTo}`;
+  };
+
+  // Group tasks by domain (including Free/Rest/Interruption/Transition as pseudo-domains)
   const tasksByDomain = plannedTasks.reduce((acc, item) => {
     let domain: string;
     if (item.plannedTask.blockType === 'free') {
       domain = 'Available Time';
     } else if (item.plannedTask.blockType === 'rest') {
       domain = 'Rest';
+    } else if (item.plannedTask.blockType === 'transition') {
+      domain = 'Transitions';
     } else if (item.plannedTask.blockType === 'interruption') {
       domain = item.plannedTask.interruptionDomain || 'Unplanned';
     } else if (item.task) {
@@ -336,7 +600,7 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
           <div className="flex items-center gap-2 px-4 py-2 bg-white rounded-lg shadow">
             <Calendar size={20} className="text-gray-600" />
             <span className="font-medium text-gray-800">
-              {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              {logicalToday.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
             </span>
           </div>
         </div>
@@ -378,8 +642,54 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
           <Calendar size={20} />
           Preview Tomorrow
         </button>
+        <button
+          onClick={handlePlanWeek}
+          disabled={loading}
+          className="flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          <CalendarRange size={20} />
+          Plan Week
+        </button>
+        <button
+          onClick={handleShowWhyPanel}
+          disabled={loading}
+          className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 rounded-lg font-semibold hover:bg-gray-50 shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          <HelpCircle size={20} />
+          Why isn't this scheduled?
+        </button>
+        {lastSnapshot && (
+          <>
+            <button
+              onClick={handleUndoReflow}
+              disabled={loading}
+              className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 rounded-lg font-semibold hover:bg-gray-50 shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+              title={`Restore the plan from before ${REFLOW_LABELS[lastSnapshot.reason]} at ${formatTime(lastSnapshot.createdAt)}`}
+            >
+              <Undo2 size={20} />
+              Undo last reflow
+            </button>
+            <button
+              onClick={handleShowPlanDiff}
+              disabled={loading}
+              className="flex items-center gap-2 px-6 py-3 bg-white text-gray-700 rounded-lg font-semibold hover:bg-gray-50 shadow-md hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              <GitCompare size={20} />
+              What changed?
+            </button>
+          </>
+        )}
       </div>
 
+      {horizonMessage && (
+        <div className="flex items-start justify-between gap-3 px-4 py-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-900">
+          <span>{horizonMessage}</span>
+          <button onClick={() => setHorizonMessage(null)} className="text-indigo-500 hover:text-indigo-700">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Progress bar */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between mb-2">
@@ -402,19 +712,36 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
       {sortMode === 'time' ? (
         // Time mode: Single chronological list
         <div className="bg-white rounded-lg shadow overflow-hidden">
-          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200">
+          <div className="px-6 py-4 bg-gray-50 border-b border-gray-200 flex items-center justify-between gap-4 flex-wrap">
             <h3 className="text-xl font-semibold text-gray-800">Chronological Timeline</h3>
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-600">Drag or resize, then following blocks:</span>
+              <div className="flex bg-white rounded-lg border border-gray-200 overflow-hidden">
+                {([['cascade', 'Push later'], ['compress', 'Compress']] as [TimelineEditMode, string][]).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setEditMode(mode)}
+                    className={`px-3 py-1 font-medium transition-all ${
+                      editMode === mode ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-100'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
           <div className="divide-y divide-gray-100">
             {plannedTasks.map((item, index) => {
               const { plannedTask, task } = item;
               const duration = getDuration(plannedTask.scheduledStartTime, plannedTask.scheduledEndTime);
 
-              // Free/Rest/Interruption block rendering
-              if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'interruption') {
+              // Free/Rest/Interruption/Transition block rendering
+              if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'interruption' || plannedTask.blockType === 'transition') {
                 const isFree = plannedTask.blockType === 'free';
                 const isRest = plannedTask.blockType === 'rest';
                 const isInterruption = plannedTask.blockType === 'interruption';
+                const isTransition = plannedTask.blockType === 'transition';
 
                 return (
                   <motion.div
@@ -436,11 +763,13 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                           {isFree && '⏱️ Available Time'}
                           {isRest && '😴 Rest Time'}
                           {isInterruption && '⚠️ Interruption'}
+                          {isTransition && getTransitionTitle(plannedTask)}
                         </h4>
                         <p className="text-sm text-gray-500">
                           {isFree && 'Available time - use as needed'}
                           {isRest && 'Scheduled rest period'}
                           {isInterruption && `Time consumed by ${plannedTask.interruptionDomain || 'unplanned activity'}`}
+                          {isTransition && getTransitionDescription(plannedTask)}
                         </p>
                       </div>
                     </div>
@@ -452,6 +781,8 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
               if (!task) return null;
 
               const domainColor = getDomainColor(task.domain);
+              const isDragging = drag?.blockId === plannedTask.id;
+              const dragTimes = isDragging && drag ? getDragTimes(drag) : null;
 
               return (
                 <motion.div
@@ -459,18 +790,39 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   transition={{ delay: index * 0.05 }}
-                  className={`p-4 ${plannedTask.completed ? 'bg-gray-50 opacity-75' : ''}`}
+                  className={`relative p-4 ${plannedTask.completed ? 'bg-gray-50 opacity-75' : ''} ${isDragging ? 'bg-blue-50 ring-2 ring-blue-300' : ''}`}
                   style={{ borderLeft: `4px solid ${domainColor}` }}
                 >
+                  {!plannedTask.completed && (
+                    <div
+                      onPointerDown={(e) => handleStartDrag(e, plannedTask, 'resize')}
+                      className="absolute bottom-0 left-0 right-0 h-2 cursor-ns-resize touch-none hover:bg-blue-200"
+                      title="Drag to change the duration"
+                    />
+                  )}
                   <div className="flex items-start gap-4">
                     {/* Time */}
                     <div className="flex-shrink-0 text-right" style={{ width: '120px' }}>
-                      <div className="font-semibold text-gray-800">
-                        {formatTime(plannedTask.scheduledStartTime)}
+                      <div className="flex items-center justify-end gap-1 font-semibold text-gray-800">
+                        {!plannedTask.completed && (
+                          <span
+                            onPointerDown={(e) => handleStartDrag(e, plannedTask, 'move')}
+                            className="text-gray-400 hover:text-gray-700 cursor-grab touch-none"
+                            title="Drag to move"
+                          >
+                            <GripVertical size={14} />
+                          </span>
+                        )}
+                        {formatTime(dragTimes ? dragTimes.start.toISOString() : plannedTask.scheduledStartTime)}
                       </div>
                       <div className="text-xs text-gray-500">
-                        {duration} min
+                        {dragTimes ? getDuration(dragTimes.start.toISOString(), dragTimes.end.toISOString()) : duration} min
                       </div>
+                      {plannedTask.pinned && (
+                        <div className="text-xs text-amber-700 flex items-center justify-end gap-1">
+                          <Lock size={10} /> Locked
+                        </div>
+                      )}
                     </div>
 
                     {/* Task details */}
@@ -525,6 +877,13 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                     <div className="flex-shrink-0 flex items-center gap-2">
                       {!plannedTask.completed && (
                         <>
+                          <button
+                            onClick={() => handleTogglePin(plannedTask)}
+                            className={`p-2 rounded-lg transition-all ${plannedTask.pinned ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                            title={plannedTask.pinned ? 'Unlock - let reflow move this block' : 'Lock to this time'}
+                          >
+                            {plannedTask.pinned ? <Lock size={16} /> : <Unlock size={16} />}
+                          </button>
                           <button
                             onClick={() => onStartTask(task, duration)}
                             className="p-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-all"
@@ -582,11 +941,12 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                   const { plannedTask, task } = item;
                   const duration = getDuration(plannedTask.scheduledStartTime, plannedTask.scheduledEndTime);
 
-                  // Free/Rest/Interruption block rendering
-                  if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'interruption') {
+                  // Free/Rest/Interruption/Transition block rendering
+                  if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'interruption' || plannedTask.blockType === 'transition') {
                     const isFree = plannedTask.blockType === 'free';
                     const isRest = plannedTask.blockType === 'rest';
                     const isInterruption = plannedTask.blockType === 'interruption';
+                    const isTransition = plannedTask.blockType === 'transition';
 
                     return (
                       <motion.div
@@ -608,11 +968,13 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                               {isFree && '⏱️ Available Time'}
                               {isRest && '😴 Rest Time'}
                               {isInterruption && '⚠️ Interruption'}
+                              {isTransition && getTransitionTitle(plannedTask)}
                             </h4>
                             <p className="text-sm text-gray-500">
                               {isFree && 'Available time - use as needed'}
                               {isRest && 'Scheduled rest period'}
                               {isInterruption && `Time consumed by ${plannedTask.interruptionDomain || 'unplanned activity'}`}
+                              {isTransition && getTransitionDescription(plannedTask)}
                             </p>
                           </div>
                         </div>
@@ -640,6 +1002,11 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                           <div className="text-xs text-gray-500">
                             {duration} min
                           </div>
+                          {plannedTask.pinned && (
+                            <div className="text-xs text-amber-700 flex items-center justify-end gap-1">
+                              <Lock size={10} /> Locked
+                            </div>
+                          )}
                         </div>
 
                         {/* Task details */}
@@ -686,6 +1053,13 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                         <div className="flex-shrink-0 flex items-center gap-2">
                           {!plannedTask.completed && (
                             <>
+                              <button
+                                onClick={() => handleTogglePin(plannedTask)}
+                                className={`p-2 rounded-lg transition-all ${plannedTask.pinned ? 'bg-amber-100 text-amber-700 hover:bg-amber-200' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                                title={plannedTask.pinned ? 'Unlock - let reflow move this block' : 'Lock to this time'}
+                              >
+                                {plannedTask.pinned ? <Lock size={16} /> : <Unlock size={16} />}
+                              </button>
                               <button
                                 onClick={() => onStartTask(task, duration)}
                                 className="p-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 transition-all"
@@ -730,6 +1104,12 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
               <p className="text-sm text-gray-600 mt-1">
                 This is a preview of tomorrow's schedule. It will be finalized when you start tomorrow.
               </p>
+              {tomorrowHours && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Planned for {tomorrowHours.wakeTime}–{tomorrowHours.sleepTime}
+                  {tomorrowHours.source === 'override' ? ' (date override)' : ' (weekday hours)'}
+                </p>
+              )}
             </div>
             {/* Tomorrow Sort toggle */}
             <div className="flex bg-white rounded-lg shadow overflow-hidden">
@@ -765,12 +1145,12 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                 const { plannedTask, task } = item;
                 const duration = getDuration(plannedTask.scheduledStartTime, plannedTask.scheduledEndTime);
 
-                if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest') {
+                if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'transition') {
                   return (
                     <div key={index} className="flex items-center gap-3 py-2 px-4 bg-white/60 rounded">
                       <span className="text-sm text-gray-600 w-24">{formatTime(plannedTask.scheduledStartTime)}</span>
                       <span className="text-sm text-gray-700">
-                        {plannedTask.blockType === 'free' ? '⏱️ Available Time' : '😴 Rest Time'} ({duration}m)
+                        {plannedTask.blockType === 'free' ? '⏱️ Available Time' : plannedTask.blockType === 'rest' ? '😴 Rest Time' : getTransitionTitle(plannedTask)} ({duration}m)
                       </span>
                     </div>
                   );
@@ -803,6 +1183,8 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                   domain = 'Available Time';
                 } else if (item.plannedTask.blockType === 'rest') {
                   domain = 'Rest';
+                } else if (item.plannedTask.blockType === 'transition') {
+                  domain = 'Transitions';
                 } else if (item.task) {
                   domain = item.task.domain;
                 } else {
@@ -835,12 +1217,12 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
                             const { plannedTask, task } = item;
                             const duration = getDuration(plannedTask.scheduledStartTime, plannedTask.scheduledEndTime);
 
-                            if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest') {
+                            if (plannedTask.blockType === 'free' || plannedTask.blockType === 'rest' || plannedTask.blockType === 'transition') {
                               return (
                                 <div key={index} className="flex items-center gap-3 py-2 px-4">
                                   <span className="text-sm text-gray-600 w-24">{formatTime(plannedTask.scheduledStartTime)}</span>
                                   <span className="text-sm text-gray-700 flex-1">
-                                    {plannedTask.blockType === 'free' ? '⏱️ Available Time' : '😴 Rest'}
+                                    {plannedTask.blockType === 'free' ? '⏱️ Available Time' : plannedTask.blockType === 'rest' ? '😴 Rest' : getTransitionTitle(plannedTask)}
                                   </span>
                                   <span className="text-xs text-gray-500">{duration}m</span>
                                 </div>
@@ -868,6 +1250,256 @@ export const TodayView = ({ onStartTask }: TodayViewProps) => {
         </div>
       )}
 
+      {/* Week Draft (rest of the planning horizon) */}
+      {weekDrafts.length > 0 && (
+        <div className="bg-gradient-to-br from-indigo-50 to-purple-50 rounded-lg shadow p-6 border-2 border-indigo-200">
+          <h2 className="text-2xl font-semibold text-gray-800">This Week's Draft</h2>
+          <p className="text-sm text-gray-600 mt-1 mb-4">
+            Tasks spread across the coming days so deadlines are met early. Each day is finalized when you start it.
+          </p>
+          <div className="space-y-4">
+            {weekDrafts.map((day) => {
+              const dayMinutes = day.items.reduce((sum, item) => sum + (item.plannedTask.sliceDuration || 0), 0);
+
+              return (
+                <div key={day.planDate} className="bg-white/60 rounded-lg overflow-hidden">
+                  <div className="px-4 py-2 flex items-center justify-between bg-indigo-100/60">
+                    <h3 className="text-sm font-semibold text-gray-800">
+                      {fromLocalDateString(day.planDate).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                    </h3>
+                    <span className="text-xs text-gray-600">
+                      {day.items.length} tasks · {Math.round(dayMinutes / 60 * 10) / 10}h
+                    </span>
+                  </div>
+                  <div className="divide-y divide-gray-200">
+                    {day.items.map((item) => {
+                      const { plannedTask, task } = item;
+                      if (!task) return null;
+                      const domainColor = getDomainColor(task.domain);
+
+                      return (
+                        <div key={plannedTask.id} className="flex items-center gap-3 py-2 px-4 border-l-4" style={{ borderLeftColor: domainColor }}>
+                          <span className="text-sm text-gray-600 w-24">{formatTime(plannedTask.scheduledStartTime)}</span>
+                          <span className="text-sm text-gray-800 font-medium flex-1">{task.title}</span>
+                          {task.dueDate && (
+                            <span className="text-xs text-gray-500">
+                              due {fromLocalDateString(toDateKey(task.dueDate)).toLocaleDateString('en-US', { weekday: 'short' })}
+                            </span>
+                          )}
+                          <span className="text-xs text-gray-500">
+                            {getDuration(plannedTask.scheduledStartTime, plannedTask.scheduledEndTime)}m
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Scheduler decision trace */}
+      {showWhyPanel && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowWhyPanel(false)}>
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white rounded-lg shadow-2xl p-8 max-w-2xl w-full mx-4 max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold text-gray-800">Why isn't this scheduled?</h2>
+              <button onClick={() => setShowWhyPanel(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-6">
+              {traceGeneratedAt
+                ? `Decisions from the schedule built at ${formatTime(traceGeneratedAt)}.`
+                : "No schedule has been built today yet. Start your day or update the schedule to see the scheduler's decisions."}
+            </p>
+
+            {(() => {
+              const skipped = traceDecisions.filter(d => d.outcome === 'skipped');
+              const placed = traceDecisions
+                .filter(d => d.outcome === 'placed')
+                .sort((a, b) => (a.slotStart || '').localeCompare(b.slotStart || ''));
+
+              return (
+                <div className="space-y-6">
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">Skipped ({skipped.length})</h3>
+                    {skipped.length === 0 && <p className="text-sm text-gray-500">Nothing was skipped.</p>}
+                    <div className="space-y-2">
+                      {skipped.map((decision) => (
+                        <div
+                          key={decision.taskId}
+                          className="p-3 rounded-lg bg-red-50 border-l-4"
+                          style={{ borderLeftColor: getDomainColor(decision.domain) }}
+                        >
+                          <div className="flex items-center justify-between gap-3">
+                            <span className="font-medium text-gray-800">{decision.title}</span>
+                            <span className="text-xs font-semibold text-red-700">{DECISION_LABELS[decision.reason]}</span>
+                          </div>
+                          <p className="text-xs text-gray-600 mt-1">{decision.detail}</p>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {ineligibleTasks.length > 0 && (
+                    <div>
+                      <h3 className="text-sm font-semibold text-gray-700 mb-2">Not eligible today ({ineligibleTasks.length})</h3>
+                      <p className="text-xs text-gray-500 mb-2">Recurrence, start date, due date or snooze keeps these off today's plan.</p>
+                      <div className="flex flex-wrap gap-2">
+                        {ineligibleTasks.map((task) => (
+                          <span key={task.id} className="px-2 py-1 rounded bg-gray-100 text-xs text-gray-700">
+                            {task.title}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-2">Scheduled ({placed.length})</h3>
+                    <div className="space-y-2">
+                      {placed.map((decision) => (
+                        <div
+                          key={decision.taskId}
+                          className="p-3 rounded-lg bg-green-50 border-l-4"
+                          style={{ borderLeftColor: getDomainColor(decision.domain) }}
+                        >
+                          <span className="font-medium text-gray-800">{decision.title}</span>
+                          <p className="text-xs text-gray-600 mt-1">{decision.detail}</p>
+                          {decision.warning && (
+                            <p className="text-xs text-amber-700 mt-1 flex items-center gap-1">
+                              <AlertCircle size={12} />
+                              {decision.warning}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              );
+            })()}
+          </motion.div>
+        </div>
+      )}
+
+      {/* Reflow diff: previous plan vs current plan */}
+      {showPlanDiff && lastSnapshot && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowPlanDiff(false)}>
+          <motion.div
+            initial={{ scale: 0.95, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            className="bg-white rounded-lg shadow-2xl p-8 max-w-4xl w-full mx-4 max-h-[85vh] overflow-y-auto"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-2xl font-semibold text-gray-800">What changed?</h2>
+              <button onClick={() => setShowPlanDiff(false)} className="text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-6">
+              Your plan before {REFLOW_LABELS[lastSnapshot.reason]} at {formatTime(lastSnapshot.createdAt)}, next to the plan now.
+            </p>
+
+            {(() => {
+              const entries = diffPlans(lastSnapshot.blocks, plannedTasks.map(item => item.plannedTask));
+              const changeOf = (block: DailyPlanTask, side: 'before' | 'after'): PlanChange =>
+                entries.find(entry => entry[side]?.id === block.id)?.change || 'unchanged';
+              const getBlockLabel = (block: DailyPlanTask): string => {
+                if (block.blockType === 'interruption') return `⚠️ Interruption (${block.interruptionDomain || 'Unplanned'})`;
+                return diffTasks[block.taskId!]?.title || 'Deleted task';
+              };
+              const byStart = (a: DailyPlanTask, b: DailyPlanTask) => a.scheduledStartTime.localeCompare(b.scheduledStartTime);
+              const beforeBlocks = entries.filter(entry => entry.before).map(entry => entry.before!).sort(byStart);
+              const afterBlocks = entries.filter(entry => entry.after).map(entry => entry.after!).sort(byStart);
+              const counts = (['moved', 'dropped', 'added'] as PlanChange[]).map(change => ({
+                change,
+                count: entries.filter(entry => entry.change === change).length
+              }));
+
+              const renderColumn = (title: string, blocks: DailyPlanTask[], side: 'before' | 'after') => (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">{title}</h3>
+                  {blocks.length === 0 && <p className="text-sm text-gray-500">No tasks.</p>}
+                  <div className="space-y-2">
+                    {blocks.map((block) => {
+                      const change = changeOf(block, side);
+                      const domain = block.taskId ? diffTasks[block.taskId]?.domain : block.interruptionDomain;
+                      return (
+                        <div
+                          key={block.id}
+                          className={`p-2 rounded border-l-4 ${change === 'unchanged' ? 'bg-gray-50' : 'bg-white shadow-sm'}`}
+                          style={{ borderLeftColor: domain ? getDomainColor(domain) : '#9ca3af' }}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="text-xs text-gray-600">
+                              {formatTime(block.scheduledStartTime)}–{formatTime(block.scheduledEndTime)}
+                            </span>
+                            <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${CHANGE_STYLES[change].className}`}>
+                              {CHANGE_STYLES[change].label}
+                            </span>
+                          </div>
+                          <div className={`text-sm text-gray-800 ${change === 'dropped' ? 'line-through' : ''}`}>
+                            {getBlockLabel(block)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+
+              return (
+                <div className="space-y-6">
+                  <div className="flex flex-wrap gap-2">
+                    {counts.map(({ change, count }) => (
+                      <span key={change} className={`px-2 py-1 rounded text-xs font-medium ${CHANGE_STYLES[change].className}`}>
+                        {count} {CHANGE_STYLES[change].label.toLowerCase()}
+                      </span>
+                    ))}
+                  </div>
+
+                  {entries.some(entry => entry.change === 'moved') && (
+                    <div className="space-y-1">
+                      {entries.filter(entry => entry.change === 'moved').map(entry => (
+                        <p key={entry.key} className="text-sm text-gray-700">
+                          <span className="font-medium">{getBlockLabel(entry.after!)}</span>:{' '}
+                          {formatTime(entry.before!.scheduledStartTime)} → {formatTime(entry.after!.scheduledStartTime)}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-2 gap-6">
+                    {renderColumn('Before', beforeBlocks, 'before')}
+                    {renderColumn('Now', afterBlocks, 'after')}
+                  </div>
+
+                  <div className="flex justify-end">
+                    <button
+                      onClick={handleUndoReflow}
+                      className="flex items-center gap-2 px-4 py-2 bg-gray-800 text-white rounded-lg font-medium hover:bg-gray-900 transition-all"
+                    >
+                      <Undo2 size={16} />
+                      Undo this reflow
+                    </button>
+                  </div>
+                </div>
+              );
+            })()}
+          </motion.div>
+        </div>
+      )}
+
       {/* Interruption Modal */}
       {showInterruptionModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={() => setShowInterruptionModal(false)}>
@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Sun, Moon, Calendar, Zap, CheckCircle, ArrowRight, Smartphone, Monitor, Share2 } from 'lucide-react';
-import { db } from '../db/database';
+import { db, buildWeeklyWakeSchedule } from '../db/database';
+import { getLogicalDateString } from '../utils/wakeSchedule';
+import { toLocalDateString } from '../utils/localDate';
 
 interface WelcomeScreenProps {
   onComplete: () => void;
@@ -11,6 +13,9 @@ export const WelcomeScreen = ({ onComplete }: WelcomeScreenProps) => {
   const [step, setStep] = useState(1);
   const [wakeTime, setWakeTime] = useState('07:00');
   const [sleepTime, setSleepTime] = useState('22:00');
+  const [differentWeekends, setDifferentWeekends] = useState(false);
+  const [weekendWakeTime, setWeekendWakeTime] = useState('08:00');
+  const [weekendSleepTime, setWeekendSleepTime] = useState('23:00');
   const [bioRhythm, setBioRhythm] = useState<'Morning Peak' | 'Afternoon Peak' | 'Evening Peak'>('Morning Peak');
   const [deviceType, setDeviceType] = useState<'ios' | 'android' | 'desktop'>('desktop');
   const [isStandalone, setIsStandalone] = useState(false);
@@ -35,16 +40,24 @@ export const WelcomeScreen = ({ onComplete }: WelcomeScreenProps) => {
   }, []);
 
   const handleComplete = async () => {
-    // Save preferences
+    // Save preferences (weekday template, with Sat/Sun replaced when weekends differ)
+    const weeklyWakeSchedule = buildWeeklyWakeSchedule(wakeTime, sleepTime);
+    if (differentWeekends) {
+      weeklyWakeSchedule[6] = { wakeTime: weekendWakeTime, sleepTime: weekendSleepTime };
+      weeklyWakeSchedule[7] = { wakeTime: weekendWakeTime, sleepTime: weekendSleepTime };
+    }
+
     await db.userPrefs.update(1, {
       defaultWakeTime: wakeTime,
       defaultSleepTime: sleepTime,
+      weeklyWakeSchedule,
       bioRhythmProfile: bioRhythm,
     });
 
     // Set onboarding complete flag
     localStorage.setItem('rhythmPlanner_onboarded', 'true');
-    localStorage.setItem('rhythmPlanner_lastDayStart', new Date().toISOString().split('T')[0]);
+    const prefs = await db.userPrefs.get(1);
+    localStorage.setItem('rhythmPlanner_lastDayStart', prefs ? getLogicalDateString(prefs) : toLocalDateString(new Date()));
 
     onComplete();
   };
@@ -134,7 +147,7 @@ export const WelcomeScreen = ({ onComplete }: WelcomeScreenProps) => {
                 <p className="text-gray-600">Tell us your typical schedule so we can plan around your life</p>
               </div>
 
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
                 <div className="p-6 rounded-xl" style={{ background: 'linear-gradient(135deg, #fef3c7 0%, #fde68a 100%)', border: '2px solid #fbbf24' }}>
                   <label className="block text-sm font-semibold mb-3" style={{ color: '#78350f' }}>
                     <Sun className="inline mr-2" size={16} color="#f59e0b" />
@@ -164,6 +177,43 @@ export const WelcomeScreen = ({ onComplete }: WelcomeScreenProps) => {
                 </div>
               </div>
 
+              <div className="mb-8">
+                <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={differentWeekends}
+                    onChange={(e) => setDifferentWeekends(e.target.checked)}
+                    className="w-4 h-4 rounded"
+                  />
+                  My weekends run on different hours
+                </label>
+                {differentWeekends && (
+                  <div className="grid grid-cols-2 gap-4 mt-3">
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1">Weekend wake</label>
+                      <input
+                        type="time"
+                        value={weekendWakeTime}
+                        onChange={(e) => setWeekendWakeTime(e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg font-semibold"
+                        style={{ border: '2px solid #fbbf24', color: '#78350f', backgroundColor: '#ffffff' }}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-semibold text-gray-600 mb-1">Weekend bedtime</label>
+                      <input
+                        type="time"
+                        value={weekendSleepTime}
+                        onChange={(e) => setWeekendSleepTime(e.target.value)}
+                        className="w-full px-3 py-2 rounded-lg font-semibold"
+                        style={{ border: '2px solid #8b5cf6', color: '#4c1d95', backgroundColor: '#ffffff' }}
+                      />
+                    </div>
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-2">You can fine-tune each weekday later in Settings.</p>
+              </div>
+
               <div className="flex gap-3">
                 <motion.button
                   onClick={() => setStep(1)}
@@ -0,0 +1,126 @@
+import { DBCore, DBCoreMutateRequest, DBCoreMutateResponse, DBCoreTable, DBCoreTransaction, Middleware } from 'dexie';
+import type { ChangeLogEntry, SyncedTable } from './database';
+
+export const SYNCED_TABLES: SyncedTable[] = ['tasks', 'sessions', 'dailyPlanTasks', 'userPrefs', 'taskOccurrences'];
+export const CHANGE_LOG_TABLE = 'changeLog';
+
+// Kept outside the rhythmPlanner_ keys so backups never copy one device's id to another
+const DEVICE_ID_STORAGE_KEY = 'rhythmPlannerSync_deviceId';
+
+let deviceId: string | null = null;
+let changeListener: (() => void) | null = null;
+
+/**
+ * Stable id for this browser, used to break version ties between devices
+ */
+export const getDeviceId = (): string => {
+  if (!deviceId) {
+    deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+  }
+  return deviceId;
+};
+
+export const getChangeLogKey = (table: string, recordId: string | number) => `${table}:${recordId}`;
+
+/**
+ * Called after every local write to a synced table (the sync module uses it to schedule a push)
+ */
+export const setChangeListener = (listener: (() => void) | null): void => {
+  changeListener = listener;
+};
+
+type RecordKey = ChangeLogEntry['recordId'];
+
+const isSyncedTable = (name: string): name is SyncedTable => SYNCED_TABLES.includes(name as SyncedTable);
+
+/**
+ * Whether a write can be logged: not a schema upgrade, and the change log is in the transaction
+ * Dexie's IndexedDB core passes the native IDBTransaction down as the DBCore transaction.
+ */
+const canLogChanges = (trans: DBCoreTransaction): boolean => {
+  if (!(trans instanceof IDBTransaction)) return false;
+  return trans.mode !== 'versionchange' && trans.objectStoreNames.contains(CHANGE_LOG_TABLE);
+};
+
+/**
+ * Keys touched by a mutation, read before deleteRange runs (clear() and range deletes carry no keys)
+ */
+const getMutatedKeys = async (table: DBCoreTable, req: DBCoreMutateRequest): Promise<RecordKey[]> => {
+  switch (req.type) {
+    case 'delete':
+      return req.keys;
+    case 'deleteRange': {
+      const response = await table.query({ trans: req.trans, query: { index: table.schema.primaryKey, range: req.range }, values: false });
+      return response.result;
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * DBCore middleware that records every write to a synced table in the change log,
+ * in the same transaction as the write itself
+ *
+ * The log is compacted: one entry per record holding its latest version and whether
+ * it still has to be pushed. Schema upgrades are not logged - every device runs them.
+ */
+export const changeLogMiddleware: Middleware<DBCore> = {
+  stack: 'dbcore',
+  name: 'changeLog',
+  create: (down) => ({
+    ...down,
+    transaction: (stores, mode, options) => {
+      const needsLog = mode === 'readwrite' && stores.some(isSyncedTable) && !stores.includes(CHANGE_LOG_TABLE) &&
+        down.schema.tables.some(table => table.name === CHANGE_LOG_TABLE);
+      return down.transaction(needsLog ? [...stores, CHANGE_LOG_TABLE] : stores, mode, options);
+    },
+    table: (name) => {
+      const table = down.table(name);
+      if (!isSyncedTable(name)) return table;
+
+      return {
+        ...table,
+        mutate: async (req: DBCoreMutateRequest): Promise<DBCoreMutateResponse> => {
+          if (!canLogChanges(req.trans)) {
+            return table.mutate(req);
+          }
+
+          const deletedKeys = await getMutatedKeys(table, req);
+          const response = await table.mutate(req);
+
+          const keys: RecordKey[] = req.type === 'add' || req.type === 'put'
+            ? (response.results || []).filter((_, index) => !response.failures[index])
+            : deletedKeys;
+          if (keys.length === 0) return response;
+
+          const log = down.table(CHANGE_LOG_TABLE);
+          const logKeys = keys.map(key => getChangeLogKey(name, key));
+          const existing: (ChangeLogEntry | undefined)[] = await log.getMany({ trans: req.trans, keys: logKeys });
+          const updatedAt = new Date().toISOString();
+
+          // Spread the previous entry so the last synced copy (the merge base) survives local edits
+          const entries: ChangeLogEntry[] = keys.map((key, index) => ({
+            ...existing[index],
+            key: logKeys[index],
+            table: name,
+            recordId: key,
+            version: (existing[index]?.version || 0) + 1,
+            updatedAt,
+            deviceId: getDeviceId(),
+            deleted: req.type === 'delete' || req.type === 'deleteRange',
+            pending: 1
+          }));
+          await log.mutate({ type: 'put', trans: req.trans, values: entries });
+
+          changeListener?.();
+          return response;
+        }
+      };
+    }
+  })
+};
@@ -1,10 +1,14 @@
 import Dexie, { Table } from 'dexie';
+import { getLogicalDateString } from '../utils/wakeSchedule';
+import { toLocalDateString, toDateKey, detectTimeZoneChange } from '../utils/localDate';
+import { changeLogMiddleware } from './changeLog';
+import { migrateLegacyRecurrence } from '../utils/recurrence';
 
 // Types matching the spec
 export type Domain = 'Work' | 'SideHustle' | 'Chore' | 'Errand' | 'Personal' | 'Creative' | 'Unplanned';
 export type Priority = 'High' | 'Medium' | 'Low';
 export type Energy = 'Low' | 'Medium' | 'High';
-export type Recurrence = 'Once' | 'Daily' | 'Weekly' | 'Monthly' | 'CustomDays';
+export type Recurrence = 'Once' | 'Daily' | 'Weekly' | 'Monthly' | 'Yearly' | 'CustomDays'; // CustomDays is legacy (now Weekly with several days)
 export type TaskStatus = 'todo' | 'doing' | 'done';
 export type TaskType = 'Fixed' | 'Flexible' | 'Recurring';
 export type FreeTimeType = 'Recharge' | 'Buffer' | 'Leisure';
@@ -17,6 +21,21 @@ export interface BioRhythmSegment {
   energy: Energy;
 }
 
+export interface WakeSleepTimes {
+  wakeTime: string; // "HH:MM"
+  sleepTime: string; // "HH:MM"
+}
+
+export interface ProtectedTime {
+  id: string;
+  label: string; // e.g. "Evenings"
+  weekdays: number[]; // Days the window starts on (1=Mon, 7=Sun)
+  startTime: string; // "HH:MM"
+  endTime: string; // "HH:MM" - at or before startTime means the window runs past midnight
+  blockedDomains: Domain[]; // Domains the scheduler won't place inside the window
+  enabled?: boolean; // false = suggested (e.g. from the old evenings/weekends tags) and not enforced until turned on
+}
+
 export interface Task {
   id?: string;
   title: string;
@@ -28,8 +47,9 @@ export interface Task {
   dueDate: string | null; // ISO date string - when task must be done (for Once tasks)
   startDate: string | null; // ISO date string - earliest date task can be scheduled
   recurrence: Recurrence;
-  daysOfWeek: number[]; // For CustomDays: 1=Mon, 2=Tue, ..., 7=Sun
-  weeklyDay: number | null; // For Weekly: which day of week (1=Mon, ..., 7=Sun)
+  daysOfWeek: number[]; // Legacy field, use recurrenceRule instead
+  weeklyDay: number | null; // Legacy field, use recurrenceRule instead
+  recurrenceRule?: RecurrenceRule | null; // When a repeating task recurs (null for Once tasks)
   status: TaskStatus;
   dread: number;
   snoozedUntil: string | null;
@@ -52,6 +72,41 @@ export interface Task {
   mustFinishByTime: string | null; // Time of day (HH:MM) - latest this must end
   // Timer chunk preference (remembered per-task template)
   chunkPreference: { focusMinutes: number; breakMinutes: number; continuous: boolean } | null;
+  // Calendar import fields (set on tasks imported from .ics files)
+  icsUid?: string | null; // VEVENT UID
+  icsRecurrenceId?: string | null; // ISO start of the original occurrence for recurring events
+  icsSource?: string | null; // Calendar name (or file name) the event came from
+  // Dependencies
+  blockedBy?: string[]; // Ids of tasks that must be done before this one can start ("blocks" is the reverse lookup)
+}
+
+// Repeat pattern for a task, modelled on RFC 5545 RRULE
+export interface RecurrenceRule {
+  freq: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  interval: number; // Every N days/weeks/months/years
+  anchor: string; // YYYY-MM-DD - first occurrence, and where intervals are counted from (DTSTART)
+  byWeekday: number[]; // Weekly: days it falls on (1=Mon, ..., 7=Sun)
+  monthDay: 'date' | 'nthWeekday' | 'lastDay'; // Monthly/yearly: which day of the month
+  dayOfMonth: number; // 'date': 1-31, clamped to the month's last day
+  nthWeek: number; // 'nthWeekday': 1-4, or -1 for the last one
+  nthWeekday: number; // 'nthWeekday': 1=Mon, ..., 7=Sun
+  month: number; // Yearly: 1-12
+  count: number | null; // End after this many occurrences
+  until: string | null; // YYYY-MM-DD - end on this date (inclusive)
+  afterCompletion?: boolean; // Due interval units after lastCompletedAt instead of on calendar dates (no count)
+}
+
+export type OccurrenceStatus = 'done' | 'skipped' | 'missed' | 'rescheduled';
+
+// One due date of a recurring task and what became of it
+export interface TaskOccurrence {
+  id: string; // `${taskId}:${date}` - the same on every device, so sync and restores line up
+  taskId: string;
+  date: string; // YYYY-MM-DD - the date the recurrence rule put it on
+  status: OccurrenceStatus;
+  movedTo: string | null; // YYYY-MM-DD - set when the occurrence was moved to another day
+  completedAt: string | null; // ISO datetime when it was done
+  updatedAt: string;
 }
 
 export interface BlockType {
@@ -83,7 +138,12 @@ export interface UserPrefs {
   maxWorkHoursPerDay: number; // Daily cap for Work domain
   maxSideHustleHoursPerDay: number; // Daily cap for SideHustle domain
   maxSideHustleHoursPerWeek: number; // Weekly cap for SideHustle domain
-  protectedTimes: string[];
+  // Weekly caps for the other domains, set from Settings (unset or 0 = no cap)
+  maxChoreHoursPerWeek?: number;
+  maxErrandHoursPerWeek?: number;
+  maxPersonalHoursPerWeek?: number;
+  maxCreativeHoursPerWeek?: number;
+  protectedTimes: ProtectedTime[];
   domainColors: Record<Domain, string>;
   permissionRules: {
     softCap: boolean;
@@ -93,6 +153,8 @@ export interface UserPrefs {
   // Wake-day model fields
   defaultWakeTime: string; // e.g., "06:00" - typical wake time
   defaultSleepTime: string; // e.g., "22:00" - typical sleep time
+  weeklyWakeSchedule: Record<number, WakeSleepTimes>; // Wake/sleep per weekday (1=Mon, 7=Sun), falls back to defaults
+  wakeScheduleOverrides: Record<string, WakeSleepTimes>; // One-off wake/sleep for a date (YYYY-MM-DD)
   actualWakeTimeToday: string | null; // ISO datetime when user started day (null if not set)
   freeTimePreference: FreeTimeType; // Default type for free blocks
   inTownDays: number[]; // Days when user is in town for errands (1=Mon, 7=Sun)
@@ -101,6 +163,13 @@ export interface UserPrefs {
   // Bio-rhythm fields
   bioRhythmProfile: BioRhythmProfile; // Selected profile preset
   customBioRhythmSegments: BioRhythmSegment[]; // Used when profile is 'Custom'
+  energyMatchPenalty: number; // 0-10: how strongly placement avoids energy mismatches (0 = ignore bio-rhythm)
+  // Transition fields
+  defaultTransitionMinutes: number; // Setup time when switching domains (unless a pair overrides it)
+  transitionBuffers: Record<string, number>; // Minutes per "From>To" domain pair
+  errandTravelMinutes: number; // Travel time to and from Errand blocks
+  // Calendar export
+  calendarExport: CalendarExportOptions; // What the .ics export includes
   // Timer audio settings
   timerSoundsEnabled: boolean; // Whether timer sounds are enabled
   timerVolume: number; // Volume 0-100
@@ -112,6 +181,12 @@ export interface UserPrefs {
   breakDuration: number; // DEPRECATED - chunks chosen at timer start only
 }
 
+export interface CalendarExportOptions {
+  blockTypes: DailyPlanTask['blockType'][]; // Which plan blocks become calendar events
+  includeDrafts: boolean; // Future draft plans, marked tentative
+  includeDueDates: boolean; // All-day events on task due dates
+}
+
 export interface DailyPlanTask {
   id?: string;
   taskId: string | null; // null for Free/Rest/Interruption blocks
@@ -120,14 +195,115 @@ export interface DailyPlanTask {
   scheduledEndTime: string; // ISO datetime
   completed: boolean;
   order: number; // Order in the day's schedule
-  blockType: 'task' | 'free' | 'rest' | 'interruption'; // Type of block
+  blockType: 'task' | 'free' | 'rest' | 'interruption' | 'transition'; // Type of block
   freeType?: FreeTimeType; // For free blocks: Recharge, Buffer, or Leisure
   interruptionDomain?: Domain; // For interruption blocks: which domain consumed the time
+  transitionKind?: 'switch' | 'travel'; // For transition blocks: context switch or Errand travel
+  transitionFrom?: Domain | null; // For transition blocks: domain before (null = home / start of day)
+  transitionTo?: Domain | null; // For transition blocks: domain after (null = home / end of day)
   sliceNumber?: number; // For project slices: which slice this is (1, 2, 3, etc.)
   sliceDuration?: number; // For project slices: duration of this specific slice
   isDraft?: boolean; // True if this is a tomorrow preview (not committed)
+  pinned?: boolean; // Locked to its time: reflows keep it in place and plan around it
+}
+
+export type SyncedTable = 'tasks' | 'sessions' | 'dailyPlanTasks' | 'userPrefs' | 'taskOccurrences';
+
+// Latest change to one record of a synced table (the log is compacted per record)
+export interface ChangeLogEntry {
+  key: string; // "table:recordId"
+  table: SyncedTable;
+  recordId: string | number;
+  version: number; // Increases with every change on any device
+  updatedAt: string; // ISO datetime of the change
+  deviceId: string; // Device that made the change
+  deleted: boolean;
+  pending: 0 | 1; // 1 = not yet pushed to the sync server
+  base?: Task | null; // Tasks only: the copy last agreed with the server, the common ancestor for merges
+}
+
+export type ConflictSide = 'local' | 'remote';
+
+export interface TaskFieldConflict {
+  field: 'title' | 'notes' | 'dread';
+  local: unknown; // This device's value
+  remote: unknown; // The other device's (or the backup's) value
+  chosen: ConflictSide; // Side the merge kept until the user reviews it
+}
+
+// Edits to the same task field on two sides that could not be merged automatically
+export interface TaskConflict {
+  taskId: string;
+  taskTitle: string;
+  source: 'sync' | 'backup';
+  detectedAt: string; // ISO datetime
+  fields: TaskFieldConflict[];
+}
+
+export type ReflowReason = 'startMyDay' | 'updateScheduleNow' | 'interruption' | 'regenerate' | 'manualEdit';
+
+export interface PlanSnapshot {
+  id: string;
+  planDate: string; // Plan the snapshot was taken of (YYYY-MM-DD)
+  reason: ReflowReason; // Which reflow replaced it
+  createdAt: string; // ISO datetime
+  blocks: DailyPlanTask[]; // Committed (non-draft) blocks before the reflow
+  assignedDates: Record<string, string | null>; // taskId -> assignedDate before the reflow
 }
 
+// Same wake/sleep on every weekday
+export const buildWeeklyWakeSchedule = (wakeTime: string, sleepTime: string): Record<number, WakeSleepTimes> => {
+  const schedule: Record<number, WakeSleepTimes> = {};
+  for (let weekday = 1; weekday <= 7; weekday++) {
+    schedule[weekday] = { wakeTime, sleepTime };
+  }
+  return schedule;
+};
+
+// Replaces the old free-form 'evenings' / 'weekends' tags
+// Those tags were never enforced, so the presets start switched off - Settings offers them to turn on
+const DEFAULT_PROTECTED_TIMES: ProtectedTime[] = [
+  {
+    id: 'evenings',
+    label: 'Evenings',
+    weekdays: [1, 2, 3, 4, 5, 6, 7],
+    startTime: '18:00',
+    endTime: '00:00',
+    blockedDomains: ['Work'],
+    enabled: false
+  },
+  {
+    id: 'weekends',
+    label: 'Weekends',
+    weekdays: [6, 7],
+    startTime: '00:00',
+    endTime: '00:00',
+    blockedDomains: ['Work'],
+    enabled: false
+  }
+];
+
+const PRESET_PROTECTED_TIME_IDS = DEFAULT_PROTECTED_TIMES.map(preset => preset.id);
+
+/**
+ * Protected times from prefs of any version: old free-form tags become their preset
+ * window (switched off), unknown tags are dropped, and preset windows that were never
+ * switched on or off stay off
+ */
+export const migrateProtectedTimes = (value: unknown): ProtectedTime[] => {
+  const entries: unknown[] = Array.isArray(value) ? value : [];
+  return entries.flatMap(entry => {
+    if (typeof entry !== 'string') {
+      const protectedTime = entry as ProtectedTime;
+      return PRESET_PROTECTED_TIME_IDS.includes(protectedTime.id) && protectedTime.enabled === undefined
+        ? [{ ...protectedTime, enabled: false }]
+        : [protectedTime];
+    }
+    const preset = DEFAULT_PROTECTED_TIMES.find(p => p.id === entry.toLowerCase());
+    return preset ? [{ ...preset }] : [];
+  });
+};
+
 // Dexie database class
 export class RhythmPlannerDB extends Dexie {
   tasks!: Table<Task, string>;
@@ -135,6 +311,10 @@ export class RhythmPlannerDB extends Dexie {
   sessions!: Table<Session, string>;
   userPrefs!: Table<UserPrefs, number>;
   dailyPlanTasks!: Table<DailyPlanTask, string>;
+  planHistory!: Table<PlanSnapshot, string>;
+  changeLog!: Table<ChangeLogEntry, string>;
+  taskConflicts!: Table<TaskConflict, string>;
+  taskOccurrences!: Table<TaskOccurrence, string>;
 
   constructor() {
     super('RhythmPlannerDB');
@@ -371,6 +551,236 @@ export class RhythmPlannerDB extends Dexie {
         });
       }
     });
+
+    // Version 11: Add energy-aware slot placement penalty
+    this.version(11).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs) {
+        await trans.table('userPrefs').update(1, {
+          energyMatchPenalty: 5
+        });
+      }
+    });
+
+    // Version 12: Structured protected times (legacy string tags become real windows)
+    this.version(12).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs) {
+        await trans.table('userPrefs').update(1, { protectedTimes: migrateProtectedTimes(prefs.protectedTimes) });
+      }
+    });
+
+    // Version 13: Weekly wake/sleep template with per-date overrides
+    this.version(13).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs) {
+        await trans.table('userPrefs').update(1, {
+          weeklyWakeSchedule: buildWeeklyWakeSchedule(prefs.defaultWakeTime || '06:00', prefs.defaultSleepTime || '22:00'),
+          wakeScheduleOverrides: {}
+        });
+      }
+    });
+
+    // Version 14: Repair date keys that were written as UTC dates (toISOString) instead of local dates
+    this.version(14).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      const dayOf = (iso: string) => prefs ? getLogicalDateString(prefs, new Date(iso)) : toLocalDateString(new Date(iso));
+
+      // planDate: the logical day each block actually starts in
+      const committedDates = new Map<string, string>();
+      const blocks = await trans.table('dailyPlanTasks').toArray();
+      for (const block of blocks) {
+        if (!block.scheduledStartTime) continue;
+        const planDate = dayOf(block.scheduledStartTime);
+        if (planDate !== block.planDate) {
+          await trans.table('dailyPlanTasks').update(block.id!, { planDate });
+        }
+        if (block.taskId && !block.isDraft && !block.completed) {
+          const latest = committedDates.get(block.taskId);
+          if (!latest || planDate > latest) committedDates.set(block.taskId, planDate);
+        }
+      }
+
+      // assignedDate follows the task's committed block; dueDate/startDate become their local calendar day
+      const tasks = await trans.table('tasks').toArray();
+      for (const task of tasks) {
+        const updates: Record<string, string> = {};
+        if (task.assignedDate && committedDates.has(task.id) && committedDates.get(task.id) !== task.assignedDate) {
+          updates.assignedDate = committedDates.get(task.id)!;
+        }
+        if (task.dueDate && task.dueDate.includes('T')) updates.dueDate = toDateKey(task.dueDate);
+        if (task.startDate && task.startDate.includes('T')) updates.startDate = toDateKey(task.startDate);
+        if (Object.keys(updates).length > 0) {
+          await trans.table('tasks').update(task.id!, updates);
+        }
+      }
+    });
+
+    // Version 15: Transition buffers between domains and Errand travel time
+    this.version(15).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs) {
+        await trans.table('userPrefs').update(1, {
+          defaultTransitionMinutes: 5,
+          transitionBuffers: {},
+          errandTravelMinutes: 15
+        });
+      }
+    });
+
+    // Version 16: Plan history - snapshots of the plan before each reflow, for undo
+    this.version(16).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt'
+    });
+
+    // Version 17: Calendar import - index imported events by UID so re-imports update in place
+    this.version(17).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt'
+    });
+
+    // Version 18: Calendar export options
+    this.version(18).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs) {
+        await trans.table('userPrefs').update(1, {
+          calendarExport: { blockTypes: ['task', 'interruption'], includeDrafts: true, includeDueDates: true }
+        });
+      }
+    });
+
+    // Version 19: Sync change log - latest version of every synced record and whether it still needs pushing
+    this.version(19).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending'
+    });
+
+    // Version 20: Task edits awaiting conflict review (this device only - not synced or backed up)
+    this.version(20).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending',
+      taskConflicts: 'taskId, detectedAt'
+    });
+
+    // Version 21: Recurrence rules replace weeklyDay/daysOfWeek (CustomDays becomes Weekly on several days)
+    this.version(21).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending',
+      taskConflicts: 'taskId, detectedAt'
+    }).upgrade(async (trans) => {
+      await trans.table('tasks').toCollection().modify((task: Task) => {
+        const migrated = migrateLegacyRecurrence(task);
+        task.recurrence = migrated.recurrence;
+        task.recurrenceRule = migrated.recurrenceRule;
+      });
+    });
+
+    // Version 22: Occurrence ledger - done/skipped/missed/rescheduled per due date of a recurring task
+    this.version(22).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending',
+      taskConflicts: 'taskId, detectedAt',
+      taskOccurrences: 'id, taskId, date, status'
+    });
+
+    // Version 23: Task dependencies - multi-entry index on blockedBy to find a task's dependents
+    this.version(23).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid, *blockedBy',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending',
+      taskConflicts: 'taskId, detectedAt',
+      taskOccurrences: 'id, taskId, date, status'
+    });
+
+    // Version 24: Preset protected times from the old tags are suggestions until switched on
+    this.version(24).stores({
+      tasks: 'id, domain, status, priority, deadline, dueDate, startDate, recurrence, snoozedUntil, assignedDate, lastCompletedAt, isProject, taskType, archived, icsUid, *blockedBy',
+      blockTypes: 'id, domain, duration',
+      sessions: 'id, taskId, startTime, completed',
+      userPrefs: 'id',
+      dailyPlanTasks: 'id, taskId, planDate, order, blockType, isDraft',
+      planHistory: 'id, planDate, createdAt',
+      changeLog: 'key, table, pending',
+      taskConflicts: 'taskId, detectedAt',
+      taskOccurrences: 'id, taskId, date, status'
+    }).upgrade(async (trans) => {
+      const prefs = await trans.table('userPrefs').get(1);
+      if (prefs && Array.isArray(prefs.protectedTimes)) {
+        await trans.table('userPrefs').update(1, { protectedTimes: migrateProtectedTimes(prefs.protectedTimes) });
+      }
+    });
+
+    this.use(changeLogMiddleware);
   }
 }
 
@@ -430,52 +840,101 @@ export const initializeDefaultBlockTypes = async () => {
   }
 };
 
+// Default user preferences for a new install
+const buildDefaultPrefs = (): UserPrefs => ({
+  id: 1,
+  maxWorkHoursPerWeek: 24,
+  maxWorkBlocksPerDay: 4,
+  maxWorkHoursPerDay: 4,
+  maxSideHustleHoursPerDay: 2,
+  maxSideHustleHoursPerWeek: 10,
+  protectedTimes: DEFAULT_PROTECTED_TIMES,
+  domainColors: {
+    Work: '#3A5BA0',
+    SideHustle: '#7B68EE',
+    Chore: '#8FAE8F',
+    Errand: '#D6A656',
+    Personal: '#D58B7C',
+    Creative: '#A88FB0',
+    Unplanned: '#9E9E9E'
+  },
+  permissionRules: {
+    softCap: true,
+    hardCap: false,
+    recoveryMode: true
+  },
+  dailyPlanStartTime: '09:00',
+  dailyPlanEndTime: '22:00',
+  defaultWakeTime: '06:00',
+  defaultSleepTime: '22:00',
+  weeklyWakeSchedule: buildWeeklyWakeSchedule('06:00', '22:00'),
+  wakeScheduleOverrides: {},
+  actualWakeTimeToday: null,
+  freeTimePreference: 'Recharge' as FreeTimeType,
+  inTownDays: [1, 2, 3, 4, 5], // Weekdays
+  currentEnergy: 'Medium' as Energy,
+  archiveRetentionDays: 0, // Default: delete immediately
+  bioRhythmProfile: 'Morning Peak' as BioRhythmProfile,
+  customBioRhythmSegments: [],
+  energyMatchPenalty: 5,
+  defaultTransitionMinutes: 5,
+  transitionBuffers: {},
+  errandTravelMinutes: 15,
+  calendarExport: { blockTypes: ['task', 'interruption'], includeDrafts: true, includeDueDates: true },
+  maxFocusBlock: 60,
+  breakDuration: 15,
+  timerSoundsEnabled: true,
+  timerVolume: 70,
+  timerSoundPack: 'Chime' as SoundPack
+});
+
 // Initialize default user preferences
 export const initializeDefaultPrefs = async () => {
   const count = await db.userPrefs.count();
   if (count === 0) {
-    await db.userPrefs.add({
-      id: 1,
-      maxWorkHoursPerWeek: 24,
-      maxWorkBlocksPerDay: 4,
-      maxWorkHoursPerDay: 4,
-      maxSideHustleHoursPerDay: 2,
-      maxSideHustleHoursPerWeek: 10,
-      protectedTimes: ['evenings', 'weekends'],
-      domainColors: {
-        Work: '#3A5BA0',
-        SideHustle: '#7B68EE',
-        Chore: '#8FAE8F',
-        Errand: '#D6A656',
-        Personal: '#D58B7C',
-        Creative: '#A88FB0',
-        Unplanned: '#9E9E9E'
-      },
-      permissionRules: {
-        softCap: true,
-        hardCap: false,
-        recoveryMode: true
-      },
-      dailyPlanStartTime: '09:00',
-      dailyPlanEndTime: '22:00',
-      defaultWakeTime: '06:00',
-      defaultSleepTime: '22:00',
-      actualWakeTimeToday: null,
-      freeTimePreference: 'Recharge' as FreeTimeType,
-      inTownDays: [1, 2, 3, 4, 5], // Weekdays
-      currentEnergy: 'Medium' as Energy,
-      archiveRetentionDays: 0, // Default: delete immediately
-      bioRhythmProfile: 'Morning Peak' as BioRhythmProfile,
-      customBioRhythmSegments: [],
-      maxFocusBlock: 60,
-      breakDuration: 15,
-      timerSoundsEnabled: true,
-      timerVolume: 70,
-      timerSoundPack: 'Chime' as SoundPack
-    });
+    await db.userPrefs.add(buildDefaultPrefs());
   }
 };
 
+/**
+ * Prefs from any version (an old backup, 1.x settings) brought up to the current shape
+ * Applies the same steps as the prefs upgrades (v5 wake times, v12/v24 protected times,
+ * v13 weekly schedule) and fills fields added since with their defaults.
+ */
+export const normalizeUserPrefs = (prefs: Record<string, any>): UserPrefs => {
+  const defaultWakeTime = prefs.defaultWakeTime || prefs.dailyPlanStartTime || '06:00';
+  const defaultSleepTime = prefs.defaultSleepTime || prefs.dailyPlanEndTime || '22:00';
+  return {
+    ...buildDefaultPrefs(),
+    ...prefs,
+    id: 1,
+    defaultWakeTime,
+    defaultSleepTime,
+    protectedTimes: migrateProtectedTimes(prefs.protectedTimes ?? DEFAULT_PROTECTED_TIMES),
+    weeklyWakeSchedule: prefs.weeklyWakeSchedule || buildWeeklyWakeSchedule(defaultWakeTime, defaultSleepTime)
+  };
+};
+
+/**
+ * Delete a task with everything that points at it: sessions, plan blocks, occurrence
+ * records and its place in other tasks' blockedBy lists
+ * Joins the caller's transaction when there is one (it must include these four tables).
+ */
+export const deleteTaskCascade = async (taskId: string): Promise<void> => {
+  await db.transaction('rw', [db.tasks, db.sessions, db.dailyPlanTasks, db.taskOccurrences], async () => {
+    await db.sessions.where('taskId').equals(taskId).delete();
+    await db.dailyPlanTasks.where('taskId').equals(taskId).delete();
+    await db.taskOccurrences.where('taskId').equals(taskId).delete();
+
+    const dependents = await db.tasks.where('blockedBy').equals(taskId).toArray();
+    for (const task of dependents) {
+      await db.tasks.update(task.id!, { blockedBy: (task.blockedBy || []).filter(id => id !== taskId) });
+    }
+
+    await db.tasks.delete(taskId);
+  });
+};
+
 // Clean up archived tasks based on retention policy
 export const cleanupArchivedTasks = async () => {
   const prefs = await db.userPrefs.get(1);
@@ -488,7 +947,7 @@ export const cleanupArchivedTasks = async () => {
   const cutoffDate = new Date(now.getTime() - retention * 24 * 60 * 60 * 1000);
 
   // Delete archived tasks older than retention period
-  await db.tasks
+  const expiredIds = await db.tasks
     .where('archived')
     .equals(1)
     .and(task => {
@@ -496,11 +955,49 @@ export const cleanupArchivedTasks = async () => {
       const completedDate = new Date(task.completedAt);
       return completedDate < cutoffDate;
     })
-    .delete();
+    .primaryKeys();
+
+  for (const taskId of expiredIds) {
+    await deleteTaskCascade(taskId);
+  }
+};
+
+// Keep the plan on the same wall-clock times after the device timezone changes (travel)
+// Unfinished blocks are shifted so 09:00 stays 09:00 locally; completed blocks and
+// interruptions are history and keep their real instants
+export const reconcileTimeZoneChange = async () => {
+  const change = detectTimeZoneChange();
+  if (!change) return;
+
+  const shiftMinutes = change.previousOffsetMinutes - change.currentOffsetMinutes;
+  console.log(`TIMEZONE_CHANGED ${change.previousZone} -> ${change.currentZone} (shift ${shiftMinutes}m)`);
+  if (shiftMinutes === 0) return;
+
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) return;
+
+  const todayString = getLogicalDateString(prefs);
+  const shift = (iso: string) => new Date(new Date(iso).getTime() + shiftMinutes * 60 * 1000).toISOString();
+
+  const blocks = await db.dailyPlanTasks
+    .where('planDate')
+    .aboveOrEqual(todayString)
+    .and(block => !block.completed && block.blockType !== 'interruption')
+    .toArray();
+
+  for (const block of blocks) {
+    await db.dailyPlanTasks.update(block.id!, {
+      scheduledStartTime: shift(block.scheduledStartTime),
+      scheduledEndTime: shift(block.scheduledEndTime)
+    });
+  }
+
+  console.log(`TIMEZONE_CHANGED shifted ${blocks.length} blocks`);
 };
 
 // Initialize database with defaults
 export const initializeDatabase = async () => {
   await initializeDefaultBlockTypes();
   await initializeDefaultPrefs();
+  await reconcileTimeZoneChange();
 };
@@ -0,0 +1,376 @@
+import Dexie from 'dexie';
+import { db, normalizeUserPrefs, BlockType, DailyPlanTask, PlanSnapshot, Session, Task, TaskOccurrence, UserPrefs } from '../db/database';
+import { getTodayString } from './localDate';
+import { mergeTasks, recordTaskConflicts } from './taskMerge';
+import { migrateLegacyRecurrence } from './recurrence';
+
+export const BACKUP_FORMAT = 'rhythm-planner-backup';
+export const BACKUP_VERSION = '2.0.0';
+const LOCAL_STORAGE_PREFIX = 'rhythmPlanner_';
+
+export type BackupTableName = 'tasks' | 'sessions' | 'dailyPlanTasks' | 'blockTypes' | 'userPrefs' | 'planHistory' | 'taskOccurrences';
+export type RestoreMode = 'merge' | 'replace';
+export type ConflictChoice = 'local' | 'backup'; // Which copy wins when a record exists on both sides (merge only)
+
+export interface BackupTables {
+  tasks: Task[];
+  sessions: Session[];
+  dailyPlanTasks: DailyPlanTask[];
+  blockTypes: BlockType[];
+  userPrefs: UserPrefs[];
+  planHistory: PlanSnapshot[];
+  taskOccurrences: TaskOccurrence[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: string;
+  schemaVersion: number; // Dexie version of the database that wrote the backup
+  exportDate: string;
+  tables: BackupTables;
+  localStorage: Record<string, string>; // Reflections, streak and day start/end markers
+}
+
+export interface TablePreview {
+  table: BackupTableName | 'localStorage';
+  incoming: number; // Records in the backup
+  existing: number; // Records on this device
+  added: number; // In the backup only
+  identical: number; // Same id and same content on both sides
+  conflicts: number; // Same id, different content
+  removed: number; // On this device only - deleted by a replace
+}
+
+export interface RestorePreview {
+  exportDate: string;
+  migratedFrom: string | null; // Original version when an old export was upgraded
+  tables: TablePreview[];
+}
+
+const TABLE_NAMES: BackupTableName[] = ['tasks', 'sessions', 'dailyPlanTasks', 'blockTypes', 'userPrefs', 'planHistory', 'taskOccurrences'];
+
+// Fields added to tasks after 1.x exports were written
+const TASK_DEFAULTS: Partial<Task> = {
+  deadline: null,
+  dueDate: null,
+  startDate: null,
+  recurrence: 'Once',
+  daysOfWeek: [],
+  weeklyDay: null,
+  recurrenceRule: null,
+  status: 'todo',
+  dread: 0,
+  snoozedUntil: null,
+  notes: '',
+  subtasks: [],
+  assignedDate: null,
+  lastCompletedAt: null,
+  archived: false,
+  completedAt: null,
+  isProject: false,
+  preferredSliceSize: 30,
+  taskType: 'Flexible',
+  fixedStartTime: null,
+  eligibleStartTime: null,
+  mustFinishByTime: null,
+  chunkPreference: null,
+  blockedBy: []
+};
+
+const getTable = (name: BackupTableName) => db.table(name);
+
+const readLocalStorage = (): Record<string, string> => {
+  const data: Record<string, string> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(LOCAL_STORAGE_PREFIX)) {
+      data[key] = localStorage.getItem(key) || '';
+    }
+  }
+  return data;
+};
+
+/**
+ * Snapshot every table plus the app's localStorage keys
+ * Reads the app database by default; pass another connection to read it at an older schema version.
+ */
+export const createBackup = async (source: Dexie = db): Promise<BackupFile> => {
+  const readTable = async (name: BackupTableName) => {
+    return source.tables.some(table => table.name === name) ? source.table(name).toArray() : [];
+  };
+
+  const [tasks, sessions, dailyPlanTasks, blockTypes, userPrefs, planHistory, taskOccurrences] = await Promise.all(TABLE_NAMES.map(readTable));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: source.verno,
+    exportDate: new Date().toISOString(),
+    tables: { tasks, sessions, dailyPlanTasks, blockTypes, userPrefs, planHistory, taskOccurrences },
+    localStorage: readLocalStorage()
+  };
+};
+
+/**
+ * Download a full backup as rhythm_backup_<date>.json
+ */
+export const downloadBackup = async (): Promise<BackupFile> => {
+  const backup = await createBackup();
+
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rhythm_backup_${getTodayString()}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  console.log(`BACKUP_EXPORT ${TABLE_NAMES.map(name => `${name}=${backup.tables[name].length}`).join(' ')}`);
+  return backup;
+};
+
+/**
+ * 1.x exports held settings, tasks and archive only
+ */
+const migrateV1 = (data: any): BackupFile => {
+  const tasks = [
+    ...(Array.isArray(data.tasks) ? data.tasks : []),
+    ...(Array.isArray(data.archive) ? data.archive : [])
+  ];
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: 0,
+    exportDate: data.exportDate || new Date(0).toISOString(),
+    tables: {
+      tasks,
+      sessions: [],
+      dailyPlanTasks: [],
+      blockTypes: [],
+      userPrefs: data.settings ? [{ ...data.settings, id: 1 }] : [],
+      planHistory: [],
+      taskOccurrences: []
+    },
+    localStorage: {}
+  };
+};
+
+/**
+ * Check record shapes so a bad file fails before anything is written
+ */
+const validateBackup = (backup: BackupFile): void => {
+  const problems: string[] = [];
+
+  for (const name of TABLE_NAMES) {
+    const records = backup.tables[name];
+    if (!Array.isArray(records)) {
+      problems.push(`${name} is not a list`);
+      continue;
+    }
+    const missingIds = records.filter(record => !record || record.id === undefined || record.id === null).length;
+    if (missingIds > 0) problems.push(`${missingIds} ${name} records have no id`);
+  }
+
+  if (Array.isArray(backup.tables.tasks)) {
+    const invalidTasks = backup.tables.tasks.filter(task => typeof task?.title !== 'string' || !task.domain).length;
+    if (invalidTasks > 0) problems.push(`${invalidTasks} tasks have no title or domain`);
+  }
+  if (Array.isArray(backup.tables.sessions)) {
+    const invalidSessions = backup.tables.sessions.filter(session => !session?.taskId || !session.startTime).length;
+    if (invalidSessions > 0) problems.push(`${invalidSessions} sessions have no task or start time`);
+  }
+  if (Array.isArray(backup.tables.dailyPlanTasks)) {
+    const invalidBlocks = backup.tables.dailyPlanTasks
+      .filter(block => !block?.planDate || !block.scheduledStartTime || !block.scheduledEndTime).length;
+    if (invalidBlocks > 0) problems.push(`${invalidBlocks} plan blocks have no date or times`);
+  }
+  if (typeof backup.localStorage !== 'object' || backup.localStorage === null) {
+    problems.push('localStorage section is not an object');
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid backup: ${problems.join('; ')}`);
+  }
+};
+
+/**
+ * Parse, migrate and validate a backup file's text
+ * Returns the backup in the current format and the version it was upgraded from (if any).
+ */
+export const parseBackup = (text: string): { backup: BackupFile; migratedFrom: string | null } => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid backup: not a JSON file');
+  }
+  return loadBackup(data);
+};
+
+/**
+ * Migrate and validate backup data (a parsed file or a stored snapshot)
+ */
+export const loadBackup = (data: any): { backup: BackupFile; migratedFrom: string | null } => {
+  if (!data || typeof data.version !== 'string') {
+    throw new Error('Invalid backup: missing version');
+  }
+
+  let backup: BackupFile;
+  let migratedFrom: string | null = null;
+
+  if (data.version.startsWith('1.')) {
+    if (!data.settings) {
+      throw new Error('Invalid backup: missing settings');
+    }
+    backup = migrateV1(data);
+    migratedFrom = data.version;
+  } else if (data.version.startsWith('2.') && data.format === BACKUP_FORMAT) {
+    backup = {
+      ...data,
+      tables: Object.fromEntries(TABLE_NAMES.map(name => [name, data.tables?.[name] ?? []])) as unknown as BackupTables,
+      localStorage: data.localStorage ?? {}
+    };
+  } else {
+    throw new Error(`Unsupported backup version ${data.version} - please update the app`);
+  }
+
+  if (backup.schemaVersion > db.verno) {
+    throw new Error('This backup was made by a newer version of the app - please update before restoring');
+  }
+
+  validateBackup(backup);
+  backup.tables.tasks = backup.tables.tasks.map(task => migrateLegacyRecurrence({ ...TASK_DEFAULTS, ...task } as Task));
+  backup.tables.userPrefs = backup.tables.userPrefs.map(prefs => normalizeUserPrefs(prefs));
+  return { backup, migratedFrom };
+};
+
+const sameRecord = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const compareRecords = (
+  table: TablePreview['table'],
+  incoming: Map<string, unknown>,
+  existing: Map<string, unknown>
+): TablePreview => {
+  const preview: TablePreview = {
+    table,
+    incoming: incoming.size,
+    existing: existing.size,
+    added: 0,
+    identical: 0,
+    conflicts: 0,
+    removed: 0
+  };
+
+  for (const [id, record] of incoming) {
+    if (!existing.has(id)) preview.added++;
+    else if (sameRecord(existing.get(id), record)) preview.identical++;
+    else preview.conflicts++;
+  }
+  for (const id of existing.keys()) {
+    if (!incoming.has(id)) preview.removed++;
+  }
+  return preview;
+};
+
+const byId = (records: { id?: string | number }[]) => new Map(records.map(record => [String(record.id), record as unknown]));
+
+/**
+ * Counts of what a restore would add, overwrite or delete, per table
+ */
+export const previewRestore = async (backup: BackupFile, migratedFrom: string | null = null): Promise<RestorePreview> => {
+  const tables: TablePreview[] = [];
+  for (const name of TABLE_NAMES) {
+    const existing = await getTable(name).toArray();
+    tables.push(compareRecords(name, byId(backup.tables[name]), byId(existing)));
+  }
+  tables.push(compareRecords(
+    'localStorage',
+    new Map(Object.entries(backup.localStorage)),
+    new Map(Object.entries(readLocalStorage()))
+  ));
+
+  return { exportDate: backup.exportDate, migratedFrom, tables };
+};
+
+/**
+ * Merge backup tasks into this device's tasks field by field
+ * Conflicting title, notes or dread edits keep conflictChoice's side and are queued for review.
+ */
+const mergeTaskRecords = async (tasks: Task[], conflictChoice: ConflictChoice): Promise<void> => {
+  const existing = await db.tasks.bulkGet(tasks.map(task => task.id!));
+  const toWrite: Task[] = [];
+
+  for (const [index, task] of tasks.entries()) {
+    const local = existing[index];
+    if (!local) {
+      toWrite.push(task);
+      continue;
+    }
+    if (sameRecord(local, task)) continue;
+
+    const merged = mergeTasks(null, local, task, conflictChoice === 'backup');
+    toWrite.push(merged.task);
+    await recordTaskConflicts(merged.task, merged.conflicts, 'backup');
+  }
+
+  await db.tasks.bulkPut(toWrite);
+};
+
+/**
+ * Restore a backup
+ *
+ * replace: every table (and the app's localStorage keys) becomes exactly the backup's contents.
+ * merge: records only in the backup are added; records on both sides keep the copy chosen by
+ * conflictChoice, except tasks, which are merged field by field. Nothing on this device is deleted.
+ *
+ * Preferences arrive already brought up to date by loadBackup, so settings added since the
+ * backup was written get their defaults.
+ */
+export const restoreBackup = async (backup: BackupFile, mode: RestoreMode, conflictChoice: ConflictChoice = 'local'): Promise<void> => {
+  const currentPrefs = await db.userPrefs.get(1);
+
+  await db.transaction('rw', [...TABLE_NAMES.map(getTable), db.taskConflicts], async () => {
+    for (const name of TABLE_NAMES) {
+      const table = getTable(name);
+      const records: any[] = backup.tables[name];
+
+      if (mode === 'replace') {
+        await table.clear();
+        await table.bulkPut(records);
+        continue;
+      }
+
+      if (name === 'tasks') {
+        await mergeTaskRecords(records, conflictChoice);
+        continue;
+      }
+
+      const existingIds = new Set((await table.toCollection().primaryKeys()).map(String));
+      const toWrite = conflictChoice === 'backup'
+        ? records
+        : records.filter(record => !existingIds.has(String(record.id)));
+      await table.bulkPut(toWrite);
+    }
+  });
+
+  if (mode === 'replace') {
+    for (const key of Object.keys(readLocalStorage())) {
+      localStorage.removeItem(key);
+    }
+  }
+  for (const [key, value] of Object.entries(backup.localStorage)) {
+    if (!key.startsWith(LOCAL_STORAGE_PREFIX)) continue;
+    if (mode === 'merge' && conflictChoice === 'local' && localStorage.getItem(key) !== null) continue;
+    localStorage.setItem(key, value);
+  }
+
+  // Replace with a backup that has no prefs (e.g. a damaged file) must not leave the app without settings
+  if (mode === 'replace' && backup.tables.userPrefs.length === 0 && currentPrefs) {
+    await db.userPrefs.put(currentPrefs);
+  }
+
+  console.log(`BACKUP_RESTORE ${mode}${mode === 'merge' ? ` (${conflictChoice} wins)` : ''} from ${backup.exportDate}`);
+};
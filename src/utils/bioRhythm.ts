@@ -77,6 +77,32 @@ export const calculateDailyEnergyCurve = (
   return curve;
 };
 
+const ENERGY_LEVELS: Record<Energy, number> = { Low: 1, Medium: 2, High: 3 };
+
+/**
+ * How poorly a time slot fits a task's energy demand (0 = perfect fit, 2 = worst)
+ * Averages the gap between the task's energy and the curve in 5-minute steps,
+ * so High tasks drift toward peaks and Low tasks toward troughs
+ */
+export const getSlotEnergyMismatch = (
+  start: Date,
+  end: Date,
+  taskEnergy: Energy,
+  energyCurve: Energy[]
+): number => {
+  const taskLevel = ENERGY_LEVELS[taskEnergy];
+  let total = 0;
+  let samples = 0;
+
+  for (let t = start.getTime(); t < end.getTime(); t += 5 * 60 * 1000) {
+    const hourEnergy = energyCurve[new Date(t).getHours()] || 'Medium';
+    total += Math.abs(taskLevel - ENERGY_LEVELS[hourEnergy]);
+    samples++;
+  }
+
+  return samples > 0 ? total / samples : 0;
+};
+
 /**
  * Log bio-rhythm application for debugging
  */
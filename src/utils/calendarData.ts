@@ -0,0 +1,97 @@
+import { db, DailyPlanTask, Session, Task, UserPrefs } from '../db/database';
+import { getLogicalDateString } from './wakeSchedule';
+import { addDays, fromLocalDateString, toDateKey, toLocalDateString } from './localDate';
+
+export interface CalendarBlock {
+  block: DailyPlanTask;
+  task: Task | null;
+}
+
+export interface CalendarSession {
+  session: Session;
+  task: Task;
+}
+
+export interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  blocks: CalendarBlock[]; // Committed and draft plan blocks (task and interruption)
+  fixedEvents: Task[]; // Fixed tasks on this day without a plan block
+  dueTasks: Task[]; // Unfinished tasks due this day
+  sessions: CalendarSession[]; // Completed timer sessions, by logical day
+}
+
+/**
+ * Everything the calendar shows for each day from startDate to endDate (inclusive)
+ */
+export const getCalendarDays = async (prefs: UserPrefs, startDate: string, endDate: string): Promise<CalendarDay[]> => {
+  const days = new Map<string, CalendarDay>();
+  for (let date = fromLocalDateString(startDate); toLocalDateString(date) <= endDate; date = addDays(date, 1)) {
+    const key = toLocalDateString(date);
+    days.set(key, { date: key, blocks: [], fixedEvents: [], dueTasks: [], sessions: [] });
+  }
+
+  const allTasks = await db.tasks.toArray();
+  const tasksById = new Map(allTasks.map(task => [task.id!, task]));
+
+  // Plan blocks - free and transition time would only clutter a calendar
+  const blocks = await db.dailyPlanTasks
+    .where('planDate')
+    .between(startDate, endDate, true, true)
+    .and(block => block.blockType === 'task' || block.blockType === 'interruption')
+    .toArray();
+
+  for (const block of blocks) {
+    const day = days.get(block.planDate);
+    if (!day) continue;
+    const task = block.taskId ? tasksById.get(block.taskId) || null : null;
+    if (block.blockType === 'task' && !task) continue;
+    day.blocks.push({ block, task });
+  }
+
+  for (const task of allTasks) {
+    if (task.archived || task.status === 'done') continue;
+
+    if (task.taskType === 'Fixed' && task.fixedStartTime) {
+      const day = days.get(getLogicalDateString(prefs, new Date(task.fixedStartTime)));
+      if (day && !day.blocks.some(item => item.block.taskId === task.id)) {
+        day.fixedEvents.push(task);
+      }
+    }
+
+    const due = task.dueDate || task.deadline;
+    if (due) {
+      const day = days.get(toDateKey(due));
+      if (day) day.dueTasks.push(task);
+    }
+  }
+
+  // Sessions after midnight belong to the day that started at wake time
+  const rangeStart = addDays(fromLocalDateString(startDate), -1).toISOString();
+  const rangeEnd = addDays(fromLocalDateString(endDate), 2).toISOString();
+  const sessions = await db.sessions
+    .where('startTime')
+    .between(rangeStart, rangeEnd)
+    .and(session => session.completed === true)
+    .toArray();
+
+  for (const session of sessions) {
+    const task = tasksById.get(session.taskId);
+    const day = days.get(getLogicalDateString(prefs, new Date(session.startTime)));
+    if (task && day) day.sessions.push({ session, task });
+  }
+
+  for (const day of days.values()) {
+    day.blocks.sort((a, b) => a.block.scheduledStartTime.localeCompare(b.block.scheduledStartTime));
+    day.sessions.sort((a, b) => a.session.startTime.localeCompare(b.session.startTime));
+  }
+
+  return Array.from(days.values());
+};
+
+/**
+ * Put a task on a day's plan - the scheduler places it next time that day is planned
+ */
+export const assignTaskToDate = async (taskId: string, date: string): Promise<void> => {
+  await db.tasks.update(taskId, { assignedDate: date });
+  console.log(`CALENDAR_ASSIGN ${taskId} -> ${date}`);
+};
@@ -1,6 +1,9 @@
 import { Task, DailyPlanTask, db, Domain } from '../db/database';
 import { isTaskEligibleForDate } from './taskEligibility';
+import { getOccurrenceExceptions } from './occurrenceLedger';
+import { getBlockedTaskIds } from './taskDependencies';
 import { getTodaysSlice } from './projectChunking';
+import { toLocalDateString, getTodayString } from './localDate';
 
 interface DailyPlanResult {
   plannedTasks: DailyPlanTask[];
@@ -80,7 +83,7 @@ const DOMAIN_PRIORITY: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Per
  */
 export const generateDailyPlan = async (): Promise<DailyPlanResult> => {
   const today = new Date();
-  const todayDateString = today.toISOString().split('T')[0];
+  const todayDateString = toLocalDateString(today);
 
   // Get user preferences
   const prefs = await db.userPrefs.get(1);
@@ -105,8 +108,10 @@ export const generateDailyPlan = async (): Promise<DailyPlanResult> => {
     .and(task => !task.archived)
     .toArray();
 
-  // Filter to eligible tasks for today
-  let eligibleTasks = allTodoTasks.filter(task => isTaskEligibleForDate(task, today));
+  // Filter to eligible tasks for today, leaving out ones still waiting on a prerequisite
+  const exceptions = await getOccurrenceExceptions();
+  const blockedTaskIds = await getBlockedTaskIds();
+  let eligibleTasks = allTodoTasks.filter(task => isTaskEligibleForDate(task, today, exceptions) && !blockedTaskIds.has(task.id!));
 
   // Initialize domain allocations
   const domainAllocations: Record<Domain, DomainAllocation> = {
@@ -285,7 +290,7 @@ export const generateDailyPlan = async (): Promise<DailyPlanResult> => {
  * ONLY returns tasks where assignedDate === today OR blockType is free/rest
  */
 export const getTodaysPlan = async () => {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getTodayString();
 
   const plannedTasks = await db.dailyPlanTasks
     .where('planDate')
@@ -0,0 +1,364 @@
+import { Task, Domain, UserPrefs, db } from '../db/database';
+import { isTaskEligibleForDate } from './taskEligibility';
+import { OccurrenceExceptions, getOccurrenceExceptions } from './occurrenceLedger';
+import { getDomainCap } from './wakeDayScheduler';
+import { getWakeWindow, getLogicalDate } from './wakeSchedule';
+import { getProtectedWindows } from './protectedTimes';
+import { getWeekStart, getWeeklyCapMinutes, getWeeklyUsage } from './weeklyCaps';
+import { toLocalDateString, toDateKey, daysBetween } from './localDate';
+
+export type FeasibilityStatus = 'ok' | 'at-risk' | 'impossible';
+
+export interface DeadlineCheckpoint {
+  dueDate: string; // YYYY-MM-DD
+  demandMinutes: number; // Remaining work due on or before this date
+  capacityMinutes: number; // Free wake-window minutes from now through the end of dueDate (after fixed, committed and protected time)
+  status: FeasibilityStatus;
+  overloadedDomains: Domain[]; // Domains whose caps can't absorb their share of the demand
+  taskIds: string[]; // Tasks due exactly on this date
+}
+
+export interface TaskForecast {
+  taskId: string;
+  status: FeasibilityStatus;
+  dueDate: string | null;
+  projectedCompletion: string | null; // For projects: date the last slice lands at the usual pace
+}
+
+export interface DeadlineForecast {
+  checkpoints: DeadlineCheckpoint[];
+  tasks: Record<string, TaskForecast>;
+}
+
+interface DayCapacity {
+  dateString: string;
+  weekStart: string; // Week the day counts toward for weekly caps
+  freeMinutes: number;
+  domainMinutes: Record<Domain, number>;
+  reservedMinutes: Record<Domain, number>; // Fixed tasks and committed blocks, by domain
+}
+
+// Time already spoken for: a Fixed task or a committed plan block
+interface ReservedTime {
+  start: Date;
+  end: Date;
+  domain: Domain;
+}
+
+const AT_RISK_THRESHOLD = 0.8; // Demand above 80% of capacity leaves no room for slippage
+const MAX_FORECAST_DAYS = 365;
+const PACE_LOOKBACK_DAYS = 14;
+
+const DOMAINS: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
+
+/**
+ * Minutes of work still owed on a task
+ */
+const getRemainingMinutes = (task: Task): number => {
+  return task.isProject ? task.remainingMins : task.estimateMins;
+};
+
+/**
+ * Minutes of from-to covered by any of the ranges (overlaps counted once)
+ */
+const getCoveredMinutes = (ranges: { start: Date; end: Date }[], from: Date, to: Date): number => {
+  const clipped = ranges
+    .map(range => [Math.max(range.start.getTime(), from.getTime()), Math.min(range.end.getTime(), to.getTime())])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
+
+  let covered = 0;
+  let coveredUntil = from.getTime();
+  for (const [start, end] of clipped) {
+    if (end <= coveredUntil) continue;
+    covered += end - Math.max(start, coveredUntil);
+    coveredUntil = end;
+  }
+  return covered / (1000 * 60);
+};
+
+/**
+ * Free capacity for a single day: the wake window minus Fixed tasks, committed blocks,
+ * protected time and recurring load, with each domain held to its daily cap
+ * Today only counts the time left between now and sleep
+ */
+const getDayCapacity = async (
+  prefs: UserPrefs,
+  date: Date,
+  isToday: boolean,
+  recurringTasks: Task[],
+  exceptions: OccurrenceExceptions,
+  reserved: ReservedTime[]
+): Promise<DayCapacity> => {
+  const dateString = toLocalDateString(date);
+  const { wake, sleep } = getWakeWindow(prefs, date);
+  const start = isToday ? new Date(Math.max(Date.now(), wake.getTime())) : wake;
+  const windowMinutes = Math.max(0, (sleep.getTime() - start.getTime()) / (1000 * 60));
+
+  const reservedToday = reserved.filter(range => range.start < sleep && range.end > start);
+  const reservedMinutes = {} as Record<Domain, number>;
+  for (const domain of DOMAINS) {
+    reservedMinutes[domain] = reservedToday
+      .filter(range => range.domain === domain)
+      .reduce((sum, range) => sum + getCoveredMinutes([range], start, sleep), 0);
+  }
+
+  // Recurring tasks eat into the same window every day they're eligible
+  const recurringMinutes = recurringTasks
+    .filter(task => isTaskEligibleForDate(task, date, exceptions))
+    .filter(task => !(isToday && task.lastCompletedAt && toDateKey(task.lastCompletedAt) === dateString))
+    .reduce((sum, task) => sum + task.estimateMins, 0);
+
+  // Overall, only protected time that blocks every domain is lost
+  const protectedForAll = getProtectedWindows(prefs, start, sleep)
+    .filter(window => DOMAINS.every(domain => window.protectedTime.blockedDomains.includes(domain)));
+  const freeMinutes = Math.max(0, windowMinutes - getCoveredMinutes([...reservedToday, ...protectedForAll], start, sleep) - recurringMinutes);
+
+  const domainMinutes = {} as Record<Domain, number>;
+  for (const domain of DOMAINS) {
+    const unavailable = [...reservedToday, ...getProtectedWindows(prefs, start, sleep, domain)];
+    const openMinutes = windowMinutes - getCoveredMinutes(unavailable, start, sleep) - recurringMinutes;
+    const capLeft = (await getDomainCap(domain, prefs, date)) - reservedMinutes[domain];
+    domainMinutes[domain] = Math.max(0, Math.min(openMinutes, capLeft));
+  }
+
+  return { dateString, weekStart: toLocalDateString(getWeekStart(date)), freeMinutes, domainMinutes, reservedMinutes };
+};
+
+/**
+ * Hold each day's domain capacity to what is left of the domain's weekly cap
+ * The current week starts from the time already worked; reserved minutes use up the cap first.
+ */
+const applyWeeklyCaps = (prefs: UserPrefs, days: DayCapacity[], workedThisWeek: Record<Domain, number>): void => {
+  const currentWeek = days[0]?.weekStart;
+  const remaining = new Map<string, number>(); // "weekStart|domain" -> minutes left
+
+  for (const day of days) {
+    for (const domain of DOMAINS) {
+      const key = `${day.weekStart}|${domain}`;
+      const worked = day.weekStart === currentWeek ? workedThisWeek[domain] : 0;
+      const capLeft = Math.max(0, (remaining.get(key) ?? getWeeklyCapMinutes(domain, prefs) - worked) - day.reservedMinutes[domain]);
+      day.domainMinutes[domain] = Math.min(day.domainMinutes[domain], capLeft);
+      remaining.set(key, capLeft - day.domainMinutes[domain]);
+    }
+  }
+};
+
+/**
+ * Usual minutes per working day on a project, from recent completed sessions
+ * Falls back to one preferred slice per day when there's no history
+ */
+const getUsualDailySlice = (task: Task, sessionsByTask: Map<string, { day: string; mins: number }[]>): number => {
+  const history = sessionsByTask.get(task.id!) || [];
+  const minutesByDay = history.reduce((acc, s) => {
+    acc[s.day] = (acc[s.day] || 0) + s.mins;
+    return acc;
+  }, {} as Record<string, number>);
+
+  const activeDays = Object.values(minutesByDay);
+  if (activeDays.length === 0) {
+    return task.preferredSliceSize || 30;
+  }
+
+  const average = activeDays.reduce((sum, m) => sum + m, 0) / activeDays.length;
+  return Math.max(task.preferredSliceSize || 30, Math.round(average));
+};
+
+/**
+ * Walk forward from today until the project's remaining minutes are burned down
+ */
+const projectCompletionDate = (
+  task: Task,
+  dailySlice: number,
+  days: DayCapacity[],
+  dates: Date[]
+): string | null => {
+  let remaining = task.remainingMins;
+  const undatedTask = { ...task, dueDate: null };
+
+  for (let i = 0; i < days.length; i++) {
+    if (days[i].domainMinutes[task.domain] <= 0) continue;
+    if (!isTaskEligibleForDate(undatedTask, dates[i])) continue;
+
+    remaining -= Math.min(dailySlice, days[i].domainMinutes[task.domain]);
+    if (remaining <= 0) {
+      return days[i].dateString;
+    }
+  }
+
+  return null; // Doesn't finish within the forecast window
+};
+
+const rateLoad = (demand: number, capacity: number): FeasibilityStatus => {
+  if (demand > capacity) return 'impossible';
+  if (demand > capacity * AT_RISK_THRESHOLD) return 'at-risk';
+  return 'ok';
+};
+
+const worstStatus = (a: FeasibilityStatus, b: FeasibilityStatus): FeasibilityStatus => {
+  const rank: Record<FeasibilityStatus, number> = { ok: 0, 'at-risk': 1, impossible: 2 };
+  return rank[a] >= rank[b] ? a : b;
+};
+
+/**
+ * Forecast whether the work due by each dueDate can physically fit before it
+ *
+ * For every distinct dueDate, sums remaining minutes of one-off tasks due on or
+ * before it and compares that with the free time left between now and that date:
+ * wake windows minus Fixed tasks, committed blocks, protected time and recurring load,
+ * held to the daily and weekly domain caps.
+ */
+export const forecastDeadlines = async (): Promise<DeadlineForecast> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+
+  const activeTasks = await db.tasks
+    .filter(task => !task.archived && (task.status === 'todo' || task.status === 'doing'))
+    .toArray();
+
+  // Fixed tasks (imported meetings included) hold their set time rather than competing for free time
+  const fixedTasks = activeTasks.filter(task => task.recurrence === 'Once' && task.taskType === 'Fixed' && task.fixedStartTime);
+  const dueTasks = activeTasks.filter(task =>
+    task.recurrence === 'Once' && task.dueDate && task.id && !(task.taskType === 'Fixed' && task.fixedStartTime));
+  const projectTasks = activeTasks.filter(task => task.isProject && task.remainingMins > 0 && task.id);
+  const recurringTasks = activeTasks.filter(task => task.recurrence !== 'Once');
+  const exceptions = await getOccurrenceExceptions();
+
+  const today = getLogicalDate(prefs);
+  const todayString = toLocalDateString(today);
+
+  // Forecast window runs to the furthest dueDate (projects may need longer)
+  const latestDue = dueTasks.reduce((latest, task) => {
+    const due = toDateKey(task.dueDate!);
+    return due > latest ? due : latest;
+  }, todayString);
+  const daysToLatestDue = daysBetween(todayString, latestDue);
+  const windowDays = Math.min(MAX_FORECAST_DAYS, Math.max(daysToLatestDue, projectTasks.length > 0 ? 60 : 0) + 1);
+
+  const lastDate = new Date(today);
+  lastDate.setDate(today.getDate() + windowDays - 1);
+
+  // Committed blocks for other work - blocks for the forecast's own tasks are where that demand
+  // goes, and recurring and Fixed tasks are already counted
+  const countedTaskIds = new Set([...dueTasks, ...projectTasks, ...recurringTasks, ...fixedTasks].map(task => task.id!));
+  const taskDomains = new Map(activeTasks.map(task => [task.id!, task.domain]));
+  const committedBlocks = await db.dailyPlanTasks
+    .where('planDate')
+    .between(todayString, toLocalDateString(lastDate), true, true)
+    .and(block => !block.isDraft && !block.completed && block.blockType === 'task' && !!block.taskId &&
+      taskDomains.has(block.taskId) && !countedTaskIds.has(block.taskId))
+    .toArray();
+
+  const reserved: ReservedTime[] = [
+    ...fixedTasks.map(task => {
+      const start = new Date(task.fixedStartTime!);
+      return { start, end: new Date(start.getTime() + task.estimateMins * 60 * 1000), domain: task.domain };
+    }),
+    ...committedBlocks.map(block => ({
+      start: new Date(block.scheduledStartTime),
+      end: new Date(block.scheduledEndTime),
+      domain: taskDomains.get(block.taskId!)!
+    }))
+  ];
+
+  const dates: Date[] = [];
+  const days: DayCapacity[] = [];
+  for (let i = 0; i < windowDays; i++) {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    dates.push(date);
+    days.push(await getDayCapacity(prefs, date, i === 0, recurringTasks, exceptions, reserved));
+  }
+  applyWeeklyCaps(prefs, days, await getWeeklyUsage(today, undefined, false));
+
+  // Checkpoints per distinct dueDate, earliest first
+  const dueDates = Array.from(new Set(dueTasks.map(task => toDateKey(task.dueDate!)))).sort();
+  const checkpoints: DeadlineCheckpoint[] = [];
+
+  for (const dueDate of dueDates) {
+    const dueByDate = dueTasks.filter(task => toDateKey(task.dueDate!) <= dueDate);
+    const demandMinutes = dueByDate.reduce((sum, task) => sum + getRemainingMinutes(task), 0);
+    const daysThrough = days.filter(day => day.dateString <= dueDate);
+    const capacityMinutes = Math.round(daysThrough.reduce((sum, day) => sum + day.freeMinutes, 0));
+
+    let status: FeasibilityStatus = dueDate < todayString ? 'impossible' : rateLoad(demandMinutes, capacityMinutes);
+
+    const overloadedDomains: Domain[] = [];
+    for (const domain of DOMAINS) {
+      const domainDemand = dueByDate
+        .filter(task => task.domain === domain)
+        .reduce((sum, task) => sum + getRemainingMinutes(task), 0);
+      if (domainDemand === 0) continue;
+
+      const domainCapacity = daysThrough.reduce((sum, day) => sum + day.domainMinutes[domain], 0);
+      const domainStatus = rateLoad(domainDemand, domainCapacity);
+      if (domainStatus !== 'ok') {
+        overloadedDomains.push(domain);
+        status = worstStatus(status, domainStatus);
+      }
+    }
+
+    checkpoints.push({
+      dueDate,
+      demandMinutes,
+      capacityMinutes,
+      status,
+      overloadedDomains,
+      taskIds: dueTasks.filter(task => toDateKey(task.dueDate!) === dueDate).map(task => task.id!)
+    });
+  }
+
+  const tasks: Record<string, TaskForecast> = {};
+  for (const checkpoint of checkpoints) {
+    for (const taskId of checkpoint.taskIds) {
+      tasks[taskId] = { taskId, status: checkpoint.status, dueDate: checkpoint.dueDate, projectedCompletion: null };
+    }
+  }
+
+  // Projected completion for projects at their usual daily pace
+  if (projectTasks.length > 0) {
+    const lookbackStart = new Date(today);
+    lookbackStart.setDate(lookbackStart.getDate() - PACE_LOOKBACK_DAYS);
+    const projectIds = new Set(projectTasks.map(task => task.id!));
+
+    const recentSessions = await db.sessions
+      .where('startTime')
+      .above(lookbackStart.toISOString())
+      .and(session => session.completed === true && projectIds.has(session.taskId))
+      .toArray();
+
+    const sessionsByTask = new Map<string, { day: string; mins: number }[]>();
+    for (const session of recentSessions) {
+      const list = sessionsByTask.get(session.taskId) || [];
+      list.push({ day: toDateKey(session.startTime), mins: session.earnedMins || 0 });
+      sessionsByTask.set(session.taskId, list);
+    }
+
+    for (const task of projectTasks) {
+      const dailySlice = getUsualDailySlice(task, sessionsByTask);
+      const projectedCompletion = projectCompletionDate(task, dailySlice, days, dates);
+      const dueDate = task.dueDate ? toDateKey(task.dueDate) : null;
+
+      let status: FeasibilityStatus = tasks[task.id!]?.status || 'ok';
+      if (dueDate && (!projectedCompletion || projectedCompletion > dueDate)) {
+        // Current pace overshoots the deadline - only a bigger daily slice can save it
+        status = worstStatus(status, 'at-risk');
+      }
+
+      tasks[task.id!] = { taskId: task.id!, status, dueDate, projectedCompletion };
+    }
+  }
+
+  const flagged = checkpoints.filter(c => c.status !== 'ok');
+  console.log(`DEADLINE_FORECAST: ${checkpoints.length} due dates, ${flagged.length} flagged`, flagged.map(c => ({
+    dueDate: c.dueDate,
+    status: c.status,
+    demand: c.demandMinutes,
+    capacity: c.capacityMinutes,
+    domains: c.overloadedDomains
+  })));
+
+  return { checkpoints, tasks };
+};
@@ -0,0 +1,125 @@
+import { db, Task, TaskOccurrence, UserPrefs } from '../db/database';
+import { isTaskEligibleForDate } from './taskEligibility';
+import { OccurrenceExceptions, getOccurrenceExceptions } from './occurrenceLedger';
+import { getRecurrenceRule } from './recurrence';
+import { getLogicalDate, getLogicalDateString, getWakeWindow } from './wakeSchedule';
+import { addDays, fromLocalDateString, toDateKey, toLocalDateString } from './localDate';
+
+export const RATE_WINDOWS = [7, 30, 90] as const;
+export type RateWindow = typeof RATE_WINDOWS[number];
+
+export interface HabitStats {
+  task: Task;
+  currentStreak: number; // Scheduled occurrences done in a row, up to today
+  longestStreak: number; // Within the last HISTORY_DAYS
+  rates: Record<RateWindow, number | null>; // Share of scheduled occurrences done (null when none were scheduled)
+  dueToday: boolean;
+  doneToday: boolean;
+}
+
+// Streaks look back at most this far
+const HISTORY_DAYS = 365;
+
+// "Don't break the chain" warnings start this long before the wake day ends
+const CHAIN_WARNING_HOURS = 3;
+
+/**
+ * Streaks and completion rates for a calendar-based recurring task
+ *
+ * Expected occurrences are the days isTaskEligibleForDate puts the task on (skipped
+ * days don't count, moved ones count on their new day); completions come from the
+ * occurrence ledger. Days before the task's first ledger entry aren't counted, so
+ * habits from before the ledger existed start with a clean slate. Snoozing is ignored
+ * here - a snooze only says when to plan the task, not whether the habit was kept.
+ * Today counts once done; while it is still open it neither adds to nor breaks a streak.
+ */
+export const computeHabitStats = (
+  task: Task,
+  occurrences: TaskOccurrence[],
+  exceptions: OccurrenceExceptions,
+  todayKey: string
+): HabitStats => {
+  const doneDates = new Set(occurrences
+    .filter(occurrence => occurrence.status === 'done')
+    .map(occurrence => occurrence.movedTo ?? occurrence.date));
+  const unsnoozed = { ...task, snoozedUntil: null };
+  const isExpected = (date: string) => isTaskEligibleForDate(unsnoozed, fromLocalDateString(date), exceptions);
+
+  const today = fromLocalDateString(todayKey);
+  const earliest = toLocalDateString(addDays(today, -(HISTORY_DAYS - 1)));
+  const firstRecorded = occurrences.length > 0 ? occurrences[0].date : todayKey;
+  const historyStart = [earliest, firstRecorded, toDateKey(task.createdAt)].sort().pop()!;
+
+  // Oldest first: true = done, false = missed; unscheduled days and an open today are left out
+  const history: { date: string; done: boolean }[] = [];
+  for (let date = historyStart; date <= todayKey; date = toLocalDateString(addDays(fromLocalDateString(date), 1))) {
+    if (!isExpected(date)) continue;
+    const done = doneDates.has(date);
+    if (date === todayKey && !done) continue;
+    history.push({ date, done });
+  }
+
+  let longestStreak = 0;
+  let run = 0;
+  for (const { done } of history) {
+    run = done ? run + 1 : 0;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  const rates = {} as Record<RateWindow, number | null>;
+  for (const days of RATE_WINDOWS) {
+    const windowStart = toLocalDateString(addDays(today, -(days - 1)));
+    const inWindow = history.filter(entry => entry.date >= windowStart);
+    rates[days] = inWindow.length > 0 ? inWindow.filter(entry => entry.done).length / inWindow.length : null;
+  }
+
+  const dueToday = isExpected(todayKey);
+  return {
+    task,
+    currentStreak: run,
+    longestStreak,
+    rates,
+    dueToday,
+    doneToday: dueToday && doneDates.has(todayKey)
+  };
+};
+
+export const formatCompletionRate = (rate: number | null): string => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+/**
+ * Whether the wake day is close enough to its end that open habits need a nudge
+ */
+export const isLateInWakeDay = (prefs: UserPrefs, now: Date = new Date()): boolean => {
+  const { sleep } = getWakeWindow(prefs, getLogicalDate(prefs, now));
+  return now.getTime() >= sleep.getTime() - CHAIN_WARNING_HOURS * 60 * 60 * 1000;
+};
+
+/**
+ * Habits whose streak ends tonight unless today's occurrence gets done
+ */
+export const getChainsAtRisk = (stats: HabitStats[], prefs: UserPrefs, now: Date = new Date()): HabitStats[] => {
+  if (!isLateInWakeDay(prefs, now)) return [];
+  return stats.filter(stat => stat.dueToday && !stat.doneToday && stat.currentStreak > 0);
+};
+
+/**
+ * Stats for every active calendar-based recurring task, longest current streak first
+ * Repeat-after-completion chores have no fixed schedule to keep, so they are left out.
+ */
+export const getHabitStats = async (): Promise<HabitStats[]> => {
+  const prefs = await db.userPrefs.get(1);
+  const todayKey = prefs ? getLogicalDateString(prefs) : toLocalDateString(new Date());
+
+  const tasks = await db.tasks
+    .filter(task => task.status === 'todo' && task.recurrence !== 'Once' && !task.archived && !getRecurrenceRule(task)?.afterCompletion)
+    .toArray();
+  const exceptions = await getOccurrenceExceptions();
+  const occurrences = await db.taskOccurrences
+    .where('taskId')
+    .anyOf(tasks.map(task => task.id!))
+    .sortBy('date');
+
+  return tasks
+    .map(task => computeHabitStats(task, occurrences.filter(occurrence => occurrence.taskId === task.id), exceptions, todayKey))
+    .sort((a, b) => b.currentStreak - a.currentStreak || a.task.title.localeCompare(b.task.title));
+};
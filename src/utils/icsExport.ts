@@ -0,0 +1,176 @@
+import { db, CalendarExportOptions, DailyPlanTask, Task } from '../db/database';
+import { addDays, fromLocalDateString, getTodayString, toDateKey, toLocalDateString } from './localDate';
+
+const EXPORT_PAST_DAYS = 7; // Recent committed days stay visible in other calendars
+const UID_DOMAIN = 'rhythm-planner';
+const MAX_LINE_OCTETS = 75;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Escape TEXT values (RFC 5545 3.3.11)
+ */
+const escapeText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+/**
+ * Fold a content line at 75 octets without splitting a multi-byte character
+ */
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = textEncoder.encode(char).length;
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1; // Continuations start with a space
+    if (currentOctets + octets > limit) {
+      chunks.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatDateTime = (iso: string | Date): string => {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+const formatDate = (dateKey: string): string => dateKey.replace(/-/g, '');
+
+const getBlockTitle = (block: DailyPlanTask, task: Task | undefined): string => {
+  switch (block.blockType) {
+    case 'task': {
+      const slice = block.sliceNumber && task?.isProject ? ` (part ${block.sliceNumber})` : '';
+      return `${block.completed ? '✓ ' : ''}${task?.title || 'Task'}${slice}`;
+    }
+    case 'free':
+      return block.freeType ? `Free time (${block.freeType})` : 'Free time';
+    case 'rest':
+      return 'Rest';
+    case 'interruption':
+      return block.interruptionDomain ? `Interruption (${block.interruptionDomain})` : 'Interruption';
+    case 'transition':
+      return block.transitionKind === 'travel' ? 'Travel' : 'Transition';
+  }
+};
+
+/**
+ * UID that survives reflows: a task's block on a day keeps its UID when it moves
+ * (and when a draft becomes the committed plan), so re-imports update instead of duplicating.
+ * Other blocks are rebuilt on every reflow and use their own id.
+ */
+const getBlockUid = (block: DailyPlanTask): string => {
+  const key = block.blockType === 'task' && block.taskId
+    ? `${block.planDate}-${block.taskId}${block.sliceNumber ? `-${block.sliceNumber}` : ''}`
+    : `${block.planDate}-${block.blockType}-${block.id}`;
+  return `${key}@${UID_DOMAIN}`;
+};
+
+const buildEvent = (fields: [string, string][]): string[] => {
+  return ['BEGIN:VEVENT', ...fields.map(([name, value]) => foldLine(`${name}:${value}`)), 'END:VEVENT'];
+};
+
+/**
+ * Build an iCalendar file of the plan: committed blocks, future drafts and due dates
+ * Blocks of tasks imported from a calendar are left out - they already live there.
+ */
+export const buildPlanCalendar = async (options: CalendarExportOptions): Promise<{ ics: string; eventCount: number }> => {
+  const today = getTodayString();
+  const fromDate = toLocalDateString(addDays(fromLocalDateString(today), -EXPORT_PAST_DAYS));
+  const stamp = formatDateTime(new Date());
+  const sequence = String(Math.floor(Date.now() / 1000)); // Newer exports win when a calendar app re-imports
+
+  const tasksById = new Map((await db.tasks.toArray()).map(task => [task.id!, task]));
+  const blocks = await db.dailyPlanTasks
+    .where('planDate')
+    .aboveOrEqual(fromDate)
+    .and(block => options.blockTypes.includes(block.blockType))
+    .and(block => (block.isDraft ? options.includeDrafts && block.planDate >= today : true))
+    .toArray();
+  blocks.sort((a, b) => a.scheduledStartTime.localeCompare(b.scheduledStartTime));
+
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rhythm Planner//Plan Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Rhythm Planner'
+  ];
+  let eventCount = 0;
+
+  for (const block of blocks) {
+    const task = block.taskId ? tasksById.get(block.taskId) : undefined;
+    if (block.blockType === 'task' && (!task || task.icsUid)) continue;
+
+    const description = [
+      block.isDraft ? 'Draft - not yet committed' : null,
+      block.pinned ? 'Locked' : null,
+      task?.notes || null
+    ].filter(Boolean).join('\n');
+
+    lines.push(...buildEvent([
+      ['UID', getBlockUid(block)],
+      ['DTSTAMP', stamp],
+      ['SEQUENCE', sequence],
+      ['DTSTART', formatDateTime(block.scheduledStartTime)],
+      ['DTEND', formatDateTime(block.scheduledEndTime)],
+      ['SUMMARY', escapeText(getBlockTitle(block, task))],
+      ...(description ? [['DESCRIPTION', escapeText(description)] as [string, string]] : []),
+      ...(task || block.interruptionDomain ? [['CATEGORIES', escapeText(task?.domain || block.interruptionDomain!)] as [string, string]] : []),
+      ['STATUS', block.isDraft ? 'TENTATIVE' : 'CONFIRMED'],
+      ['TRANSP', block.blockType === 'task' || block.blockType === 'interruption' ? 'OPAQUE' : 'TRANSPARENT']
+    ]));
+    eventCount++;
+  }
+
+  if (options.includeDueDates) {
+    for (const task of tasksById.values()) {
+      const due = task.dueDate || task.deadline;
+      if (!due || task.archived || task.status === 'done' || task.icsUid) continue;
+
+      const dueKey = toDateKey(due);
+      if (dueKey < fromDate) continue;
+
+      lines.push(...buildEvent([
+        ['UID', `due-${task.id}@${UID_DOMAIN}`],
+        ['DTSTAMP', stamp],
+        ['SEQUENCE', sequence],
+        ['DTSTART;VALUE=DATE', formatDate(dueKey)],
+        ['DTEND;VALUE=DATE', formatDate(toLocalDateString(addDays(fromLocalDateString(dueKey), 1)))],
+        ['SUMMARY', escapeText(`Due: ${task.title}`)],
+        ['CATEGORIES', escapeText(task.domain)],
+        ['TRANSP', 'TRANSPARENT']
+      ]));
+      eventCount++;
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return { ics: lines.join('\r\n') + '\r\n', eventCount };
+};
+
+/**
+ * Download the plan as rhythm_plan_<date>.ics
+ */
+export const downloadPlanCalendar = async (options: CalendarExportOptions): Promise<number> => {
+  const { ics, eventCount } = await buildPlanCalendar(options);
+
+  const blob = new Blob([ics], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `rhythm_plan_${getTodayString()}.ics`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+
+  console.log(`ICS_EXPORT ${eventCount} events (${options.blockTypes.join(', ')})`);
+  return eventCount;
+};
@@ -0,0 +1,645 @@
+import { db, deleteTaskCascade, Domain, Task } from '../db/database';
+import { getLogicalDateString } from './wakeSchedule';
+import { addDays, fromLocalDateString, getTodayString } from './localDate';
+import { snapshotBeforeAction } from './localSnapshots';
+
+const IMPORT_HORIZON_DAYS = 60; // Occurrences further out are picked up by a later re-import
+const DEFAULT_EVENT_MINUTES = 30; // Events with neither DTEND nor DURATION
+const MAX_EXPANSION_DAYS = 366 * 20; // Safety limit when walking old recurring series
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']; // Index matches Date.getUTCDay()
+
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+interface IcsDateValue {
+  wall: WallTime;
+  tzid: string | null; // Wall time in this zone
+  utc: boolean; // Trailing Z
+  allDay: boolean; // VALUE=DATE
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count: number | null;
+  until: IcsDateValue | null;
+  byDay: { weekday: number; ordinal: number | null }[]; // weekday uses Date.getUTCDay() numbering
+  byMonthDay: number[];
+  byMonth: number[];
+  weekStart: number;
+}
+
+interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  start: IcsDateValue | null;
+  end: IcsDateValue | null;
+  durationMins: number | null;
+  rrule: RecurrenceRule | null;
+  exdates: IcsDateValue[];
+  recurrenceId: IcsDateValue | null; // Set on overrides of a single occurrence
+  cancelled: boolean;
+}
+
+export interface IcsOccurrence {
+  uid: string;
+  recurrenceId: string | null; // ISO start of the original occurrence, null for one-off events
+  title: string;
+  notes: string;
+  start: Date;
+  durationMins: number;
+}
+
+export interface IcsParseResult {
+  calendarName: string | null;
+  occurrences: IcsOccurrence[];
+  skippedAllDay: number;
+  warnings: string[];
+}
+
+export interface IcsImportResult {
+  source: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  skippedAllDay: number;
+  warnings: string[];
+}
+
+/**
+ * Undo RFC 5545 line folding: continuation lines start with a space or tab
+ */
+const unfoldLines = (text: string): string[] => {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (raw.length > 0) {
+      lines.push(raw);
+    }
+  }
+  return lines;
+};
+
+const unescapeText = (value: string): string => {
+  return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+/**
+ * Split "NAME;PARAM=x;PARAM2="a:b":value" into its parts (quoted params may contain colons)
+ */
+const parseContentLine = (line: string): { name: string; params: Record<string, string>; value: string } => {
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+
+  const head = colonIndex >= 0 ? line.slice(0, colonIndex) : line;
+  const value = colonIndex >= 0 ? line.slice(colonIndex + 1) : '';
+  const [name, ...paramParts] = head.split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const eq = part.indexOf('=');
+    if (eq > 0) {
+      params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+  return { name: name.toUpperCase(), params, value };
+};
+
+/**
+ * Parse a DATE or DATE-TIME value ("20250310", "20250310T090000", "20250310T090000Z")
+ */
+const parseDateValue = (value: string, params: Record<string, string>): IcsDateValue | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const allDay = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    wall: {
+      year: Number(match[1]),
+      month: Number(match[2]),
+      day: Number(match[3]),
+      hour: allDay ? 0 : Number(match[4]),
+      minute: allDay ? 0 : Number(match[5]),
+      second: allDay ? 0 : Number(match[6] || 0)
+    },
+    tzid: params.TZID || null,
+    utc: match[7] === 'Z',
+    allDay
+  };
+};
+
+/**
+ * Parse a DURATION value ("PT1H30M", "P1D", "P2W") into minutes
+ */
+const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, weeks, days, hours, minutes, seconds] = match.map(part => Number(part || 0));
+  return weeks * 7 * 24 * 60 + days * 24 * 60 + hours * 60 + minutes + Math.round(seconds / 60);
+};
+
+const parseWeekday = (code: string): number => WEEKDAY_CODES.indexOf(code.toUpperCase());
+
+const parseRecurrenceRule = (value: string, warnings: string[]): RecurrenceRule | null => {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq > 0) parts[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1);
+  }
+
+  const freq = parts.FREQ?.toUpperCase();
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') {
+    warnings.push(`Unsupported repeat frequency "${parts.FREQ}" - only the first occurrence was imported`);
+    return null;
+  }
+
+  for (const unsupported of ['BYSETPOS', 'BYHOUR', 'BYMINUTE', 'BYWEEKNO', 'BYYEARDAY']) {
+    if (parts[unsupported]) {
+      warnings.push(`Repeat rule part ${unsupported} is not supported and was ignored`);
+    }
+  }
+
+  const byDay = (parts.BYDAY ? parts.BYDAY.split(',') : [])
+    .map(code => code.trim().match(/^([+-]?\d+)?([A-Za-z]{2})$/))
+    .filter((match): match is RegExpMatchArray => match !== null && parseWeekday(match[2]) >= 0)
+    .map(match => ({ weekday: parseWeekday(match[2]), ordinal: match[1] ? Number(match[1]) : null }));
+
+  const toNumbers = (list?: string) => (list ? list.split(',').map(Number).filter(n => !isNaN(n) && n !== 0) : []);
+
+  return {
+    freq,
+    interval: Math.max(1, Number(parts.INTERVAL) || 1),
+    count: parts.COUNT ? Number(parts.COUNT) : null,
+    until: parts.UNTIL ? parseDateValue(parts.UNTIL, {}) : null,
+    byDay,
+    byMonthDay: toNumbers(parts.BYMONTHDAY),
+    byMonth: toNumbers(parts.BYMONTH),
+    weekStart: parts.WKST ? Math.max(0, parseWeekday(parts.WKST)) : 1
+  };
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Offset (ms) of a time zone from UTC at an instant
+ * Throws RangeError for zone names the browser does not know (e.g. Windows names)
+ */
+const getZoneOffset = (instantMs: number, tzid: string): number => {
+  let formatter = zoneFormatters.get(tzid);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: tzid,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    zoneFormatters.set(tzid, formatter);
+  }
+
+  const parts = formatter.formatToParts(new Date(instantMs));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value || 0);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour') % 24, get('minute'), get('second'));
+  return asUtc - instantMs;
+};
+
+/**
+ * Turn a wall-clock value into an instant
+ * Floating times and unknown zones are read as device-local time.
+ */
+const toInstant = (value: IcsDateValue): Date => {
+  const { year, month, day, hour, minute, second } = value.wall;
+  if (value.utc) {
+    return new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  }
+
+  if (value.tzid) {
+    try {
+      const guess = Date.UTC(year, month - 1, day, hour, minute, second);
+      let instant = guess - getZoneOffset(guess, value.tzid);
+      // Second pass settles times near a DST change
+      instant = guess - getZoneOffset(instant, value.tzid);
+      return new Date(instant);
+    } catch {
+      // Fall through to local time
+    }
+  }
+
+  return new Date(year, month - 1, day, hour, minute, second);
+};
+
+// Calendar arithmetic on wall dates, independent of the device's time zone
+const toDayNumber = (wall: WallTime): number => Math.floor(Date.UTC(wall.year, wall.month - 1, wall.day) / MS_PER_DAY);
+const fromDayNumber = (dayNumber: number, time: WallTime): WallTime => {
+  const date = new Date(dayNumber * MS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: time.hour,
+    minute: time.minute,
+    second: time.second
+  };
+};
+const getWeekday = (dayNumber: number): number => new Date(dayNumber * MS_PER_DAY).getUTCDay();
+const getDaysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * Whether a day (other than DTSTART itself) is an occurrence of the rule
+ */
+const matchesRule = (rule: RecurrenceRule, start: WallTime, dayNumber: number): boolean => {
+  const startDay = toDayNumber(start);
+  const wall = fromDayNumber(dayNumber, start);
+  const weekday = getWeekday(dayNumber);
+  const daysInMonth = getDaysInMonth(wall.year, wall.month);
+
+  if (rule.byMonth.length > 0 && !rule.byMonth.includes(wall.month)) return false;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      if ((dayNumber - startDay) % rule.interval !== 0) return false;
+      break;
+    case 'WEEKLY': {
+      const weekOffset = (getWeekday(startDay) - rule.weekStart + 7) % 7;
+      const weekIndex = Math.floor((dayNumber - (startDay - weekOffset)) / 7);
+      if (weekIndex % rule.interval !== 0) return false;
+      break;
+    }
+    case 'MONTHLY':
+      if (((wall.year - start.year) * 12 + (wall.month - start.month)) % rule.interval !== 0) return false;
+      break;
+    case 'YEARLY':
+      if ((wall.year - start.year) % rule.interval !== 0) return false;
+      break;
+  }
+
+  const monthDayMatches = rule.byMonthDay.some(monthDay =>
+    monthDay > 0 ? wall.day === monthDay : wall.day === daysInMonth + monthDay + 1
+  );
+
+  // "2TU" = second Tuesday of the month, "-1FR" = last Friday
+  const weekdayMatches = rule.byDay.some(({ weekday: ruleWeekday, ordinal }) => {
+    if (ruleWeekday !== weekday) return false;
+    if (ordinal === null || rule.freq === 'DAILY' || rule.freq === 'WEEKLY') return true;
+    return ordinal > 0
+      ? Math.ceil(wall.day / 7) === ordinal
+      : Math.ceil((daysInMonth - wall.day + 1) / 7) === -ordinal;
+  });
+
+  if (rule.byMonthDay.length > 0 && !monthDayMatches) return false;
+  if (rule.byDay.length > 0 && !weekdayMatches) return false;
+  if (rule.byMonthDay.length > 0 || rule.byDay.length > 0) return true;
+
+  // No BYDAY/BYMONTHDAY: repeat on DTSTART's weekday or day of month
+  switch (rule.freq) {
+    case 'DAILY':
+      return true;
+    case 'WEEKLY':
+      return weekday === getWeekday(startDay);
+    case 'MONTHLY':
+      return wall.day === start.day;
+    case 'YEARLY':
+      return wall.day === start.day && (rule.byMonth.length > 0 || wall.month === start.month);
+  }
+};
+
+/**
+ * Read VEVENTs from an iCalendar file
+ */
+const parseEvents = (text: string, warnings: string[]): { calendarName: string | null; events: IcsEvent[] } => {
+  const events: IcsEvent[] = [];
+  let calendarName: string | null = null;
+  let current: IcsEvent | null = null;
+  let nestedDepth = 0; // VALARM and friends inside a VEVENT
+
+  for (const line of unfoldLines(text)) {
+    const { name, params, value } = parseContentLine(line);
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT' && !current) {
+        current = {
+          uid: '',
+          summary: '',
+          description: '',
+          location: '',
+          start: null,
+          end: null,
+          durationMins: null,
+          rrule: null,
+          exdates: [],
+          recurrenceId: null,
+          cancelled: false
+        };
+      } else if (current) {
+        nestedDepth++;
+      }
+      continue;
+    }
+
+    if (name === 'END') {
+      if (current && nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value.toUpperCase() === 'VEVENT') {
+        if (current.uid && current.start) {
+          events.push(current);
+        } else {
+          warnings.push(`Skipped an event without UID or start time${current.summary ? ` ("${current.summary}")` : ''}`);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current) {
+      if (name === 'X-WR-CALNAME' && value.trim()) calendarName = unescapeText(value.trim());
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(value).trim();
+        break;
+      case 'LOCATION':
+        current.location = unescapeText(value).trim();
+        break;
+      case 'DTSTART':
+        current.start = parseDateValue(value, params);
+        break;
+      case 'DTEND':
+        current.end = parseDateValue(value, params);
+        break;
+      case 'DURATION':
+        current.durationMins = parseDuration(value);
+        break;
+      case 'RRULE':
+        current.rrule = parseRecurrenceRule(value, warnings);
+        break;
+      case 'EXDATE':
+        for (const part of value.split(',')) {
+          const exdate = parseDateValue(part, params);
+          if (exdate) current.exdates.push(exdate);
+        }
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = parseDateValue(value, params);
+        break;
+      case 'STATUS':
+        current.cancelled = value.trim().toUpperCase() === 'CANCELLED';
+        break;
+    }
+  }
+
+  return { calendarName, events };
+};
+
+const getEventMinutes = (event: IcsEvent): number => {
+  if (event.end && event.start) {
+    const minutes = Math.round((toInstant(event.end).getTime() - toInstant(event.start).getTime()) / 60000);
+    if (minutes > 0) return minutes;
+  }
+  if (event.durationMins && event.durationMins > 0) return event.durationMins;
+  return DEFAULT_EVENT_MINUTES;
+};
+
+const toOccurrence = (event: IcsEvent, start: Date, recurrenceId: string | null, durationMins: number): IcsOccurrence => ({
+  uid: event.uid,
+  recurrenceId,
+  title: event.summary || '(No title)',
+  notes: [event.location && `📍 ${event.location}`, event.description].filter(Boolean).join('\n'),
+  start,
+  durationMins
+});
+
+/**
+ * Original start times of a recurring event, from DTSTART up to rangeEnd
+ * COUNT and UNTIL apply before EXDATE, as in RFC 5545.
+ */
+const expandRecurrence = (event: IcsEvent, rangeEnd: Date): Date[] => {
+  const rule = event.rrule!;
+  const start = event.start!;
+  const startDay = toDayNumber(start.wall);
+  const until = rule.until ? toInstant(rule.until) : null;
+  const untilDay = rule.until?.allDay ? toDayNumber(rule.until.wall) : null;
+  const timedExdates = event.exdates.filter(exdate => !exdate.allDay);
+  const excluded = new Set(timedExdates.map(exdate => toInstant({ ...exdate, tzid: exdate.tzid || start.tzid }).getTime()));
+  const excludedDays = new Set(event.exdates.filter(exdate => exdate.allDay).map(exdate => toDayNumber(exdate.wall)));
+
+  const starts: Date[] = [];
+  let produced = 0;
+
+  for (let dayNumber = startDay; dayNumber - startDay < MAX_EXPANSION_DAYS; dayNumber++) {
+    if (dayNumber !== startDay && !matchesRule(rule, start.wall, dayNumber)) continue;
+
+    const instant = toInstant({ ...start, wall: fromDayNumber(dayNumber, start.wall) });
+    if (instant >= rangeEnd) break;
+    if (untilDay !== null ? dayNumber > untilDay : until && instant > until) break;
+    if (rule.count !== null && produced >= rule.count) break;
+
+    produced++;
+    if (!excluded.has(instant.getTime()) && !excludedDays.has(dayNumber)) starts.push(instant);
+  }
+
+  return starts;
+};
+
+/**
+ * Parse an iCalendar file into timed occurrences between rangeStart and rangeEnd
+ * Recurring events are expanded; RECURRENCE-ID overrides replace (or cancel) single occurrences.
+ * All-day events are counted but not returned - they have no time to pin a Fixed task to.
+ */
+export const parseIcsCalendar = (text: string, rangeStart: Date, rangeEnd: Date): IcsParseResult => {
+  const warnings: string[] = [];
+  const { calendarName, events } = parseEvents(text, warnings);
+
+  const inRange = (start: Date) => start >= rangeStart && start < rangeEnd;
+  const overrides = events.filter(event => event.recurrenceId);
+  const overriddenIds = new Set(overrides.map(event => `${event.uid}|${toInstant(event.recurrenceId!).toISOString()}`));
+  const allDayUids = new Set<string>();
+  const occurrences: IcsOccurrence[] = [];
+
+  for (const event of events) {
+    if (event.start!.allDay) {
+      allDayUids.add(event.uid);
+      continue;
+    }
+
+    if (event.recurrenceId) {
+      if (event.cancelled) continue;
+      const start = toInstant(event.start!);
+      if (inRange(start)) {
+        occurrences.push(toOccurrence(event, start, toInstant(event.recurrenceId).toISOString(), getEventMinutes(event)));
+      }
+      continue;
+    }
+
+    if (event.cancelled) continue;
+
+    const durationMins = getEventMinutes(event);
+    if (!event.rrule) {
+      const start = toInstant(event.start!);
+      if (inRange(start)) occurrences.push(toOccurrence(event, start, null, durationMins));
+      continue;
+    }
+
+    for (const start of expandRecurrence(event, rangeEnd)) {
+      const recurrenceId = start.toISOString();
+      if (!inRange(start) || overriddenIds.has(`${event.uid}|${recurrenceId}`)) continue;
+      occurrences.push(toOccurrence(event, start, recurrenceId, durationMins));
+    }
+  }
+
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return { calendarName, occurrences, skippedAllDay: allDayUids.size, warnings: Array.from(new Set(warnings)) };
+};
+
+const getOccurrenceKey = (uid: string, recurrenceId: string | null | undefined) => `${uid}|${recurrenceId || ''}`;
+
+/**
+ * Import an .ics file as Fixed tasks in one domain
+ *
+ * Re-importing the same calendar updates tasks matched by UID (and occurrence),
+ * and removes upcoming unfinished tasks whose events were deleted or cancelled.
+ * Past and completed imports are left alone.
+ */
+export const importIcsCalendar = async (text: string, fileName: string, domain: Domain): Promise<IcsImportResult> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+
+  const rangeStart = fromLocalDateString(getTodayString());
+  const rangeEnd = addDays(rangeStart, IMPORT_HORIZON_DAYS);
+  const parsed = parseIcsCalendar(text, rangeStart, rangeEnd);
+  const source = parsed.calendarName || fileName;
+
+  // Re-imports update and delete tasks
+  await snapshotBeforeAction('calendarImport', source);
+
+  const uids = Array.from(new Set(parsed.occurrences.map(occurrence => occurrence.uid)));
+  const result: IcsImportResult = {
+    source,
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    skippedAllDay: parsed.skippedAllDay,
+    warnings: parsed.warnings
+  };
+
+  await db.transaction('rw', [db.tasks, db.sessions, db.dailyPlanTasks, db.taskOccurrences], async () => {
+    const byUid = uids.length > 0 ? await db.tasks.where('icsUid').anyOf(uids).toArray() : [];
+    const bySource = await db.tasks.filter(task => task.icsSource === source).toArray();
+    const existing = new Map<string, Task>();
+    for (const task of [...byUid, ...bySource]) {
+      existing.set(getOccurrenceKey(task.icsUid!, task.icsRecurrenceId), task);
+    }
+
+    const seen = new Set<string>();
+
+    for (const occurrence of parsed.occurrences) {
+      const key = getOccurrenceKey(occurrence.uid, occurrence.recurrenceId);
+      seen.add(key);
+
+      const fields = {
+        title: occurrence.title,
+        notes: occurrence.notes,
+        domain,
+        estimateMins: occurrence.durationMins,
+        fixedStartTime: occurrence.start.toISOString(),
+        startDate: getLogicalDateString(prefs, occurrence.start)
+      };
+
+      const task = existing.get(key);
+      if (!task) {
+        await db.tasks.add({
+          id: crypto.randomUUID(),
+          ...fields,
+          priority: 'Medium',
+          energy: 'Medium',
+          deadline: null,
+          dueDate: null,
+          recurrence: 'Once',
+          daysOfWeek: [],
+          weeklyDay: null,
+          status: 'todo',
+          dread: 0,
+          snoozedUntil: null,
+          subtasks: [],
+          createdAt: new Date().toISOString(),
+          assignedDate: null,
+          lastCompletedAt: null,
+          archived: false,
+          completedAt: null,
+          isProject: false,
+          totalEstimateMins: occurrence.durationMins,
+          remainingMins: occurrence.durationMins,
+          preferredSliceSize: 30,
+          taskType: 'Fixed',
+          eligibleStartTime: null,
+          mustFinishByTime: null,
+          chunkPreference: null,
+          icsUid: occurrence.uid,
+          icsRecurrenceId: occurrence.recurrenceId,
+          icsSource: source
+        });
+        result.added++;
+        continue;
+      }
+
+      const changed = (Object.keys(fields) as (keyof typeof fields)[]).some(field => task[field] !== fields[field]);
+      if (!changed) {
+        result.unchanged++;
+        continue;
+      }
+
+      await db.tasks.update(task.id!, { ...fields, icsSource: source });
+      if (task.fixedStartTime !== fields.fixedStartTime) {
+        // Blocks at the old time are stale - the next reflow places the meeting at its new time
+        await db.dailyPlanTasks.where('taskId').equals(task.id!).and(block => !block.completed).delete();
+      }
+      result.updated++;
+    }
+
+    for (const [key, task] of existing) {
+      if (seen.has(key) || task.status === 'done' || task.archived) continue;
+      if (!task.fixedStartTime || new Date(task.fixedStartTime) < rangeStart) continue;
+
+      await deleteTaskCascade(task.id!);
+      result.removed++;
+    }
+  });
+
+  console.log(
+    `ICS_IMPORT "${source}" -> ${domain}: ${result.added} added, ${result.updated} updated, ` +
+    `${result.removed} removed, ${result.unchanged} unchanged, ${result.skippedAllDay} all-day skipped`
+  );
+  return result;
+};
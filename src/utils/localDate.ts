@@ -0,0 +1,94 @@
+/**
+ * Local calendar dates
+ *
+ * planDate, assignedDate, dueDate and startDate are all YYYY-MM-DD keys in the
+ * user's local calendar. Never derive them with toISOString(), which gives the
+ * UTC date and flips to tomorrow in the evening west of Greenwich.
+ */
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIMEZONE_STORAGE_KEY = 'rhythmPlanner_timeZone';
+
+/**
+ * Calendar date (YYYY-MM-DD) in the local timezone
+ */
+export const toLocalDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Local midnight for a YYYY-MM-DD string
+ */
+export const fromLocalDateString = (dateString: string): Date => {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Today's calendar date in the local timezone
+ */
+export const getTodayString = (): string => toLocalDateString(new Date());
+
+/**
+ * Date key for a stored value: date-only strings pass through unchanged,
+ * ISO datetimes (snoozedUntil, lastCompletedAt) become the local date of that instant
+ */
+export const toDateKey = (value: string): string => {
+  if (DATE_ONLY_PATTERN.test(value)) return value;
+  return toLocalDateString(new Date(value));
+};
+
+/**
+ * Copy of a date moved by whole calendar days (DST-safe)
+ */
+export const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * Whole calendar days from one date key to another
+ */
+export const daysBetween = (fromDateString: string, toDateString: string): number => {
+  const from = fromLocalDateString(fromDateString);
+  const to = fromLocalDateString(toDateString);
+  return Math.round((to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+};
+
+export interface TimeZoneChange {
+  previousZone: string;
+  currentZone: string;
+  previousOffsetMinutes: number;
+  currentOffsetMinutes: number;
+}
+
+/**
+ * Compare the device timezone with the one seen last launch and remember the current one
+ * Returns the change when the user has travelled (or the device zone was changed)
+ */
+export const detectTimeZoneChange = (): TimeZoneChange | null => {
+  const currentZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const currentOffsetMinutes = -new Date().getTimezoneOffset();
+  const stored = localStorage.getItem(TIMEZONE_STORAGE_KEY);
+  localStorage.setItem(TIMEZONE_STORAGE_KEY, JSON.stringify({ zone: currentZone, offsetMinutes: currentOffsetMinutes }));
+
+  if (!stored) return null;
+
+  try {
+    const previous = JSON.parse(stored) as { zone: string; offsetMinutes: number };
+    if (previous.zone === currentZone) return null;
+    return {
+      previousZone: previous.zone,
+      currentZone,
+      previousOffsetMinutes: previous.offsetMinutes,
+      currentOffsetMinutes
+    };
+  } catch (error) {
+    console.error('Failed to read stored timezone:', error);
+    return null;
+  }
+};
@@ -0,0 +1,168 @@
+import Dexie, { Table } from 'dexie';
+import { db } from '../db/database';
+import { BackupFile, createBackup, loadBackup, restoreBackup } from './backup';
+import { getTodayString, toLocalDateString } from './localDate';
+
+export type SnapshotReason = 'daily' | 'schemaUpgrade' | 'deleteTask' | 'calendarImport' | 'beforeRestore' | 'manual';
+
+export interface LocalSnapshot {
+  id: string;
+  createdAt: string; // ISO datetime
+  reason: SnapshotReason;
+  note: string; // e.g. the deleted task's title
+  counts: { tasks: number; sessions: number; dailyPlanTasks: number };
+  backup: BackupFile;
+}
+
+// Snapshots kept per reason - older ones are pruned after each new snapshot
+const RETENTION: Record<SnapshotReason, number> = {
+  daily: 7,
+  schemaUpgrade: 3,
+  deleteTask: 10,
+  calendarImport: 5,
+  beforeRestore: 5,
+  manual: 5
+};
+
+// Destructive actions in quick succession share one snapshot
+const ACTION_THROTTLE_MINUTES = 5;
+
+/**
+ * Snapshots live in their own database so a broken migration or a restore
+ * of the app database cannot touch them
+ */
+class SnapshotDB extends Dexie {
+  snapshots!: Table<LocalSnapshot, string>;
+
+  constructor() {
+    super('RhythmPlannerSnapshots');
+
+    // Version 1: Rolling snapshots of RhythmPlannerDB
+    this.version(1).stores({
+      snapshots: 'id, createdAt, reason'
+    });
+  }
+}
+
+const snapshotDb = new SnapshotDB();
+
+const generateId = () => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const saveSnapshot = async (backup: BackupFile, reason: SnapshotReason, note: string): Promise<LocalSnapshot> => {
+  const snapshot: LocalSnapshot = {
+    id: generateId(),
+    createdAt: new Date().toISOString(),
+    reason,
+    note,
+    counts: {
+      tasks: backup.tables.tasks.length,
+      sessions: backup.tables.sessions.length,
+      dailyPlanTasks: backup.tables.dailyPlanTasks.length
+    },
+    backup
+  };
+
+  await snapshotDb.snapshots.add(snapshot);
+  await pruneSnapshots(reason);
+  console.log(`LOCAL_SNAPSHOT ${reason}${note ? ` (${note})` : ''}: ${snapshot.counts.tasks} tasks, ${snapshot.counts.sessions} sessions`);
+  return snapshot;
+};
+
+const pruneSnapshots = async (reason: SnapshotReason): Promise<void> => {
+  const ids = (await snapshotDb.snapshots.where('reason').equals(reason).sortBy('createdAt')).map(snapshot => snapshot.id);
+  const excess = ids.slice(0, Math.max(0, ids.length - RETENTION[reason]));
+  if (excess.length > 0) {
+    await snapshotDb.snapshots.bulkDelete(excess);
+  }
+};
+
+/**
+ * Snapshot the app database now
+ */
+export const takeSnapshot = async (reason: SnapshotReason, note = ''): Promise<LocalSnapshot> => {
+  return saveSnapshot(await createBackup(), reason, note);
+};
+
+/**
+ * Snapshot before a destructive action (deleting a task, importing a calendar, restoring)
+ * Skipped when another snapshot was taken in the last few minutes - it already holds the data.
+ * Never throws: a failed snapshot must not block the action the user asked for.
+ */
+export const snapshotBeforeAction = async (reason: SnapshotReason, note = ''): Promise<void> => {
+  try {
+    const latest = await snapshotDb.snapshots.orderBy('createdAt').last();
+    if (latest && Date.now() - new Date(latest.createdAt).getTime() < ACTION_THROTTLE_MINUTES * 60 * 1000) {
+      return;
+    }
+    await takeSnapshot(reason, note);
+  } catch (error) {
+    console.error('Error taking snapshot:', error);
+  }
+};
+
+/**
+ * One snapshot per calendar day, taken when the app opens
+ */
+export const takeDailySnapshot = async (): Promise<void> => {
+  try {
+    const latestDaily = (await snapshotDb.snapshots.where('reason').equals('daily').sortBy('createdAt')).pop();
+    if (latestDaily && toLocalDateString(new Date(latestDaily.createdAt)) === getTodayString()) {
+      return;
+    }
+    await takeSnapshot('daily');
+  } catch (error) {
+    console.error('Error taking daily snapshot:', error);
+  }
+};
+
+/**
+ * Copy the database before Dexie runs schema upgrades
+ * Must run before anything opens the app database: it reads the installed
+ * version in dynamic mode and snapshots it when the code's schema is newer.
+ */
+export const snapshotBeforeSchemaUpgrade = async (): Promise<void> => {
+  try {
+    if (!(await Dexie.exists(db.name))) return;
+
+    const installed = new Dexie(db.name);
+    await installed.open();
+    try {
+      if (installed.verno >= db.verno) return;
+      const backup = await createBackup(installed);
+      await saveSnapshot(backup, 'schemaUpgrade', `v${installed.verno} → v${db.verno}`);
+    } finally {
+      installed.close();
+    }
+  } catch (error) {
+    console.error('Error taking pre-upgrade snapshot:', error);
+  }
+};
+
+/**
+ * All snapshots, newest first
+ */
+export const listSnapshots = async (): Promise<LocalSnapshot[]> => {
+  return snapshotDb.snapshots.orderBy('createdAt').reverse().toArray();
+};
+
+export const deleteSnapshot = async (id: string): Promise<void> => {
+  await snapshotDb.snapshots.delete(id);
+};
+
+/**
+ * Roll the app database back to a snapshot
+ * The current data is snapshotted first, so a rollback can itself be undone.
+ */
+export const restoreSnapshot = async (id: string): Promise<void> => {
+  const snapshot = await snapshotDb.snapshots.get(id);
+  if (!snapshot) {
+    throw new Error('Snapshot not found');
+  }
+
+  const { backup } = loadBackup(snapshot.backup);
+  await takeSnapshot('beforeRestore', new Date(snapshot.createdAt).toLocaleString());
+  await restoreBackup(backup, 'replace');
+  console.log(`LOCAL_SNAPSHOT_RESTORE ${snapshot.reason} from ${snapshot.createdAt}`);
+};
@@ -0,0 +1,249 @@
+import { db, RecurrenceRule, Task, TaskOccurrence } from '../db/database';
+import { getCompletionDueDate, getIntervalDays, getRecurrenceRule, occursOn } from './recurrence';
+import { addDays, fromLocalDateString, toDateKey, toLocalDateString } from './localDate';
+import { getLogicalDateString } from './wakeSchedule';
+
+/**
+ * Occurrence ledger for recurring tasks
+ *
+ * A recurring task is one Task row; the ledger keeps one TaskOccurrence per due date
+ * saying whether it was done, skipped, missed or moved to another day. Skips and moves
+ * are exceptions to the recurrence rule that eligibility honors.
+ */
+
+// Skipped or moved occurrences, grouped by task id
+export type OccurrenceExceptions = Map<string, TaskOccurrence[]>;
+
+// How far back missed occurrences are filled in for a task with no history yet
+const MISSED_LOOKBACK_DAYS = 30;
+
+export const getOccurrenceId = (taskId: string, date: string) => `${taskId}:${date}`;
+
+const nextDay = (dateKey: string, days = 1) => toLocalDateString(addDays(fromLocalDateString(dateKey), days));
+
+const isException = (occurrence: TaskOccurrence) => occurrence.status === 'skipped' || occurrence.movedTo !== null;
+
+// A task assigned to the day its occurrence leaves is taken off that day's plan
+const releaseAssignedDate = async (task: Task, date: string) => {
+  if (task.id && task.assignedDate === date) {
+    await db.tasks.update(task.id, { assignedDate: null });
+  }
+};
+
+/**
+ * Every skip and move, for passing to isTaskEligibleForDate while planning
+ */
+export const getOccurrenceExceptions = async (): Promise<OccurrenceExceptions> => {
+  const exceptions: OccurrenceExceptions = new Map();
+  const occurrences = await db.taskOccurrences.filter(isException).toArray();
+  for (const occurrence of occurrences) {
+    const list = exceptions.get(occurrence.taskId) || [];
+    list.push(occurrence);
+    exceptions.set(occurrence.taskId, list);
+  }
+  return exceptions;
+};
+
+export const getTaskExceptions = (task: Task, exceptions?: OccurrenceExceptions): TaskOccurrence[] => {
+  return (task.id && exceptions?.get(task.id)) || [];
+};
+
+/**
+ * Whether a skip or move takes the occurrence on this date off its day
+ */
+export const isOccurrenceRemoved = (exceptions: TaskOccurrence[], date: string): boolean => {
+  return exceptions.some(occurrence => occurrence.date === date && isException(occurrence));
+};
+
+/**
+ * Whether an occurrence from another day was moved onto this date
+ */
+export const isOccurrenceMovedTo = (exceptions: TaskOccurrence[], date: string): boolean => {
+  return exceptions.some(occurrence => occurrence.movedTo === date);
+};
+
+/**
+ * Due date of an after-completion task with skips and moves applied
+ * Skipping the due date restarts the countdown from that day (or from the day it was
+ * skipped, when skipped while overdue); moving it makes the new day the due date.
+ */
+export const getAdjustedCompletionDueDate = (
+  rule: RecurrenceRule,
+  lastCompletedAt: string | null,
+  exceptions: TaskOccurrence[]
+): string => {
+  let dueDate = getCompletionDueDate(rule, lastCompletedAt);
+  for (let i = 0; i < exceptions.length; i++) {
+    const occurrence = exceptions.find(exception => exception.date === dueDate);
+    if (!occurrence) break;
+    const skippedOn = toDateKey(occurrence.updatedAt);
+    dueDate = occurrence.movedTo ?? getCompletionDueDate(rule, skippedOn > occurrence.date ? skippedOn : occurrence.date);
+  }
+  return dueDate;
+};
+
+export const getTaskOccurrences = async (taskId: string): Promise<TaskOccurrence[]> => {
+  return db.taskOccurrences.where('taskId').equals(taskId).sortBy('date');
+};
+
+/**
+ * The due date a completion on completedKey settles
+ *
+ * A moved occurrence is settled on the day it was moved to. After-completion tasks settle
+ * their current due date (or the completion day when done early). Calendar tasks settle the
+ * occurrence on that day, else the latest open one within the last interval, else the
+ * completion day itself (done off-schedule).
+ */
+const getCompletedOccurrenceDate = (
+  task: Task,
+  rule: RecurrenceRule,
+  completedKey: string,
+  occurrences: TaskOccurrence[]
+): string => {
+  const moved = occurrences.find(occurrence => occurrence.movedTo === completedKey && occurrence.status !== 'done');
+  if (moved) return moved.date;
+
+  if (rule.afterCompletion) {
+    const dueDate = getAdjustedCompletionDueDate(rule, task.lastCompletedAt, occurrences.filter(isException));
+    return dueDate <= completedKey ? dueDate : completedKey;
+  }
+
+  const settled = new Set(occurrences.filter(occurrence => occurrence.status !== 'missed').map(occurrence => occurrence.date));
+  for (let offset = 0; offset < getIntervalDays(rule); offset++) {
+    const date = nextDay(completedKey, -offset);
+    if (occursOn(rule, date) && !settled.has(date)) return date;
+  }
+  return completedKey;
+};
+
+/**
+ * Record a completion of a recurring task in the ledger
+ * Pass the task as it was before lastCompletedAt was updated.
+ */
+export const recordOccurrenceDone = async (task: Task, completedAt: string, completedKey: string): Promise<void> => {
+  const rule = getRecurrenceRule(task);
+  if (!task.id || !rule) return;
+
+  const occurrences = await getTaskOccurrences(task.id);
+  const date = getCompletedOccurrenceDate(task, rule, completedKey, occurrences);
+  const existing = occurrences.find(occurrence => occurrence.date === date);
+
+  await db.taskOccurrences.put({
+    id: getOccurrenceId(task.id, date),
+    taskId: task.id,
+    date,
+    status: 'done',
+    movedTo: existing?.movedTo ?? null,
+    completedAt,
+    updatedAt: new Date().toISOString()
+  });
+  console.log(`OCCURRENCE_DONE ${task.title} ${date}${date !== completedKey ? ` (completed ${completedKey})` : ''}`);
+};
+
+/**
+ * Skip just this occurrence - the rest of the series is unchanged
+ */
+export const skipOccurrence = async (task: Task, date: string): Promise<void> => {
+  if (!task.id) return;
+  await db.taskOccurrences.put({
+    id: getOccurrenceId(task.id, date),
+    taskId: task.id,
+    date,
+    status: 'skipped',
+    movedTo: null,
+    completedAt: null,
+    updatedAt: new Date().toISOString()
+  });
+  await releaseAssignedDate(task, date);
+  console.log(`OCCURRENCE_SKIPPED ${task.title} ${date}`);
+};
+
+/**
+ * Move just this occurrence to another day
+ */
+export const moveOccurrence = async (task: Task, date: string, movedTo: string): Promise<void> => {
+  if (!task.id) return;
+  if (movedTo === date) {
+    throw new Error('Pick a different day to move this occurrence to');
+  }
+  await db.taskOccurrences.put({
+    id: getOccurrenceId(task.id, date),
+    taskId: task.id,
+    date,
+    status: 'rescheduled',
+    movedTo,
+    completedAt: null,
+    updatedAt: new Date().toISOString()
+  });
+  await releaseAssignedDate(task, date);
+  console.log(`OCCURRENCE_MOVED ${task.title} ${date} -> ${movedTo}`);
+};
+
+/**
+ * Undo a skip or move, putting the occurrence back on its own day
+ */
+export const restoreOccurrence = async (task: Task, date: string): Promise<void> => {
+  if (!task.id) return;
+  await db.taskOccurrences.delete(getOccurrenceId(task.id, date));
+  console.log(`OCCURRENCE_RESTORED ${task.title} ${date}`);
+};
+
+/**
+ * Mark past occurrences of calendar-based recurring tasks that were never done as missed,
+ * and moved occurrences whose new day has passed
+ *
+ * Starts after the task's latest past entry (or its last completion / creation for tasks
+ * with no history) and looks back at most MISSED_LOOKBACK_DAYS. After-completion tasks
+ * are never missed - they stay due until done.
+ */
+export const recordMissedOccurrences = async (): Promise<number> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) return 0;
+
+  const todayKey = getLogicalDateString(prefs);
+  const tasks = await db.tasks
+    .filter(task => task.status === 'todo' && task.recurrence !== 'Once' && !task.archived)
+    .toArray();
+  const now = new Date().toISOString();
+  const lookbackStart = nextDay(todayKey, -MISSED_LOOKBACK_DAYS);
+  const missed: TaskOccurrence[] = [];
+
+  for (const task of tasks) {
+    const rule = getRecurrenceRule(task);
+    if (!task.id || !rule || rule.afterCompletion) continue;
+
+    const occurrences = await getTaskOccurrences(task.id);
+    for (const occurrence of occurrences) {
+      if (occurrence.status === 'rescheduled' && occurrence.movedTo && occurrence.movedTo < todayKey) {
+        missed.push({ ...occurrence, status: 'missed', updatedAt: now });
+      }
+    }
+
+    const recorded = new Set(occurrences.map(occurrence => occurrence.date));
+    const pastDates = occurrences.map(occurrence => occurrence.date).filter(date => date < todayKey);
+    const historyStart = pastDates.length > 0
+      ? nextDay(pastDates[pastDates.length - 1])
+      : task.lastCompletedAt ? nextDay(toDateKey(task.lastCompletedAt)) : toDateKey(task.createdAt);
+    let date = [historyStart, lookbackStart, rule.anchor, task.startDate ? toDateKey(task.startDate) : ''].sort().pop()!;
+
+    for (; date < todayKey; date = nextDay(date)) {
+      if (!recorded.has(date) && occursOn(rule, date)) {
+        missed.push({
+          id: getOccurrenceId(task.id, date),
+          taskId: task.id,
+          date,
+          status: 'missed',
+          movedTo: null,
+          completedAt: null,
+          updatedAt: now
+        });
+      }
+    }
+  }
+
+  if (missed.length > 0) {
+    await db.taskOccurrences.bulkPut(missed);
+    console.log(`OCCURRENCES_MISSED ${missed.length}`);
+  }
+  return missed.length;
+};
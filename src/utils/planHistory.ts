@@ -0,0 +1,155 @@
+import { db, DailyPlanTask, PlanSnapshot, ReflowReason } from '../db/database';
+import { addDays, fromLocalDateString, getTodayString, toLocalDateString } from './localDate';
+
+const MAX_SNAPSHOTS_PER_DAY = 20;
+const HISTORY_RETENTION_DAYS = 7;
+
+export type PlanChange = 'moved' | 'dropped' | 'added' | 'unchanged';
+
+export interface PlanDiffEntry {
+  key: string;
+  change: PlanChange;
+  before?: DailyPlanTask;
+  after?: DailyPlanTask;
+}
+
+const generateId = () => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+/**
+ * Save the committed plan for a day before a reflow replaces it
+ * Call this BEFORE deleting any dailyPlanTasks rows
+ */
+export const snapshotPlan = async (planDate: string, reason: ReflowReason): Promise<void> => {
+  const blocks = await db.dailyPlanTasks
+    .where('planDate')
+    .equals(planDate)
+    .and(block => !block.isDraft)
+    .toArray();
+
+  // Capture assignedDate for every task on the plan or assigned to the day - reflows rewrite both
+  const assignedTasks = await db.tasks.where('assignedDate').equals(planDate).toArray();
+  const taskIds = new Set([
+    ...assignedTasks.map(task => task.id!),
+    ...blocks.filter(block => block.taskId).map(block => block.taskId!)
+  ]);
+  const assignedDates: Record<string, string | null> = {};
+  for (const taskId of taskIds) {
+    const task = await db.tasks.get(taskId);
+    if (task) assignedDates[taskId] = task.assignedDate ?? null;
+  }
+
+  await db.planHistory.add({
+    id: generateId(),
+    planDate,
+    reason,
+    createdAt: new Date().toISOString(),
+    blocks,
+    assignedDates
+  });
+
+  await pruneHistory(planDate);
+  console.log(`PLAN_SNAPSHOT ${planDate} (${reason}): ${blocks.length} blocks`);
+};
+
+/**
+ * Keep the most recent snapshots for a day and drop days past the retention window
+ */
+const pruneHistory = async (planDate: string): Promise<void> => {
+  const snapshots = await db.planHistory.where('planDate').equals(planDate).sortBy('createdAt');
+  const excess = snapshots.slice(0, Math.max(0, snapshots.length - MAX_SNAPSHOTS_PER_DAY));
+  if (excess.length > 0) {
+    await db.planHistory.bulkDelete(excess.map(snapshot => snapshot.id));
+  }
+
+  const cutoff = toLocalDateString(addDays(fromLocalDateString(getTodayString()), -HISTORY_RETENTION_DAYS));
+  await db.planHistory.where('planDate').below(cutoff).delete();
+};
+
+/**
+ * Most recent snapshot for a day (the plan as it was before the last reflow)
+ */
+export const getLatestSnapshot = async (planDate: string): Promise<PlanSnapshot | null> => {
+  const snapshots = await db.planHistory.where('planDate').equals(planDate).sortBy('createdAt');
+  return snapshots[snapshots.length - 1] || null;
+};
+
+/**
+ * Put the plan back the way it was before the last reflow
+ * Blocks completed since then stay completed; the snapshot is consumed,
+ * so repeated undos step further back through the day's history.
+ */
+export const undoLastReflow = async (planDate: string): Promise<PlanSnapshot | null> => {
+  const snapshot = await getLatestSnapshot(planDate);
+  if (!snapshot) return null;
+
+  await db.transaction('rw', [db.dailyPlanTasks, db.tasks, db.planHistory], async () => {
+    const current = await db.dailyPlanTasks
+      .where('planDate')
+      .equals(planDate)
+      .and(block => !block.isDraft)
+      .toArray();
+
+    const completedSince = current.filter(block => block.blockType === 'task' && block.completed);
+    const restored = snapshot.blocks.map(block =>
+      completedSince.some(done => done.id === block.id) ? { ...block, completed: true } : block
+    );
+    const restoredIds = new Set(restored.map(block => block.id));
+    const keep = completedSince.filter(block => !restoredIds.has(block.id));
+
+    await db.dailyPlanTasks.bulkDelete(current.map(block => block.id!));
+    await db.dailyPlanTasks.bulkAdd([...restored, ...keep]);
+
+    for (const [taskId, assignedDate] of Object.entries(snapshot.assignedDates)) {
+      const task = await db.tasks.get(taskId);
+      if (task && task.status !== 'done') {
+        await db.tasks.update(taskId, { assignedDate });
+      }
+    }
+
+    await db.planHistory.delete(snapshot.id);
+  });
+
+  console.log(`PLAN_UNDO ${planDate}: restored ${snapshot.blocks.length} blocks from before ${snapshot.reason}`);
+  return snapshot;
+};
+
+/**
+ * Key that follows a block across reflows: the task (and project slice),
+ * or the block itself for interruptions
+ */
+const getDiffKey = (block: DailyPlanTask): string => {
+  return block.taskId ? `${block.taskId}#${block.sliceNumber ?? ''}` : block.id!;
+};
+
+/**
+ * Compare two timelines: which tasks moved, were dropped or were added
+ * Only task and interruption blocks are compared - free and transition time follows from them
+ */
+export const diffPlans = (before: DailyPlanTask[], after: DailyPlanTask[]): PlanDiffEntry[] => {
+  const isComparable = (block: DailyPlanTask) => block.blockType === 'task' || block.blockType === 'interruption';
+  const beforeByKey = new Map(before.filter(isComparable).map(block => [getDiffKey(block), block]));
+  const afterByKey = new Map(after.filter(isComparable).map(block => [getDiffKey(block), block]));
+
+  const entries: PlanDiffEntry[] = [];
+
+  for (const [key, block] of beforeByKey) {
+    const next = afterByKey.get(key);
+    if (!next) {
+      entries.push({ key, change: 'dropped', before: block });
+    } else {
+      const moved = next.scheduledStartTime !== block.scheduledStartTime || next.scheduledEndTime !== block.scheduledEndTime;
+      entries.push({ key, change: moved ? 'moved' : 'unchanged', before: block, after: next });
+    }
+  }
+
+  for (const [key, block] of afterByKey) {
+    if (!beforeByKey.has(key)) {
+      entries.push({ key, change: 'added', after: block });
+    }
+  }
+
+  const startOf = (entry: PlanDiffEntry) => (entry.after || entry.before)!.scheduledStartTime;
+  return entries.sort((a, b) => startOf(a).localeCompare(startOf(b)));
+};
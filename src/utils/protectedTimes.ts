@@ -0,0 +1,76 @@
+import { Domain, ProtectedTime, UserPrefs } from '../db/database';
+
+export interface ProtectedWindow {
+  start: Date;
+  end: Date;
+  protectedTime: ProtectedTime;
+}
+
+const getWeekday = (date: Date): number => (date.getDay() === 0 ? 7 : date.getDay());
+
+/**
+ * Concrete start/end of a protected time on the day it starts
+ * An end at or before the start runs past midnight (equal = the whole day)
+ */
+const getWindowOnDay = (protectedTime: ProtectedTime, day: Date): { start: Date; end: Date } => {
+  const [startHours, startMinutes] = protectedTime.startTime.split(':').map(Number);
+  const [endHours, endMinutes] = protectedTime.endTime.split(':').map(Number);
+
+  const start = new Date(day);
+  start.setHours(startHours, startMinutes, 0, 0);
+  const end = new Date(day);
+  end.setHours(endHours, endMinutes, 0, 0);
+  if (end <= start) {
+    end.setDate(end.getDate() + 1);
+  }
+
+  return { start, end };
+};
+
+/**
+ * Protected windows overlapping a time range, optionally only those blocking a domain
+ * Includes windows that started the previous day and run past midnight
+ */
+export const getProtectedWindows = (
+  prefs: UserPrefs,
+  rangeStart: Date,
+  rangeEnd: Date,
+  domain?: Domain
+): ProtectedWindow[] => {
+  // Only windows the user has switched on are enforced
+  const protectedTimes = (prefs.protectedTimes || []).filter(
+    pt => typeof pt === 'object' && pt.enabled !== false && (!domain || pt.blockedDomains.includes(domain))
+  );
+  if (protectedTimes.length === 0) return [];
+
+  const windows: ProtectedWindow[] = [];
+  const day = new Date(rangeStart);
+  day.setHours(0, 0, 0, 0);
+  day.setDate(day.getDate() - 1);
+
+  while (day < rangeEnd) {
+    for (const protectedTime of protectedTimes) {
+      if (!protectedTime.weekdays.includes(getWeekday(day))) continue;
+
+      const { start, end } = getWindowOnDay(protectedTime, day);
+      if (start < rangeEnd && end > rangeStart) {
+        windows.push({ start, end, protectedTime });
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+};
+
+/**
+ * First protected window that blocks a domain between start and end, if any
+ */
+export const findProtectedConflict = (
+  prefs: UserPrefs,
+  domain: Domain,
+  start: Date,
+  end: Date
+): ProtectedWindow | null => {
+  return getProtectedWindows(prefs, start, end, domain)[0] || null;
+};
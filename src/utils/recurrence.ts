@@ -0,0 +1,344 @@
+import type { Recurrence, RecurrenceRule, Task } from '../db/database';
+import { daysBetween, fromLocalDateString, getTodayString, toDateKey, toLocalDateString, addDays } from './localDate';
+
+/**
+ * Recurrence engine
+ *
+ * A repeating task carries a RecurrenceRule modelled on RFC 5545 RRULE: every N
+ * days/weeks/months/years, on given weekdays, on a day of the month, the nth
+ * weekday ("second Tuesday") or the last day, ending after a count or on a date.
+ * An after-completion rule instead falls due interval units after the task was
+ * last done, and stays due (overdue) until it is done again.
+ * All dates are local YYYY-MM-DD keys.
+ */
+
+export type RecurrenceFrequency = RecurrenceRule['freq'];
+
+// Task.recurrence label for each frequency (kept for filters and display)
+export const RECURRENCE_FOR_FREQUENCY: Record<RecurrenceFrequency, Recurrence> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly'
+};
+
+const FREQUENCY_FOR_RECURRENCE: Partial<Record<Recurrence, RecurrenceFrequency>> = {
+  Daily: 'daily',
+  Weekly: 'weekly',
+  CustomDays: 'weekly',
+  Monthly: 'monthly',
+  Yearly: 'yearly'
+};
+
+// Longest gap between two occurrences per unit of interval, plus slack for nth-weekday and Feb 29 rules
+const SCAN_DAYS_PER_INTERVAL: Record<RecurrenceFrequency, number> = { daily: 1, weekly: 7, monthly: 31, yearly: 366 };
+const SCAN_SLACK_DAYS = 366 * 4;
+
+const WEEKDAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const LONG_WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const ORDINALS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+// Last date of count-limited series, keyed by the serialized rule
+const seriesEndCache = new Map<string, string | null>();
+
+const getDateParts = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return { year, month, day };
+};
+
+const getWeekday = (dateKey: string): number => {
+  const day = fromLocalDateString(dateKey).getDay(); // 0=Sun
+  return day === 0 ? 7 : day;
+};
+
+const getDaysInMonth = (year: number, month: number) => new Date(year, month, 0).getDate();
+
+const nextDateKey = (dateKey: string, days = 1) => toLocalDateString(addDays(fromLocalDateString(dateKey), days));
+
+const ordinalSuffix = (n: number) => {
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`;
+  return `${n}${{ 1: 'st', 2: 'nd', 3: 'rd' }[n % 10] || 'th'}`;
+};
+
+/**
+ * Default rule for a frequency, taking weekday, day of month and month from the anchor date
+ */
+export const createRecurrenceRule = (freq: RecurrenceFrequency, anchor: string = getTodayString()): RecurrenceRule => {
+  const { month, day } = getDateParts(anchor);
+  const weekOfMonth = Math.ceil(day / 7);
+  return {
+    freq,
+    interval: 1,
+    anchor,
+    byWeekday: [getWeekday(anchor)],
+    monthDay: 'date',
+    dayOfMonth: day,
+    nthWeek: weekOfMonth > 4 ? -1 : weekOfMonth,
+    nthWeekday: getWeekday(anchor),
+    month,
+    count: null,
+    until: null,
+    afterCompletion: false
+  };
+};
+
+/**
+ * Rule equivalent to the pre-rule recurrence fields (weeklyDay, daysOfWeek, Monthly on the start date's day)
+ */
+export const legacyRecurrenceRule = (task: Task): RecurrenceRule | null => {
+  const freq = FREQUENCY_FOR_RECURRENCE[task.recurrence];
+  if (!freq) return null;
+
+  const reference = freq === 'monthly'
+    ? task.startDate || task.dueDate || task.createdAt
+    : task.startDate || task.createdAt;
+  const rule = createRecurrenceRule(freq, reference ? toDateKey(reference) : getTodayString());
+
+  if (task.recurrence === 'Weekly' && task.weeklyDay) {
+    rule.byWeekday = [task.weeklyDay];
+  } else if (task.recurrence === 'CustomDays' && task.daysOfWeek?.length > 0) {
+    rule.byWeekday = [...task.daysOfWeek].sort((a, b) => a - b);
+  }
+  return rule;
+};
+
+/**
+ * Give a task saved before recurrence rules (old database, backup or sync peer) its rule
+ */
+export const migrateLegacyRecurrence = (task: Task): Task => {
+  if (task.recurrence === 'Once') return { ...task, recurrenceRule: null };
+  if (task.recurrenceRule) return task;
+
+  const rule = legacyRecurrenceRule(task);
+  return rule
+    ? { ...task, recurrence: RECURRENCE_FOR_FREQUENCY[rule.freq], recurrenceRule: rule }
+    : { ...task, recurrence: 'Once', recurrenceRule: null };
+};
+
+/**
+ * The rule a repeating task follows (null for Once tasks)
+ */
+export const getRecurrenceRule = (task: Task): RecurrenceRule | null => {
+  if (task.recurrence === 'Once') return null;
+  return task.recurrenceRule ?? legacyRecurrenceRule(task);
+};
+
+const matchesMonthDay = (rule: RecurrenceRule, dateKey: string): boolean => {
+  const { year, month, day } = getDateParts(dateKey);
+  const daysInMonth = getDaysInMonth(year, month);
+
+  switch (rule.monthDay) {
+    case 'lastDay':
+      return day === daysInMonth;
+    case 'nthWeekday':
+      if (getWeekday(dateKey) !== rule.nthWeekday) return false;
+      return rule.nthWeek === -1 ? day + 7 > daysInMonth : Math.ceil(day / 7) === rule.nthWeek;
+    default:
+      // The 31st falls on the last day of shorter months
+      return day === Math.min(rule.dayOfMonth, daysInMonth);
+  }
+};
+
+/**
+ * Whether a date fits the rule's pattern, ignoring count and until
+ */
+const matchesPattern = (rule: RecurrenceRule, dateKey: string): boolean => {
+  if (dateKey < rule.anchor) return false;
+  const interval = Math.max(1, rule.interval || 1);
+  const anchor = getDateParts(rule.anchor);
+  const date = getDateParts(dateKey);
+
+  switch (rule.freq) {
+    case 'daily':
+      return daysBetween(rule.anchor, dateKey) % interval === 0;
+    case 'weekly': {
+      // Weeks run Monday to Sunday, counted from the anchor's week
+      const weeks = Math.floor((daysBetween(rule.anchor, dateKey) + getWeekday(rule.anchor) - 1) / 7);
+      const weekdays = rule.byWeekday?.length > 0 ? rule.byWeekday : [getWeekday(rule.anchor)];
+      return weeks % interval === 0 && weekdays.includes(getWeekday(dateKey));
+    }
+    case 'monthly': {
+      const months = (date.year - anchor.year) * 12 + (date.month - anchor.month);
+      return months % interval === 0 && matchesMonthDay(rule, dateKey);
+    }
+    case 'yearly':
+      return (date.year - anchor.year) % interval === 0 && date.month === rule.month && matchesMonthDay(rule, dateKey);
+    default:
+      return false;
+  }
+};
+
+/**
+ * First date on or after fromKey that fits the pattern, ignoring count and until
+ */
+const findNextPatternDate = (rule: RecurrenceRule, fromKey: string): string | null => {
+  let dateKey = fromKey < rule.anchor ? rule.anchor : fromKey;
+  const maxDays = SCAN_DAYS_PER_INTERVAL[rule.freq] * Math.max(1, rule.interval || 1) + SCAN_SLACK_DAYS;
+
+  for (let i = 0; i < maxDays; i++) {
+    if (matchesPattern(rule, dateKey)) return dateKey;
+    dateKey = nextDateKey(dateKey);
+  }
+  return null;
+};
+
+/**
+ * Last date of the series (the earlier of until and the count-th occurrence), or null when it never ends
+ */
+export const getSeriesEnd = (rule: RecurrenceRule): string | null => {
+  if (!rule.count) return rule.until;
+
+  const cacheKey = JSON.stringify(rule);
+  if (!seriesEndCache.has(cacheKey)) {
+    let occurrence: string | null = null;
+    let fromKey = rule.anchor;
+    for (let found = 0; found < rule.count; found++) {
+      occurrence = findNextPatternDate(rule, fromKey);
+      if (!occurrence) break;
+      fromKey = nextDateKey(occurrence);
+    }
+    seriesEndCache.set(cacheKey, occurrence);
+  }
+
+  const countEnd = seriesEndCache.get(cacheKey) ?? null;
+  if (rule.until && (!countEnd || rule.until < countEnd)) return rule.until;
+  return countEnd;
+};
+
+/**
+ * Date an after-completion rule falls due: interval units after the last completion
+ * (clamped to the month's last day for monthly and yearly), or the anchor if never done
+ */
+export const getCompletionDueDate = (rule: RecurrenceRule, lastCompletedAt: string | null): string => {
+  if (!lastCompletedAt) return rule.anchor;
+
+  const completedKey = toDateKey(lastCompletedAt);
+  const interval = Math.max(1, rule.interval || 1);
+  switch (rule.freq) {
+    case 'daily':
+      return nextDateKey(completedKey, interval);
+    case 'weekly':
+      return nextDateKey(completedKey, interval * 7);
+    default: {
+      const { year, month, day } = getDateParts(completedKey);
+      const months = rule.freq === 'monthly' ? interval : interval * 12;
+      const target = new Date(year, month - 1 + months, 1);
+      target.setDate(Math.min(day, getDaysInMonth(target.getFullYear(), target.getMonth() + 1)));
+      return toLocalDateString(target);
+    }
+  }
+};
+
+/**
+ * Days an after-completion task is past due on a date (0 when not yet due or not after-completion)
+ */
+export const getCompletionOverdueDays = (rule: RecurrenceRule, lastCompletedAt: string | null, dateKey: string): number => {
+  if (!rule.afterCompletion) return 0;
+  return Math.max(0, daysBetween(getCompletionDueDate(rule, lastCompletedAt), dateKey));
+};
+
+/**
+ * Length of one repeat in days, roughly (for weighing how late an after-completion task is)
+ */
+export const getIntervalDays = (rule: RecurrenceRule): number => {
+  return SCAN_DAYS_PER_INTERVAL[rule.freq] * Math.max(1, rule.interval || 1);
+};
+
+/**
+ * Whether the rule has an occurrence on a date
+ */
+export const occursOn = (rule: RecurrenceRule, dateKey: string): boolean => {
+  if (!matchesPattern(rule, dateKey)) return false;
+  const end = getSeriesEnd(rule);
+  return !end || dateKey <= end;
+};
+
+/**
+ * First occurrence on or after a date, or null once the series has ended
+ */
+export const getNextOccurrence = (rule: RecurrenceRule, fromKey: string): string | null => {
+  const next = findNextPatternDate(rule, fromKey);
+  if (!next) return null;
+  const end = getSeriesEnd(rule);
+  return end && next > end ? null : next;
+};
+
+/**
+ * The next few occurrences from a date (for previews)
+ */
+export const getUpcomingOccurrences = (rule: RecurrenceRule, fromKey: string, limit: number): string[] => {
+  const occurrences: string[] = [];
+  let next = getNextOccurrence(rule, fromKey);
+  while (next && occurrences.length < limit) {
+    occurrences.push(next);
+    next = getNextOccurrence(rule, nextDateKey(next));
+  }
+  return occurrences;
+};
+
+const describeMonthDay = (rule: RecurrenceRule): string => {
+  switch (rule.monthDay) {
+    case 'lastDay':
+      return 'the last day';
+    case 'nthWeekday':
+      return `the ${ORDINALS[rule.nthWeek]} ${LONG_WEEKDAY_NAMES[rule.nthWeekday - 1]}`;
+    default:
+      return `the ${ordinalSuffix(rule.dayOfMonth)}`;
+  }
+};
+
+/**
+ * Plain-language summary, e.g. "Every 2 weeks on Tue, Thu, 10 times"
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' }[rule.freq];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+
+  if (rule.afterCompletion) {
+    text = `${interval === 1 ? `1 ${unit}` : `${interval} ${unit}s`} after each completion`;
+  } else if (rule.freq === 'weekly') {
+    const weekdays = rule.byWeekday?.length > 0 ? rule.byWeekday : [getWeekday(rule.anchor)];
+    text += ` on ${[...weekdays].sort((a, b) => a - b).map(day => WEEKDAY_NAMES[day - 1]).join(', ')}`;
+  } else if (rule.freq === 'monthly') {
+    text += ` on ${describeMonthDay(rule)}`;
+  } else if (rule.freq === 'yearly') {
+    text += rule.monthDay === 'date'
+      ? ` on ${MONTH_NAMES[rule.month - 1]} ${rule.dayOfMonth}`
+      : ` on ${describeMonthDay(rule)} of ${MONTH_NAMES[rule.month - 1]}`;
+  }
+
+  if (rule.count) {
+    text += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'}`;
+  }
+  if (rule.until) {
+    text += `, until ${fromLocalDateString(rule.until).toLocaleDateString()}`;
+  }
+  return text;
+};
+
+/**
+ * Problem with a rule the user entered, or null when it is valid
+ */
+export const validateRecurrenceRule = (rule: RecurrenceRule): string | null => {
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 999) {
+    return 'Repeat interval must be between 1 and 999';
+  }
+  if (rule.afterCompletion) {
+    return rule.count !== null ? 'Repeat-after-completion tasks can only end on a date' : null;
+  }
+  if (rule.freq === 'weekly' && (!rule.byWeekday || rule.byWeekday.length === 0)) {
+    return 'Weekly tasks require at least one day to be selected';
+  }
+  if (rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    return 'Number of occurrences must be at least 1';
+  }
+  if (rule.until && rule.until < rule.anchor) {
+    return 'End date must be after the first occurrence';
+  }
+  if (!getNextOccurrence(rule, rule.anchor)) {
+    return 'This pattern never occurs';
+  }
+  return null;
+};
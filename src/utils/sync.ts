@@ -0,0 +1,398 @@
+import { db, ChangeLogEntry, SyncedTable, Task } from '../db/database';
+import { SYNCED_TABLES, getChangeLogKey, getDeviceId, setChangeListener } from '../db/changeLog';
+import { mergeTasks, recordTaskConflicts } from './taskMerge';
+
+const CONFIG_STORAGE_KEY = 'rhythmPlannerSync_config'; // Per device - not part of backups
+const PUSH_BATCH_SIZE = 200;
+const PULL_PAGE_SIZE = 500;
+const SYNC_INTERVAL_MS = 60 * 1000;
+const PUSH_DEBOUNCE_MS = 5 * 1000;
+
+export type SyncState = 'off' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string; // e.g. http://localhost:8787
+  token: string; // Sent as a Bearer token when the server requires one
+  cursor: number; // Last server revision pulled
+  lastSyncAt: string | null;
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  pending: number; // Local changes not yet pushed
+  lastSyncAt: string | null;
+  lastError: string | null;
+}
+
+// A record change as exchanged with the sync server
+export interface SyncChange {
+  table: SyncedTable;
+  id: string | number;
+  version: number;
+  updatedAt: string;
+  deviceId: string;
+  deleted: boolean;
+  data: any | null; // The full record, null when deleted
+  revision?: number; // Server sequence number (pull responses only)
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number; // Remote changes applied locally
+}
+
+const DEFAULT_CONFIG: SyncConfig = {
+  enabled: false,
+  serverUrl: '',
+  token: '',
+  cursor: 0,
+  lastSyncAt: null
+};
+
+let status: SyncStatus = { state: 'off', pending: 0, lastSyncAt: null, lastError: null };
+let syncInFlight: Promise<SyncResult> | null = null;
+let pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const getSyncConfig = (): SyncConfig => {
+  try {
+    return { ...DEFAULT_CONFIG, ...JSON.parse(localStorage.getItem(CONFIG_STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CONFIG;
+  }
+};
+
+export const saveSyncConfig = (updates: Partial<SyncConfig>): SyncConfig => {
+  const config = { ...getSyncConfig(), ...updates };
+  // A different server has a different revision history
+  if (updates.serverUrl !== undefined && updates.serverUrl !== getSyncConfig().serverUrl) {
+    config.cursor = 0;
+  }
+  localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify(config));
+  refreshSyncStatus();
+  return config;
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+const setStatus = (updates: Partial<SyncStatus>) => {
+  status = { ...status, ...updates };
+  window.dispatchEvent(new CustomEvent('sync-status', { detail: status }));
+};
+
+/**
+ * Recount pending changes and derive the idle/off state from the config
+ */
+export const refreshSyncStatus = async (): Promise<void> => {
+  const config = getSyncConfig();
+  const pending = await db.changeLog.where('pending').equals(1).count();
+  const state = !config.enabled || !config.serverUrl
+    ? 'off'
+    : status.state === 'syncing' || status.state === 'error' || status.state === 'offline' ? status.state : 'idle';
+  setStatus({ pending, state, lastSyncAt: config.lastSyncAt });
+};
+
+/**
+ * Deterministic winner between two versions of a record: higher version,
+ * then later change, then the larger device id. The sync server uses the same rule.
+ */
+export const compareVersions = (
+  a: Pick<SyncChange, 'version' | 'updatedAt' | 'deviceId'>,
+  b: Pick<SyncChange, 'version' | 'updatedAt' | 'deviceId'>
+): number => {
+  return a.version - b.version || a.updatedAt.localeCompare(b.updatedAt) || a.deviceId.localeCompare(b.deviceId);
+};
+
+const request = async (config: SyncConfig, path: string, init?: RequestInit): Promise<any> => {
+  const response = await fetch(`${config.serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(config.token ? { Authorization: `Bearer ${config.token}` } : {})
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Sync server returned ${response.status}`);
+  }
+  return response.json();
+};
+
+/**
+ * Give records written before sync existed (or before this device first synced) a log entry
+ */
+const seedChangeLog = async (): Promise<void> => {
+  const deviceId = getDeviceId();
+  const updatedAt = new Date().toISOString();
+
+  await db.transaction('rw', [...SYNCED_TABLES.map(name => db.table(name)), db.changeLog], async () => {
+    for (const table of SYNCED_TABLES) {
+      const ids = await db.table(table).toCollection().primaryKeys();
+      const keys = ids.map(id => getChangeLogKey(table, id as string | number));
+      const existing = await db.changeLog.bulkGet(keys);
+      const missing: ChangeLogEntry[] = ids
+        .map((id, index) => ({ id, entry: existing[index] }))
+        .filter(({ entry }) => !entry)
+        .map(({ id }) => ({
+          key: getChangeLogKey(table, id as string | number),
+          table,
+          recordId: id as string | number,
+          version: 1,
+          updatedAt,
+          deviceId,
+          deleted: false,
+          pending: 1
+        }));
+      await db.changeLog.bulkPut(missing);
+    }
+  });
+};
+
+const pushChanges = async (config: SyncConfig): Promise<number> => {
+  let pushed = 0;
+  const attempted = new Set<string>();
+
+  for (;;) {
+    const entries = (await db.changeLog.where('pending').equals(1).limit(PUSH_BATCH_SIZE).toArray())
+      .filter(entry => !attempted.has(`${entry.key}@${entry.version}`));
+    if (entries.length === 0) break;
+
+    const changes: SyncChange[] = [];
+    for (const entry of entries) {
+      attempted.add(`${entry.key}@${entry.version}`);
+      const data = entry.deleted ? null : await db.table(entry.table).get(entry.recordId);
+      changes.push({
+        table: entry.table,
+        id: entry.recordId,
+        version: entry.version,
+        updatedAt: entry.updatedAt,
+        deviceId: entry.deviceId,
+        deleted: entry.deleted || !data,
+        data: data || null
+      });
+    }
+
+    const response = await request(config, '/sync/push', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: getDeviceId(), changes })
+    });
+    const rejected: SyncChange[] = response.rejected || [];
+    const rejectedKeys = new Set(rejected.map(change => getChangeLogKey(change.table, change.id)));
+
+    await db.transaction('rw', db.changeLog, async () => {
+      for (const [index, entry] of entries.entries()) {
+        if (rejectedKeys.has(entry.key)) continue;
+        const current = await db.changeLog.get(entry.key);
+        if (current && current.version === entry.version) {
+          await db.changeLog.update(entry.key, {
+            pending: 0,
+            base: entry.table === 'tasks' ? changes[index].data : undefined
+          });
+        }
+      }
+    });
+
+    // The server holds a copy that beats ours: merge with it like a pulled change, and push the result
+    if (rejected.length > 0) {
+      await applyRemoteChanges(rejected);
+    }
+    pushed += entries.length - rejected.length;
+  }
+
+  return pushed;
+};
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const toChangeLogEntry = (change: SyncChange): ChangeLogEntry => ({
+  key: getChangeLogKey(change.table, change.id),
+  table: change.table,
+  recordId: change.id,
+  version: change.version,
+  updatedAt: change.updatedAt,
+  deviceId: change.deviceId,
+  deleted: change.deleted,
+  pending: 0,
+  base: change.table === 'tasks' ? change.data : undefined
+});
+
+/**
+ * Merge a remote task into a local copy that has unpushed edits
+ * The merged task gets a version above both sides so the server accepts it
+ * and every other device takes it. Returns true when the local task changed.
+ */
+const mergeRemoteTask = async (change: SyncChange, local: ChangeLogEntry, localTask: Task): Promise<boolean> => {
+  const { task, conflicts } = mergeTasks(local.base, localTask, change.data, compareVersions(change, local) > 0);
+
+  if (same(task, change.data)) {
+    // Our edits were already part of the remote copy
+    await db.tasks.put(task);
+    await db.changeLog.put(toChangeLogEntry(change));
+    return true;
+  }
+
+  const changed = !same(task, localTask);
+  if (changed) {
+    await db.tasks.put(task);
+  }
+  await db.changeLog.put({
+    ...toChangeLogEntry(change),
+    version: Math.max(local.version, change.version) + 1,
+    updatedAt: new Date().toISOString(),
+    deviceId: getDeviceId(),
+    pending: 1
+  });
+  await recordTaskConflicts(task, conflicts, 'sync');
+  return changed;
+};
+
+/**
+ * Apply remote changes that beat the local copy
+ * Tasks with unpushed local edits are merged field by field instead of overwritten.
+ * Log entries are written after the record so the change-log middleware's
+ * local entry for the same write is replaced by the remote version.
+ */
+const applyRemoteChanges = async (changes: SyncChange[]): Promise<number> => {
+  let applied = 0;
+
+  await db.transaction('rw', [...SYNCED_TABLES.map(name => db.table(name)), db.changeLog, db.taskConflicts], async () => {
+    for (const change of changes) {
+      if (!SYNCED_TABLES.includes(change.table)) continue;
+
+      const key = getChangeLogKey(change.table, change.id);
+      const local = await db.changeLog.get(key);
+      const order = local ? compareVersions(change, local) : 1;
+
+      if (order === 0) {
+        // Our own change coming back
+        if (local?.pending) await db.changeLog.put(toChangeLogEntry(change));
+        continue;
+      }
+
+      if (local?.pending && change.table === 'tasks' && !change.deleted && !local.deleted) {
+        const localTask = await db.tasks.get(change.id as string);
+        if (localTask) {
+          if (await mergeRemoteTask(change, local, localTask)) applied++;
+          continue;
+        }
+      }
+
+      if (order < 0) continue;
+
+      if (change.deleted) {
+        await db.table(change.table).delete(change.id);
+      } else {
+        await db.table(change.table).put(change.data);
+      }
+      await db.changeLog.put(toChangeLogEntry(change));
+      applied++;
+    }
+  });
+
+  return applied;
+};
+
+const pullChanges = async (config: SyncConfig): Promise<number> => {
+  let cursor = config.cursor;
+  let applied = 0;
+
+  for (;;) {
+    const page = await request(config, `/sync/pull?since=${cursor}&limit=${PULL_PAGE_SIZE}`);
+    applied += await applyRemoteChanges(page.changes || []);
+    cursor = page.revision;
+    saveSyncConfig({ cursor });
+    if (!page.hasMore) break;
+  }
+
+  return applied;
+};
+
+/**
+ * Push local changes, then pull everything newer than the last pull
+ * Concurrent calls share one run.
+ */
+export const syncNow = async (): Promise<SyncResult> => {
+  if (syncInFlight) return syncInFlight;
+
+  const config = getSyncConfig();
+  if (!config.enabled || !config.serverUrl) {
+    await refreshSyncStatus();
+    return { pushed: 0, pulled: 0 };
+  }
+  if (!navigator.onLine) {
+    setStatus({ state: 'offline' });
+    return { pushed: 0, pulled: 0 };
+  }
+
+  syncInFlight = (async () => {
+    setStatus({ state: 'syncing', lastError: null });
+    try {
+      if (config.cursor === 0) {
+        await seedChangeLog();
+      }
+      const pushed = await pushChanges(config);
+      const pulled = await pullChanges(getSyncConfig());
+
+      const lastSyncAt = new Date().toISOString();
+      saveSyncConfig({ lastSyncAt });
+      setStatus({ state: 'idle', lastSyncAt });
+      await refreshSyncStatus();
+
+      if (pulled > 0) {
+        // Views reload their data; planning is left alone so devices don't reflow each other in a loop
+        window.dispatchEvent(new CustomEvent('sync-applied'));
+      }
+      console.log(`SYNC pushed ${pushed}, applied ${pulled} remote changes`);
+      return { pushed, pulled };
+    } catch (error) {
+      console.error('Error syncing:', error);
+      setStatus({ state: navigator.onLine ? 'error' : 'offline', lastError: error instanceof Error ? error.message : String(error) });
+      await refreshSyncStatus();
+      return { pushed: 0, pulled: 0 };
+    } finally {
+      syncInFlight = null;
+    }
+  })();
+
+  return syncInFlight;
+};
+
+/**
+ * Sync on an interval, when the device comes back online or the tab regains focus,
+ * and shortly after local changes. Returns a cleanup function.
+ */
+export const startAutoSync = (): (() => void) => {
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') syncNow();
+  };
+  const handleOnline = () => syncNow();
+
+  setChangeListener(() => {
+    if (pushTimer) clearTimeout(pushTimer);
+    pushTimer = setTimeout(() => {
+      pushTimer = null;
+      if (getSyncConfig().enabled) syncNow();
+      else refreshSyncStatus();
+    }, PUSH_DEBOUNCE_MS);
+  });
+
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('visibilitychange', handleVisibility);
+  syncNow();
+
+  return () => {
+    clearInterval(interval);
+    if (pushTimer) clearTimeout(pushTimer);
+    setChangeListener(null);
+    window.removeEventListener('online', handleOnline);
+    document.removeEventListener('visibilitychange', handleVisibility);
+  };
+};
+
+/**
+ * Check that a server answers before turning sync on
+ */
+export const testSyncServer = async (serverUrl: string, token: string): Promise<{ revision: number; records: number }> => {
+  return request({ ...DEFAULT_CONFIG, serverUrl, token }, '/sync/status');
+};
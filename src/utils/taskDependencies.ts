@@ -0,0 +1,161 @@
+import { db, Task } from '../db/database';
+
+/**
+ * Task dependencies
+ *
+ * A task lists the tasks it waits on in blockedBy; the tasks it blocks are found through
+ * the multi-entry blockedBy index. A task is blocked while any of its prerequisites is
+ * still open. Only one-off tasks hold others up - a recurring task is never finished for
+ * good, so it can't be a prerequisite.
+ */
+
+// Whether a task still holds up the tasks that wait on it
+export const isOpenPrerequisite = (task: Task | undefined): boolean => {
+  return !!task && task.recurrence === 'Once' && task.status !== 'done' && !task.archived;
+};
+
+/**
+ * Prerequisites of a task that are still open
+ * Ids in satisfied count as done (used when planning ahead, once the prerequisite has a day).
+ */
+export const getBlockingTasks = (
+  task: Task,
+  tasksById: Map<string, Task>,
+  satisfied?: Set<string>
+): Task[] => {
+  return (task.blockedBy || [])
+    .filter(id => !satisfied?.has(id))
+    .map(id => tasksById.get(id))
+    .filter((prerequisite): prerequisite is Task => isOpenPrerequisite(prerequisite));
+};
+
+export const isTaskBlocked = (task: Task, tasksById: Map<string, Task>, satisfied?: Set<string>): boolean => {
+  return getBlockingTasks(task, tasksById, satisfied).length > 0;
+};
+
+/**
+ * Ids of every task that is waiting on an open prerequisite
+ */
+export const getBlockedTaskIds = async (satisfied?: Set<string>): Promise<Set<string>> => {
+  const tasks = await db.tasks.toArray();
+  const tasksById = new Map(tasks.map(task => [task.id!, task]));
+  return new Set(tasks
+    .filter(task => task.id && isTaskBlocked(task, tasksById, satisfied))
+    .map(task => task.id!));
+};
+
+/**
+ * Tasks that list this one in their blockedBy
+ */
+export const getDependents = async (taskId: string): Promise<Task[]> => {
+  return db.tasks.where('blockedBy').equals(taskId).toArray();
+};
+
+/**
+ * The loop a task's new links would close, as task titles from the task back to itself,
+ * or null when there is none
+ *
+ * blockedBy is everything the task will wait on and blocks every task that will wait on it
+ * (full lists - links missing from them are treated as removed).
+ * The rest of the graph is assumed loop-free, so any loop runs through this task.
+ */
+export const findDependencyCycle = (
+  taskId: string,
+  blockedBy: string[],
+  blocks: string[],
+  tasks: Task[]
+): string[] | null => {
+  const prerequisites = new Map<string, string[]>();
+  for (const task of tasks) {
+    if (!task.id || task.id === taskId) continue;
+    const waitsOn = (task.blockedBy || []).filter(id => id !== taskId);
+    prerequisites.set(task.id, blocks.includes(task.id) ? [...waitsOn, taskId] : waitsOn);
+  }
+  prerequisites.set(taskId, blockedBy);
+
+  // Depth-first from the task along "waits on" links, looking for the way back
+  const visited = new Set<string>();
+  const path: string[] = [];
+  const visit = (id: string): boolean => {
+    path.push(id);
+    for (const next of prerequisites.get(id) || []) {
+      if (next === taskId) {
+        path.push(next);
+        return true;
+      }
+      if (!visited.has(next)) {
+        visited.add(next);
+        if (visit(next)) return true;
+      }
+    }
+    path.pop();
+    return false;
+  };
+
+  if (!visit(taskId)) return null;
+  const titles = new Map(tasks.map(task => [task.id, task.title]));
+  return path.map(id => titles.get(id) || 'This task');
+};
+
+/**
+ * Validate a task's dependency links, returning an error message or null if they're fine
+ */
+export const validateDependencies = (
+  taskId: string,
+  blockedBy: string[],
+  blocks: string[],
+  tasks: Task[]
+): string | null => {
+  if (blockedBy.includes(taskId) || blocks.includes(taskId)) {
+    return 'A task cannot depend on itself';
+  }
+  const both = blockedBy.find(id => blocks.includes(id));
+  if (both) {
+    const title = tasks.find(task => task.id === both)?.title || 'A task';
+    return `"${title}" can't both block this task and wait on it`;
+  }
+  const cycle = findDependencyCycle(taskId, blockedBy, blocks, tasks);
+  if (cycle) {
+    return `These links would make a loop where nothing can start: ${cycle.join(' → ')}`;
+  }
+  return null;
+};
+
+/**
+ * Make exactly these tasks wait on taskId, dropping it from any others that listed it
+ */
+export const setDependents = async (taskId: string, dependentIds: string[]): Promise<void> => {
+  await db.transaction('rw', db.tasks, async () => {
+    const current = await getDependents(taskId);
+    for (const task of current) {
+      if (!dependentIds.includes(task.id!)) {
+        await db.tasks.update(task.id!, { blockedBy: (task.blockedBy || []).filter(id => id !== taskId) });
+      }
+    }
+    for (const id of dependentIds) {
+      if (current.some(task => task.id === id)) continue;
+      const task = await db.tasks.get(id);
+      if (task) {
+        await db.tasks.update(id, { blockedBy: [...(task.blockedBy || []), taskId] });
+      }
+    }
+  });
+};
+
+/**
+ * Dependents that a just-finished prerequisite has freed up (no other open prerequisites left)
+ */
+export const getUnblockedDependents = async (prerequisiteId: string): Promise<Task[]> => {
+  const dependents = await getDependents(prerequisiteId);
+  if (dependents.length === 0) return [];
+
+  const prerequisiteIds = new Set(dependents.flatMap(task => task.blockedBy || []));
+  const prerequisites = await db.tasks.bulkGet(Array.from(prerequisiteIds));
+  const tasksById = new Map(prerequisites.filter((task): task is Task => !!task).map(task => [task.id!, task]));
+
+  const unblocked = dependents.filter(task => task.status !== 'done' && !task.archived && !isTaskBlocked(task, tasksById));
+  if (unblocked.length > 0) {
+    console.log(`DEPENDENTS_UNBLOCKED ${unblocked.map(task => task.title).join(', ')}`);
+  }
+  return unblocked;
+};
@@ -1,4 +1,13 @@
 import { Task } from '../db/database';
+import { toLocalDateString, fromLocalDateString, toDateKey, addDays } from './localDate';
+import { getNextOccurrence, getRecurrenceRule, occursOn } from './recurrence';
+import {
+  OccurrenceExceptions,
+  getAdjustedCompletionDueDate,
+  getTaskExceptions,
+  isOccurrenceMovedTo,
+  isOccurrenceRemoved
+} from './occurrenceLedger';
 
 /**
  * Check if a task is eligible to be scheduled on a specific date
@@ -8,100 +17,98 @@ import { Task } from '../db/database';
  * - The date is not before snoozedUntil
  * - The recurrence pattern permits this date
  * - For Once tasks: only on the dueDate (or any day if no dueDate)
- * - For Daily tasks: every day
- * - For Weekly tasks: only on the specified weekday
- * - For Monthly tasks: same day of month as startDate or dueDate
- * - For CustomDays: only on specified days of week
+ * - For repeating tasks: on the dates their recurrence rule produces
+ * - For repeat-after-completion tasks: from interval days/weeks/... after lastCompletedAt on
+ * - Skipped or moved occurrences (see occurrenceLedger) are off their own day, and a
+ *   moved one is on the day it was moved to - pass the exceptions to honor them
  */
-export const isTaskEligibleForDate = (task: Task, targetDate: Date): boolean => {
-  const targetDateString = targetDate.toISOString().split('T')[0]; // YYYY-MM-DD
+export const isTaskEligibleForDate = (task: Task, targetDate: Date, exceptions?: OccurrenceExceptions): boolean => {
+  const targetDateString = toLocalDateString(targetDate); // YYYY-MM-DD (local calendar)
 
   // Check if date is before startDate
-  if (task.startDate && targetDateString < task.startDate.split('T')[0]) {
+  if (task.startDate && targetDateString < toDateKey(task.startDate)) {
     return false;
   }
 
   // Check if task is snoozed until after this date
   if (task.snoozedUntil) {
-    const snoozedUntilDate = task.snoozedUntil.split('T')[0];
+    const snoozedUntilDate = toDateKey(task.snoozedUntil);
     if (targetDateString < snoozedUntilDate) {
       return false;
     }
   }
 
-  // Check recurrence pattern
-  switch (task.recurrence) {
-    case 'Once':
-      // For one-time tasks, only schedule on the dueDate if provided
-      if (task.dueDate) {
-        const dueDateString = task.dueDate.split('T')[0];
-        return targetDateString === dueDateString;
-      }
-      // If no dueDate, can be scheduled any day after startDate
-      return true;
-
-    case 'Daily':
-      // Can be scheduled every day
-      return true;
-
-    case 'Weekly':
-      // Check if this is the correct day of week
-      if (task.weeklyDay === null) {
-        return false; // Weekly task must specify a day
-      }
-      const dayOfWeek = targetDate.getDay(); // 0=Sun, 1=Mon, ..., 6=Sat
-      // Convert to our format: 1=Mon, 7=Sun
-      const ourDayFormat = dayOfWeek === 0 ? 7 : dayOfWeek;
-      return ourDayFormat === task.weeklyDay;
-
-    case 'Monthly':
-      // Schedule on same day of month as startDate or dueDate
-      const referenceDate = task.startDate || task.dueDate;
-      if (!referenceDate) {
-        return false; // Monthly task needs a reference date
-      }
-      const referenceDayOfMonth = new Date(referenceDate).getDate();
-      return targetDate.getDate() === referenceDayOfMonth;
-
-    case 'CustomDays':
-      // Check if this day of week is in the allowed days
-      if (!task.daysOfWeek || task.daysOfWeek.length === 0) {
-        return false; // CustomDays task must specify days
-      }
-      const currentDayOfWeek = targetDate.getDay();
-      const currentOurFormat = currentDayOfWeek === 0 ? 7 : currentDayOfWeek;
-      return task.daysOfWeek.includes(currentOurFormat);
-
-    default:
-      return true;
+  if (task.recurrence === 'Once') {
+    // For one-time tasks, only schedule on the dueDate if provided
+    if (task.dueDate) {
+      const dueDateString = toDateKey(task.dueDate);
+      return targetDateString === dueDateString;
+    }
+    // If no dueDate, can be scheduled any day after startDate
+    return true;
+  }
+
+  const rule = getRecurrenceRule(task);
+  if (!rule) return false;
+
+  const taskExceptions = getTaskExceptions(task, exceptions);
+  if (rule.afterCompletion) {
+    if (rule.until && targetDateString > rule.until) return false;
+    return targetDateString >= getAdjustedCompletionDueDate(rule, task.lastCompletedAt, taskExceptions);
   }
+
+  if (isOccurrenceMovedTo(taskExceptions, targetDateString)) return true;
+  if (isOccurrenceRemoved(taskExceptions, targetDateString)) return false;
+  return occursOn(rule, targetDateString);
 };
 
 /**
  * Get the next eligible date for a task after a given date
+ * Returns null when the task's series has ended.
  */
-export const getNextEligibleDate = (task: Task, afterDate: Date): Date | null => {
-  const maxDaysToCheck = 365; // Don't check more than a year ahead
-  const startDate = new Date(afterDate);
-  startDate.setDate(startDate.getDate() + 1); // Start from next day
+export const getNextEligibleDate = (task: Task, afterDate: Date, exceptions?: OccurrenceExceptions): Date | null => {
+  // Earliest candidate: the day after, pushed past startDate and snoozedUntil
+  let fromKey = toLocalDateString(addDays(afterDate, 1));
+  for (const notBefore of [task.startDate, task.snoozedUntil]) {
+    if (notBefore && toDateKey(notBefore) > fromKey) {
+      fromKey = toDateKey(notBefore);
+    }
+  }
 
-  for (let i = 0; i < maxDaysToCheck; i++) {
-    const checkDate = new Date(startDate);
-    checkDate.setDate(checkDate.getDate() + i);
+  if (task.recurrence === 'Once') {
+    if (!task.dueDate) return fromLocalDateString(fromKey);
+    const dueDateString = toDateKey(task.dueDate);
+    return dueDateString >= fromKey ? fromLocalDateString(dueDateString) : null;
+  }
 
-    if (isTaskEligibleForDate(task, checkDate)) {
-      return checkDate;
-    }
+  const rule = getRecurrenceRule(task);
+  if (!rule) return null;
+
+  const taskExceptions = getTaskExceptions(task, exceptions);
+  if (rule.afterCompletion) {
+    const dueDate = getAdjustedCompletionDueDate(rule, task.lastCompletedAt, taskExceptions);
+    const next = dueDate > fromKey ? dueDate : fromKey;
+    return rule.until && next > rule.until ? null : fromLocalDateString(next);
   }
 
-  return null;
+  // Step past skipped and moved-away occurrences; an occurrence moved in earlier wins
+  let next = getNextOccurrence(rule, fromKey);
+  while (next && isOccurrenceRemoved(taskExceptions, next)) {
+    next = getNextOccurrence(rule, toLocalDateString(addDays(fromLocalDateString(next), 1)));
+  }
+  const movedIn = taskExceptions
+    .map(occurrence => occurrence.movedTo)
+    .filter((date): date is string => !!date && date >= fromKey)
+    .sort()[0];
+  if (movedIn && (!next || movedIn < next)) next = movedIn;
+  return next ? fromLocalDateString(next) : null;
 };
 
 /**
  * Get all tasks that are eligible for a specific date
  */
-export const getEligibleTasksForDate = (tasks: Task[], targetDate: Date): Task[] => {
-  return tasks.filter(task => isTaskEligibleForDate(task, targetDate));
+export const getEligibleTasksForDate = (tasks: Task[], targetDate: Date, exceptions?: OccurrenceExceptions): Task[] => {
+  return tasks.filter(task => isTaskEligibleForDate(task, targetDate, exceptions));
 };
 
 /**
@@ -0,0 +1,185 @@
+import { db, ConflictSide, Task, TaskConflict, TaskFieldConflict, TaskStatus } from '../db/database';
+
+export interface TaskMergeResult {
+  task: Task;
+  conflicts: TaskFieldConflict[];
+}
+
+// Fields where a conflicting edit is queued for review; other fields quietly keep the preferred side
+const REVIEWED_FIELDS: TaskFieldConflict['field'][] = ['title', 'notes', 'dread'];
+
+// Further along wins when both sides changed the status - finishing a task on one device is never lost
+const STATUS_RANK: Record<TaskStatus, number> = { todo: 0, doing: 1, done: 2 };
+
+type TaskValue = Task[keyof Task];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+const asNumber = (value: unknown): number => (typeof value === 'number' ? value : 0);
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+const isTaskStatus = (value: unknown): value is TaskStatus => typeof value === 'string' && value in STATUS_RANK;
+
+/**
+ * Three-way merge of two subtask (or prerequisite id) lists: removals on either side are kept,
+ * additions from both sides are combined (local order first)
+ */
+const mergeSubtasks = (base: string[], local: string[], remote: string[]): string[] => {
+  const removedRemotely = base.filter(item => !remote.includes(item));
+  const merged = local.filter(item => !removedRemotely.includes(item));
+  for (const item of remote) {
+    if (!base.includes(item) && !merged.includes(item)) {
+      merged.push(item);
+    }
+  }
+  return merged;
+};
+
+/**
+ * Notes merge when one side only added to the other, or both only appended to the base
+ */
+const mergeNotes = (base: string | undefined, local: string, remote: string): string | undefined => {
+  if (remote.startsWith(local)) return remote;
+  if (local.startsWith(remote)) return local;
+  if (base && local.startsWith(base) && remote.startsWith(base)) {
+    const remoteAddition = remote.slice(base.length);
+    const separator = local.endsWith('\n') || remoteAddition.startsWith('\n') ? '' : '\n';
+    return `${local}${separator}${remoteAddition}`;
+  }
+  return undefined;
+};
+
+/**
+ * Merge a field both sides changed, or undefined when it is a real conflict
+ */
+const mergeField = (field: keyof Task, base: TaskValue, local: TaskValue, remote: TaskValue): { value: TaskValue } | undefined => {
+  switch (field) {
+    case 'remainingMins':
+      return { value: Math.min(asNumber(local), asNumber(remote)) };
+    case 'lastCompletedAt':
+      return { value: asString(remote) > asString(local) ? remote : local };
+    case 'status': {
+      const remoteAhead = isTaskStatus(remote) && isTaskStatus(local) && STATUS_RANK[remote] > STATUS_RANK[local];
+      return { value: remoteAhead ? remote : local };
+    }
+    case 'subtasks':
+    case 'blockedBy':
+      return { value: mergeSubtasks(asStringList(base), asStringList(local), asStringList(remote)) };
+    case 'notes': {
+      const value = mergeNotes(typeof base === 'string' ? base : undefined, asString(local), asString(remote));
+      return value === undefined ? undefined : { value };
+    }
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Field-level merge of two copies of a task
+ *
+ * A field changed on only one side (compared with base, the last copy both sides agreed on)
+ * takes that change. A field changed on both sides is merged where that makes sense -
+ * subtasks and prerequisites are combined, the lowest remainingMins and the latest lastCompletedAt win, and
+ * the further-along status wins. Anything else keeps the preferred side, and conflicting
+ * title, notes or dread edits are returned for review.
+ * Without a base (restoring a backup) every difference counts as changed on both sides.
+ */
+export const mergeTasks = (base: Task | null | undefined, local: Task, remote: Task, preferRemote: boolean): TaskMergeResult => {
+  const merged: Partial<Record<keyof Task, TaskValue>> = { ...local };
+  const conflicts: TaskFieldConflict[] = [];
+  const fields = new Set([...Object.keys(local), ...Object.keys(remote)]) as Set<keyof Task>;
+
+  for (const field of fields) {
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    if (same(localValue, remoteValue)) continue;
+
+    const baseValue = base?.[field];
+    if (base && same(baseValue, localValue)) {
+      merged[field] = remoteValue;
+      continue;
+    }
+    if (base && same(baseValue, remoteValue)) continue;
+
+    const resolved = mergeField(field, baseValue, localValue, remoteValue);
+    if (resolved) {
+      merged[field] = resolved.value;
+      continue;
+    }
+
+    merged[field] = preferRemote ? remoteValue : localValue;
+    if ((REVIEWED_FIELDS as string[]).includes(field)) {
+      conflicts.push({
+        field: field as TaskFieldConflict['field'],
+        local: localValue,
+        remote: remoteValue,
+        chosen: preferRemote ? 'remote' : 'local'
+      });
+    }
+  }
+
+  return { task: merged as Task, conflicts };
+};
+
+/**
+ * Queue conflicting fields for review (call inside a transaction that includes taskConflicts)
+ * A task keeps one review entry; newer conflicts on a field replace older ones.
+ */
+export const recordTaskConflicts = async (
+  task: Task,
+  conflicts: TaskFieldConflict[],
+  source: TaskConflict['source']
+): Promise<void> => {
+  if (conflicts.length === 0 || !task.id) return;
+
+  const existing = await db.taskConflicts.get(task.id);
+  const fields = [
+    ...(existing?.fields || []).filter(old => !conflicts.some(conflict => conflict.field === old.field)),
+    ...conflicts
+  ];
+
+  await db.taskConflicts.put({
+    taskId: task.id,
+    taskTitle: task.title,
+    source,
+    detectedAt: new Date().toISOString(),
+    fields
+  });
+  console.log(`TASK_CONFLICT ${task.title}: ${conflicts.map(conflict => conflict.field).join(', ')} (${source})`);
+};
+
+export const getTaskConflicts = async (): Promise<TaskConflict[]> => {
+  return db.taskConflicts.orderBy('detectedAt').reverse().toArray();
+};
+
+/**
+ * Apply the user's pick for each conflicting field and clear the review entry
+ * Changing the task goes through the change log, so the pick syncs to other devices.
+ */
+export const resolveTaskConflict = async (
+  taskId: string,
+  choices: Partial<Record<TaskFieldConflict['field'], ConflictSide>>
+): Promise<void> => {
+  await db.transaction('rw', db.tasks, db.taskConflicts, async () => {
+    const conflict = await db.taskConflicts.get(taskId);
+    const task = await db.tasks.get(taskId);
+    if (conflict && task) {
+      const updates: Partial<Task> = {};
+      for (const field of conflict.fields) {
+        const side = choices[field.field] ?? field.chosen;
+        if (side === field.chosen) continue;
+        const value = side === 'local' ? field.local : field.remote;
+        if (field.field === 'dread') {
+          updates.dread = asNumber(value);
+        } else {
+          updates[field.field] = asString(value);
+        }
+      }
+      if (Object.keys(updates).length > 0) {
+        await db.tasks.update(taskId, updates);
+      }
+    }
+    await db.taskConflicts.delete(taskId);
+  });
+};
@@ -1,4 +1,8 @@
 import { Task, Energy, db } from '../db/database';
+import { getLogicalDate, getLogicalDayBounds } from './wakeSchedule';
+import { getCompletionOverdueDays, getIntervalDays, getRecurrenceRule } from './recurrence';
+import { getTodayString } from './localDate';
+import { getBlockedTaskIds } from './taskDependencies';
 
 interface ScoredTask extends Task {
   score: number;
@@ -22,6 +26,13 @@ export const scoreTask = (
     urgency = 0.2; // Default for tasks without deadlines
   }
 
+  // Repeat-after-completion chores get more urgent the longer they're overdue
+  const rule = getRecurrenceRule(task);
+  if (rule?.afterCompletion) {
+    const overdueDays = getCompletionOverdueDays(rule, task.lastCompletedAt, getTodayString());
+    if (overdueDays > 0) urgency = Math.max(urgency, Math.min(1, 0.6 + 0.4 * overdueDays / getIntervalDays(rule)));
+  }
+
   // Value score based on priority (0-1)
   const value = task.priority === 'High' ? 1.0 : task.priority === 'Medium' ? 0.6 : 0.3;
 
@@ -62,14 +73,16 @@ export const getRecommendedTasks = async (
   count: number = 3,
   excludeTaskId?: string
 ): Promise<Task[]> => {
-  // Get all active tasks that aren't snoozed
+  // Get all active tasks that aren't snoozed or waiting on a prerequisite
   const now = new Date().toISOString();
+  const blockedTaskIds = await getBlockedTaskIds();
   const allTasks = await db.tasks
     .where('status')
     .equals('todo')
     .filter(task => {
       if (excludeTaskId && task.id === excludeTaskId) return false;
       if (task.snoozedUntil && task.snoozedUntil > now) return false;
+      if (blockedTaskIds.has(task.id!)) return false;
       return true;
     })
     .toArray();
@@ -101,10 +114,11 @@ export const getRecommendedTasks = async (
 
 export const getMicroTask = async (): Promise<Task | null> => {
   // Get a 5-minute or less task for fallback
+  const blockedTaskIds = await getBlockedTaskIds();
   const microTasks = await db.tasks
     .where('status')
     .equals('todo')
-    .filter(task => task.estimateMins <= 5)
+    .filter(task => task.estimateMins <= 5 && !blockedTaskIds.has(task.id!))
     .toArray();
 
   if (microTasks.length === 0) return null;
@@ -142,8 +156,8 @@ export const calculateWeeklyMinutes = async (domain?: string): Promise<number> =
 };
 
 export const getTodayMinutes = async (): Promise<number> => {
-  const todayStart = new Date();
-  todayStart.setHours(0, 0, 0, 0);
+  const prefs = await db.userPrefs.get(1);
+  const todayStart = prefs ? getLogicalDayBounds(prefs, getLogicalDate(prefs)).start : new Date(new Date().setHours(0, 0, 0, 0));
 
   const sessions = await db.sessions
     .where('startTime')
@@ -0,0 +1,400 @@
+import { db, DailyPlanTask, Domain, Task, UserPrefs } from '../db/database';
+import { getDomainCap } from './wakeDayScheduler';
+import { getWeeklyCapStatuses } from './weeklyCaps';
+import { getWakeWindow, parseTimeInWakeDay } from './wakeSchedule';
+import { fromLocalDateString } from './localDate';
+import { snapshotPlan } from './planHistory';
+
+const MIN_BLOCK_MINUTES = 5;
+const SNAP_MINUTES = 5;
+const MS_PER_MINUTE = 60 * 1000;
+
+// Cascade pushes the following flexible blocks later; compress shortens them to fit
+export type TimelineEditMode = 'cascade' | 'compress';
+
+export interface TimelineEditResult {
+  refusal: string | null; // Why the edit can't be made at all
+  warnings: string[]; // Rules the edit breaks - the user may still apply it
+  blocks: DailyPlanTask[]; // The day's committed plan after the edit
+  taskUpdates: { taskId: string; updates: Partial<Task> }[];
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const generateId = () => {
+  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+};
+
+const toHHMM = (date: Date): string => {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+const formatTime = (time: number): string => {
+  return new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+const spanOf = (block: DailyPlanTask): Span => ({
+  start: new Date(block.scheduledStartTime).getTime(),
+  end: new Date(block.scheduledEndTime).getTime()
+});
+
+const overlaps = (a: Span, b: Span): boolean => a.start < b.end && a.end > b.start;
+
+const isFiller = (block: DailyPlanTask): boolean => block.blockType === 'free' || block.blockType === 'transition';
+
+/**
+ * Lay blocks out one after another from `cursor`, keeping each block's own start
+ * when it is already later, and stepping past any immovable span in the way
+ */
+const layoutChain = (
+  chain: { block: DailyPlanTask; span: Span; minutes: number }[],
+  cursor: number,
+  obstacles: Span[]
+): Span[] => {
+  const placed: Span[] = [];
+  for (const { span, minutes } of chain) {
+    let start = Math.max(span.start, cursor);
+    let moved = true;
+    while (moved) {
+      moved = false;
+      for (const obstacle of obstacles) {
+        if (overlaps({ start, end: start + minutes * MS_PER_MINUTE }, obstacle)) {
+          start = obstacle.end;
+          moved = true;
+        }
+      }
+    }
+    const next = { start, end: start + minutes * MS_PER_MINUTE };
+    placed.push(next);
+    cursor = next.end;
+  }
+  return placed;
+};
+
+/**
+ * Free and transition blocks give way to the moved blocks, and time the moved
+ * blocks left behind becomes free time
+ */
+const rebuildFillers = (
+  fillers: DailyPlanTask[],
+  occupied: DailyPlanTask[],
+  range: Span,
+  prefs: UserPrefs,
+  planDate: string
+): DailyPlanTask[] => {
+  const occupiedSpans = occupied.map(spanOf).sort((a, b) => a.start - b.start);
+  const result: DailyPlanTask[] = [];
+
+  for (const filler of fillers) {
+    let pieces: Span[] = [spanOf(filler)];
+    for (const span of occupiedSpans) {
+      pieces = pieces.flatMap(piece => {
+        if (!overlaps(piece, span)) return [piece];
+        return [
+          { start: piece.start, end: span.start },
+          { start: span.end, end: piece.end }
+        ].filter(part => part.end - part.start >= MS_PER_MINUTE);
+      });
+    }
+    pieces.forEach((piece, i) => {
+      result.push({
+        ...filler,
+        id: i === 0 ? filler.id : generateId(),
+        scheduledStartTime: new Date(piece.start).toISOString(),
+        scheduledEndTime: new Date(piece.end).toISOString(),
+        sliceDuration: (piece.end - piece.start) / MS_PER_MINUTE
+      });
+    });
+  }
+
+  // Fill whatever is still uncovered inside the original plan's range
+  const covered = [...occupiedSpans, ...result.map(spanOf)].sort((a, b) => a.start - b.start);
+  let cursor = range.start;
+  const gaps: Span[] = [];
+  for (const span of covered) {
+    if (span.start > cursor) gaps.push({ start: cursor, end: span.start });
+    cursor = Math.max(cursor, span.end);
+  }
+  if (cursor < range.end) gaps.push({ start: cursor, end: range.end });
+
+  for (const gap of gaps) {
+    if (gap.end - gap.start < MS_PER_MINUTE) continue;
+    result.push({
+      id: generateId(),
+      taskId: null,
+      planDate,
+      scheduledStartTime: new Date(gap.start).toISOString(),
+      scheduledEndTime: new Date(gap.end).toISOString(),
+      completed: false,
+      order: 0,
+      blockType: 'free',
+      freeType: prefs.freeTimePreference,
+      sliceDuration: (gap.end - gap.start) / MS_PER_MINUTE,
+      isDraft: false
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Work out a drag or resize on today's timeline without saving it
+ *
+ * Completed blocks, interruptions, pinned blocks and Fixed tasks stay put.
+ * Flexible blocks after the edited one are pushed later (cascade) or shortened
+ * to keep the rest of the day where it was (compress).
+ */
+export const planTimelineEdit = async (
+  planDate: string,
+  blockId: string,
+  newStart: Date,
+  newEnd: Date,
+  mode: TimelineEditMode
+): Promise<TimelineEditResult> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+
+  const refuse = (refusal: string): TimelineEditResult => ({ refusal, warnings: [], blocks: [], taskUpdates: [] });
+
+  const blocks = await db.dailyPlanTasks
+    .where('planDate')
+    .equals(planDate)
+    .and(block => !block.isDraft)
+    .toArray();
+
+  const edited = blocks.find(block => block.id === blockId);
+  if (!edited || edited.blockType !== 'task' || !edited.taskId) {
+    return refuse('Only task blocks can be moved.');
+  }
+  if (edited.completed) {
+    return refuse('Completed blocks stay where they happened.');
+  }
+
+  const tasks = new Map<string, Task>();
+  for (const block of blocks) {
+    if (block.taskId && !tasks.has(block.taskId)) {
+      const task = await db.tasks.get(block.taskId);
+      if (task) tasks.set(block.taskId, task);
+    }
+  }
+  const editedTask = tasks.get(edited.taskId);
+  if (!editedTask) {
+    return refuse('This block\'s task no longer exists.');
+  }
+
+  const editedSpan: Span = { start: newStart.getTime(), end: newEnd.getTime() };
+  const editedMinutes = (editedSpan.end - editedSpan.start) / MS_PER_MINUTE;
+  if (editedMinutes < MIN_BLOCK_MINUTES) {
+    return refuse(`Blocks must be at least ${MIN_BLOCK_MINUTES} minutes long.`);
+  }
+
+  // Fixed tasks can be resized but not moved off their fixed time
+  if (editedTask.taskType === 'Fixed') {
+    const fixedStart = editedTask.fixedStartTime ? new Date(editedTask.fixedStartTime).getTime() : spanOf(edited).start;
+    if (editedSpan.start !== fixedStart) {
+      return refuse(
+        `"${editedTask.title}" is Fixed at ${formatTime(fixedStart)}. ` +
+        'Change its fixed time in the Task Library to move it.'
+      );
+    }
+  }
+
+  const getLabel = (block: DailyPlanTask): string => {
+    if (block.blockType === 'interruption') return 'an interruption';
+    const task = block.taskId ? tasks.get(block.taskId) : undefined;
+    return task ? `"${task.title}"` : 'another block';
+  };
+
+  const isImmovable = (block: DailyPlanTask): boolean => {
+    if (block.id === edited.id || isFiller(block)) return false;
+    if (block.blockType === 'interruption' || block.completed || block.pinned) return true;
+    const task = block.taskId ? tasks.get(block.taskId) : undefined;
+    return task?.taskType === 'Fixed';
+  };
+
+  const immovable = blocks.filter(isImmovable);
+  const blocking = immovable.find(block => overlaps(editedSpan, spanOf(block)));
+  if (blocking) {
+    const kind = blocking.pinned ? 'locked' : blocking.completed || blocking.blockType === 'interruption' ? 'already done' : 'Fixed';
+    return refuse(`That overlaps ${getLabel(blocking)}, which is ${kind}.`);
+  }
+
+  // Flexible blocks not entirely before the new position make way for it
+  const chain = blocks
+    .filter(block => block.id !== edited.id && block.blockType === 'task' && !isImmovable(block))
+    .filter(block => spanOf(block).end > editedSpan.start)
+    .sort((a, b) => spanOf(a).start - spanOf(b).start)
+    .map(block => ({ block, span: spanOf(block), minutes: (spanOf(block).end - spanOf(block).start) / MS_PER_MINUTE }));
+
+  const obstacles = [...immovable.map(spanOf), editedSpan];
+  let placed = layoutChain(chain, editedSpan.end, obstacles);
+  const warnings: string[] = [];
+
+  if (mode === 'compress') {
+    const pushed = chain.map((item, i) => ({ item, i })).filter(({ item, i }) => placed[i].start !== item.span.start);
+    if (pushed.length > 0) {
+      const last = pushed[pushed.length - 1];
+      const overflow = (placed[last.i].end - last.item.span.end) / MS_PER_MINUTE;
+      if (overflow > 0) {
+        const total = pushed.reduce((sum, { item }) => sum + item.minutes, 0);
+        const scale = Math.max(0, (total - overflow) / total);
+        let shortenedBy = 0;
+        for (const { item } of pushed) {
+          const compressed = Math.max(
+            MIN_BLOCK_MINUTES,
+            Math.floor((item.minutes * scale) / SNAP_MINUTES) * SNAP_MINUTES
+          );
+          shortenedBy += item.minutes - compressed;
+          item.minutes = compressed;
+        }
+        placed = layoutChain(chain, editedSpan.end, obstacles);
+
+        warnings.push(`Shortened ${pushed.length} following block(s) by ${Math.round(shortenedBy)} min in total.`);
+        const stillOver = (placed[last.i].end - last.item.span.end) / MS_PER_MINUTE;
+        if (stillOver > 0) {
+          warnings.push(`Couldn't compress enough - the following blocks still end ${Math.round(stillOver)} min later.`);
+        }
+      }
+    }
+  }
+
+  const movedBlocks: DailyPlanTask[] = [
+    {
+      ...edited,
+      scheduledStartTime: newStart.toISOString(),
+      scheduledEndTime: newEnd.toISOString(),
+      sliceDuration: editedMinutes,
+      pinned: true // A block placed by hand stays there through later reflows
+    },
+    ...chain.map(({ block, minutes }, i) => ({
+      ...block,
+      scheduledStartTime: new Date(placed[i].start).toISOString(),
+      scheduledEndTime: new Date(placed[i].end).toISOString(),
+      sliceDuration: minutes
+    }))
+  ];
+
+  // Time windows and the end of the day
+  const logicalDate = fromLocalDateString(planDate);
+  const { sleep } = getWakeWindow(prefs, logicalDate);
+  for (const block of movedBlocks) {
+    const task = tasks.get(block.taskId!);
+    if (!task) continue;
+    const span = spanOf(block);
+    const original = blocks.find(b => b.id === block.id)!;
+    if (block.id !== edited.id && span.start === spanOf(original).start && span.end === spanOf(original).end) continue;
+
+    if (task.mustFinishByTime) {
+      const mustFinishBy = parseTimeInWakeDay(prefs, task.mustFinishByTime, logicalDate).getTime();
+      if (span.end > mustFinishBy) {
+        warnings.push(`"${task.title}" would finish at ${formatTime(span.end)}, after its must-finish-by time of ${formatTime(mustFinishBy)}.`);
+      }
+    }
+    if (task.eligibleStartTime) {
+      const eligibleStart = parseTimeInWakeDay(prefs, task.eligibleStartTime, logicalDate).getTime();
+      if (span.start < eligibleStart) {
+        warnings.push(`"${task.title}" would start at ${formatTime(span.start)}, before its earliest start of ${formatTime(eligibleStart)}.`);
+      }
+    }
+    if (span.end > sleep.getTime()) {
+      warnings.push(`"${task.title}" would run past your sleep time (${formatTime(sleep.getTime())}).`);
+    }
+  }
+
+  // Domain caps: only warn about domains this edit adds time to
+  const movedById = new Map(movedBlocks.map(block => [block.id, block]));
+  const minutesByDomain = (plan: DailyPlanTask[], unfinishedOnly: boolean): Partial<Record<Domain, number>> => {
+    const totals: Partial<Record<Domain, number>> = {};
+    for (const block of plan) {
+      if (block.blockType !== 'task' || !block.taskId || (unfinishedOnly && block.completed)) continue;
+      const domain = tasks.get(block.taskId)?.domain;
+      if (domain) totals[domain] = (totals[domain] || 0) + (block.sliceDuration || 0);
+    }
+    return totals;
+  };
+  const afterBlocks = blocks.map(block => movedById.get(block.id) || block);
+  const dayBefore = minutesByDomain(blocks, false);
+  const dayAfter = minutesByDomain(afterBlocks, false);
+
+  for (const [domain, after] of Object.entries(dayAfter) as [Domain, number][]) {
+    if (after <= (dayBefore[domain] || 0)) continue;
+    const dailyCap = await getDomainCap(domain, prefs, logicalDate);
+    if (after > dailyCap) {
+      warnings.push(`${domain} would be over its daily cap (${Math.round(after / 60 * 10) / 10}h of ${Math.round(dailyCap / 60 * 10) / 10}h).`);
+    }
+  }
+
+  if (prefs.permissionRules.softCap || prefs.permissionRules.hardCap) {
+    const unfinishedAfter = minutesByDomain(afterBlocks, true);
+    const statuses = await getWeeklyCapStatuses(prefs, logicalDate, planDate);
+    for (const status of statuses) {
+      const after = unfinishedAfter[status.domain] || 0;
+      if ((dayAfter[status.domain] || 0) <= (dayBefore[status.domain] || 0)) continue;
+      const total = status.usedMinutes + after;
+      if (total > status.capMinutes) {
+        warnings.push(`${status.domain} would be over its weekly cap (${Math.round(total / 60 * 10) / 10}h of ${Math.round(status.capMinutes / 60 * 10) / 10}h).`);
+      }
+    }
+  }
+
+  // Rebuild the day: moved blocks, untouched blocks, then free/transition time around them
+  const occupied = blocks
+    .filter(block => !isFiller(block))
+    .map(block => movedById.get(block.id) || block);
+  const allSpans = blocks.map(spanOf);
+  const range: Span = {
+    start: Math.min(...allSpans.map(span => span.start)),
+    end: Math.max(...allSpans.map(span => span.end))
+  };
+  const fillers = rebuildFillers(blocks.filter(isFiller), occupied, range, prefs, planDate);
+
+  const finalBlocks = [...occupied, ...fillers]
+    .sort((a, b) => spanOf(a).start - spanOf(b).start)
+    .map((block, order) => ({ ...block, order }));
+
+  // The dragged task's window and estimate follow the new placement
+  const taskUpdates: TimelineEditResult['taskUpdates'] = [];
+  const updates: Partial<Task> = {};
+  if (editedTask.eligibleStartTime && editedSpan.start < parseTimeInWakeDay(prefs, editedTask.eligibleStartTime, logicalDate).getTime()) {
+    updates.eligibleStartTime = toHHMM(newStart);
+  }
+  if (editedTask.mustFinishByTime && editedSpan.end > parseTimeInWakeDay(prefs, editedTask.mustFinishByTime, logicalDate).getTime()) {
+    updates.mustFinishByTime = toHHMM(newEnd);
+  }
+  const originalMinutes = (spanOf(edited).end - spanOf(edited).start) / MS_PER_MINUTE;
+  if (!editedTask.isProject && editedMinutes !== originalMinutes) {
+    updates.estimateMins = editedMinutes;
+  }
+  if (Object.keys(updates).length > 0) {
+    taskUpdates.push({ taskId: editedTask.id!, updates });
+  }
+
+  return { refusal: null, warnings, blocks: finalBlocks, taskUpdates };
+};
+
+/**
+ * Save a planned timeline edit (snapshotting the old plan first, so it can be undone)
+ */
+export const applyTimelineEdit = async (planDate: string, result: TimelineEditResult): Promise<void> => {
+  await snapshotPlan(planDate, 'manualEdit');
+
+  await db.transaction('rw', [db.dailyPlanTasks, db.tasks], async () => {
+    await db.dailyPlanTasks
+      .where('planDate')
+      .equals(planDate)
+      .and(block => !block.isDraft)
+      .delete();
+    await db.dailyPlanTasks.bulkAdd(result.blocks);
+
+    for (const { taskId, updates } of result.taskUpdates) {
+      await db.tasks.update(taskId, updates);
+    }
+  });
+
+  console.log(`TIMELINE_EDIT ${planDate}: ${result.blocks.length} blocks saved`, result.taskUpdates);
+};
@@ -0,0 +1,40 @@
+import { Domain, UserPrefs } from '../db/database';
+
+export type TransitionKind = 'switch' | 'travel';
+
+export interface TransitionNeed {
+  minutes: number;
+  kind: TransitionKind;
+}
+
+const DEFAULT_SWITCH_MINUTES = 5;
+const DEFAULT_ERRAND_TRAVEL_MINUTES = 15;
+
+/**
+ * Key for a domain pair in prefs.transitionBuffers
+ */
+export const getTransitionKey = (from: Domain, to: Domain): string => `${from}>${to}`;
+
+/**
+ * Setup time needed between two blocks
+ *
+ * `null` stands for home / the edge of the day. Switching domains costs the
+ * pair's buffer (or the default switch time), and going to or from an Errand
+ * adds travel time on top.
+ */
+export const getTransitionNeed = (prefs: UserPrefs, from: Domain | null, to: Domain | null): TransitionNeed => {
+  const travel = prefs.errandTravelMinutes ?? DEFAULT_ERRAND_TRAVEL_MINUTES;
+  const leavesErrand = from === 'Errand' && to !== 'Errand';
+  const entersErrand = to === 'Errand' && from !== 'Errand';
+  const travelMinutes = (leavesErrand ? travel : 0) + (entersErrand ? travel : 0);
+
+  let switchMinutes = 0;
+  if (from && to && from !== to) {
+    const pairMinutes = prefs.transitionBuffers?.[getTransitionKey(from, to)];
+    switchMinutes = pairMinutes ?? prefs.defaultTransitionMinutes ?? DEFAULT_SWITCH_MINUTES;
+  }
+
+  // Travel already covers the context switch, so take the larger of the two
+  const minutes = Math.max(travelMinutes, switchMinutes);
+  return { minutes, kind: travelMinutes > 0 && travelMinutes >= switchMinutes ? 'travel' : 'switch' };
+};
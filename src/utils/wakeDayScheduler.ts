@@ -1,31 +1,67 @@
 import { Task, DailyPlanTask, db, Domain, FreeTimeType, TaskType, Energy, cleanupArchivedTasks } from '../db/database';
 import { isTaskEligibleForDate } from './taskEligibility';
 import { getTodaysSlice } from './projectChunking';
+import { calculateDailyEnergyCurve, getSlotEnergyMismatch } from './bioRhythm';
+import { getWeeklyCapStatuses, getWeekStart, isRecoveryDay, getRecoveryCap } from './weeklyCaps';
+import { getProtectedWindows, findProtectedConflict } from './protectedTimes';
+import { getTransitionNeed } from './transitions';
+import { snapshotPlan } from './planHistory';
+import { getWakeWindow, getLogicalDate, getLogicalDateString, parseTimeInWakeDay } from './wakeSchedule';
+import { toLocalDateString, fromLocalDateString, toDateKey } from './localDate';
+import { getCompletionOverdueDays, getIntervalDays, getRecurrenceRule } from './recurrence';
+import { OccurrenceExceptions, getOccurrenceExceptions } from './occurrenceLedger';
+import { getBlockingTasks, isTaskBlocked } from './taskDependencies';
 
 // Generate UUID for browser compatibility
 const generateId = () => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+const SLOT_STEP_MINUTES = 15; // Granularity when searching for a better-matched slot
+const DEFAULT_ENERGY_MATCH_PENALTY = 5;
+
+export type ScheduleDecisionReason =
+  | 'placed'
+  | 'domainCap'
+  | 'noSlot'
+  | 'fixedOtherDay'
+  | 'timeConflict'
+  | 'outsideWakeDay'
+  | 'protectedTime'
+  | 'missingFixedTime'
+  | 'blocked';
+
 /**
- * Check if a task's energy requirement matches the current energy level
- * - Low energy tasks: can be done at any energy level (Low, Medium, High)
- * - Medium energy tasks: require Medium or High energy
- * - High energy tasks: require High energy only
+ * One entry in the scheduler's decision trace - why a task was placed or skipped
  */
-const canDoTaskAtEnergy = (taskEnergy: Energy, currentEnergy: Energy): boolean => {
-  if (taskEnergy === 'Low') return true; // Low can be done anytime
-  if (taskEnergy === 'Medium') return currentEnergy === 'Medium' || currentEnergy === 'High';
-  if (taskEnergy === 'High') return currentEnergy === 'High';
-  return false;
-};
+export interface ScheduleDecision {
+  taskId: string;
+  title: string;
+  domain: Domain;
+  outcome: 'placed' | 'skipped';
+  reason: ScheduleDecisionReason;
+  detail: string;
+  score?: number;
+  slotStart?: string; // ISO datetime when placed
+  slotEnd?: string;
+  warning?: string; // Placed despite a rule it breaks (a Fixed task in protected time)
+}
 
 interface ScheduleResult {
   plannedTasks: DailyPlanTask[];
   totalMinutes: number;
   message: string;
+  trace: ScheduleDecision[];
 }
 
+interface StoredScheduleTrace {
+  planDate: string;
+  generatedAt: string;
+  decisions: ScheduleDecision[];
+}
+
+const TRACE_STORAGE_KEY = 'rhythmPlanner_scheduleTrace';
+
 interface DomainAllocation {
   domain: Domain;
   minutesUsed: number;
@@ -41,10 +77,25 @@ interface ScheduleItem {
   mustFinishBy?: Date;
 }
 
+/**
+ * State carried between days when planning across a multi-day horizon
+ */
+interface HorizonContext {
+  placedTaskIds: Set<string>; // One-off tasks already placed on an earlier day
+  projectMinsPlanned: Map<string, number>; // Project minutes already sliced on earlier days
+  weeklyMinutesPlanned: Map<string, number>; // Draft minutes per `${weekStart}|${domain}` on earlier days
+}
+
+interface MultiDayScheduleResult {
+  days: { planDate: string; plannedTasks: DailyPlanTask[]; taskCount: number; taskMinutes: number }[];
+  unplacedTasks: Task[];
+  message: string;
+}
+
 /**
  * Get domain cap for a specific date (in minutes)
  */
-const getDomainCap = async (domain: Domain, prefs: any, date: Date): Promise<number> => {
+export const getDomainCap = async (domain: Domain, prefs: any, date: Date): Promise<number> => {
   const dayOfWeek = date.getDay() === 0 ? 7 : date.getDay();
 
   switch (domain) {
@@ -74,7 +125,7 @@ const scoreTask = (task: Task, targetDate: Date): number => {
   // Urgency from deadline/dueDate
   const deadline = task.dueDate || task.deadline;
   if (deadline) {
-    const daysUntil = (new Date(deadline).getTime() - targetDate.getTime()) / (1000 * 60 * 60 * 24);
+    const daysUntil = (fromLocalDateString(toDateKey(deadline)).getTime() - targetDate.getTime()) / (1000 * 60 * 60 * 24);
     if (daysUntil < 0) score += 30; // Overdue!
     else if (daysUntil < 1) score += 25;
     else if (daysUntil < 3) score += 15;
@@ -82,6 +133,13 @@ const scoreTask = (task: Task, targetDate: Date): number => {
     else score += 5;
   }
 
+  // Urgency from repeat-after-completion chores: grows with how late they are relative to their interval
+  const rule = getRecurrenceRule(task);
+  if (rule?.afterCompletion) {
+    const overdueDays = getCompletionOverdueDays(rule, task.lastCompletedAt, toLocalDateString(targetDate));
+    if (overdueDays > 0) score += Math.min(30, 10 + 20 * overdueDays / getIntervalDays(rule));
+  }
+
   // Priority
   if (task.priority === 'High') score += 15;
   else if (task.priority === 'Medium') score += 10;
@@ -99,16 +157,6 @@ const scoreTask = (task: Task, targetDate: Date): number => {
   return score;
 };
 
-/**
- * Parse time string (HH:MM) and apply to a date
- */
-const parseTimeToDate = (timeStr: string, baseDate: Date): Date => {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  const result = new Date(baseDate);
-  result.setHours(hours, minutes, 0, 0);
-  return result;
-};
-
 /**
  * Check if a time window is available in the schedule
  */
@@ -172,6 +220,94 @@ const findNextAvailableSlot = (
   return null; // No slot found
 };
 
+const formatTraceTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+/**
+ * Get the decision trace saved by the last committed schedule for a date
+ */
+export const getLastScheduleTrace = (planDate: string): StoredScheduleTrace | null => {
+  try {
+    const stored = localStorage.getItem(TRACE_STORAGE_KEY);
+    if (!stored) return null;
+    const trace: StoredScheduleTrace = JSON.parse(stored);
+    return trace.planDate === planDate ? trace : null;
+  } catch (error) {
+    console.error('Failed to read schedule trace:', error);
+    return null;
+  }
+};
+
+/**
+ * Check eligibility for a date, allowing one-off tasks to be pulled ahead
+ * of their dueDate when planning across a horizon
+ */
+const isTaskEligibleWithinHorizon = (
+  task: Task,
+  targetDate: Date,
+  dateString: string,
+  exceptions: OccurrenceExceptions,
+  horizon?: HorizonContext
+): boolean => {
+  if (!horizon) return isTaskEligibleForDate(task, targetDate, exceptions);
+  if (horizon.placedTaskIds.has(task.id!)) return false;
+  if (isTaskEligibleForDate(task, targetDate, exceptions)) return true;
+
+  if (task.recurrence === 'Once' && task.dueDate) {
+    const dueDateString = toDateKey(task.dueDate);
+    return dateString < dueDateString && isTaskEligibleForDate({ ...task, dueDate: null }, targetDate, exceptions);
+  }
+  return false;
+};
+
+/**
+ * Find the free slot that best matches a task's energy to the bio-rhythm curve
+ * Cost = average energy mismatch × penalty weight + hours of delay past the
+ * first free slot, so a weight of 0 degrades to plain first-fit packing
+ */
+const findBestEnergySlot = (
+  duration: number,
+  searchStart: Date,
+  dayEnd: Date,
+  existingBlocks: DailyPlanTask[],
+  taskEnergy: Energy,
+  energyCurve: Energy[],
+  penaltyWeight: number,
+  eligibleStart?: Date,
+  mustFinishBy?: Date
+): { start: Date; end: Date; mismatch: number } | null => {
+  const first = findNextAvailableSlot(duration, searchStart, dayEnd, existingBlocks, eligibleStart, mustFinishBy);
+  if (!first) return null;
+
+  const firstMismatch = getSlotEnergyMismatch(first.start, first.end, taskEnergy, energyCurve);
+  if (penaltyWeight <= 0 || firstMismatch === 0) {
+    return { ...first, mismatch: firstMismatch };
+  }
+
+  let best = { ...first, mismatch: firstMismatch };
+  let bestCost = firstMismatch * penaltyWeight;
+  let cursor = new Date(first.start.getTime() + SLOT_STEP_MINUTES * 60 * 1000);
+
+  while (true) {
+    const candidate = findNextAvailableSlot(duration, cursor, dayEnd, existingBlocks, eligibleStart, mustFinishBy);
+    if (!candidate) break;
+
+    const mismatch = getSlotEnergyMismatch(candidate.start, candidate.end, taskEnergy, energyCurve);
+    const delayHours = (candidate.start.getTime() - first.start.getTime()) / (1000 * 60 * 60);
+    const cost = mismatch * penaltyWeight + delayHours;
+
+    if (cost < bestCost) {
+      best = { ...candidate, mismatch };
+      bestCost = cost;
+    }
+
+    cursor = new Date(candidate.start.getTime() + SLOT_STEP_MINUTES * 60 * 1000);
+  }
+
+  return best;
+};
+
 /**
  * Generate wake-day schedule with priority ordering:
  * 1. Fixed items at exact times
@@ -182,9 +318,11 @@ const findNextAvailableSlot = (
 export const generateWakeDaySchedule = async (
   targetDate: Date,
   isDraft: boolean = false,
-  forceStartTime?: Date
+  forceStartTime?: Date,
+  horizon?: HorizonContext
 ): Promise<ScheduleResult> => {
-  const dateString = targetDate.toISOString().split('T')[0];
+  // targetDate is the logical day (the day that started at wake time), not the calendar date of "now"
+  const dateString = toLocalDateString(targetDate);
 
   // Get user preferences
   const prefs = await db.userPrefs.get(1);
@@ -192,11 +330,13 @@ export const generateWakeDaySchedule = async (
     throw new Error('User preferences not found');
   }
 
-  // Determine wake and sleep times for this day
+  // Determine wake and sleep times for this day (date override > weekday template > defaults)
+  // Sleep may fall after midnight, in which case the window spans two calendar dates
+  const wakeWindow = getWakeWindow(prefs, targetDate);
   let wakeTime: Date;
   let sleepTime: Date;
 
-  const todayString = new Date().toISOString().split('T')[0];
+  const todayString = getLogicalDateString(prefs);
   const isToday = dateString === todayString;
 
   if (forceStartTime) {
@@ -212,16 +352,16 @@ export const generateWakeDaySchedule = async (
   } else if (isToday && !prefs.actualWakeTimeToday) {
     // Today but not started - use current time or default wake time (whichever is later)
     const now = new Date();
-    const defaultWake = parseTimeToDate(prefs.defaultWakeTime, targetDate);
+    const defaultWake = wakeWindow.wake;
     const laterTime = now > defaultWake ? now : defaultWake;
     // Round up to next 5-minute increment
     wakeTime = roundUpToNext5Min(laterTime);
   } else {
     // Future day - use default wake time (already aligned to time grid)
-    wakeTime = parseTimeToDate(prefs.defaultWakeTime, targetDate);
+    wakeTime = wakeWindow.wake;
   }
 
-  sleepTime = parseTimeToDate(prefs.defaultSleepTime, targetDate);
+  sleepTime = wakeWindow.sleep;
 
   // Calculate total available minutes
   const totalAvailableMinutes = Math.max(0, (sleepTime.getTime() - wakeTime.getTime()) / (1000 * 60));
@@ -230,23 +370,49 @@ export const generateWakeDaySchedule = async (
     return {
       plannedTasks: [],
       totalMinutes: 0,
-      message: 'No time available today'
+      message: 'No time available today',
+      trace: []
     };
   }
 
-  // Get existing interruptions and completed blocks for today (if not draft and is today)
+  // Get existing interruptions, completed and pinned blocks for today (if not draft and is today)
+  // Pinned blocks are immovable, like Fixed tasks - the reflow plans around them
   let existingBlocks: DailyPlanTask[] = [];
   if (!isDraft && isToday) {
     const existing = await db.dailyPlanTasks
       .where('planDate')
       .equals(dateString)
-      .and(block => block.blockType === 'interruption' || block.completed === true)
+      .and(block => !block.isDraft && (block.blockType === 'interruption' || block.completed === true || block.pinned === true))
       .toArray();
     existingBlocks = existing;
   }
+  const pinnedBlocks = existingBlocks.filter(block => block.pinned && !block.completed && block.taskId);
 
-  // Get current energy level (default to Medium if not set)
-  const currentEnergy: Energy = prefs.currentEnergy || 'Medium';
+  // Hourly energy from the bio-rhythm profile drives slot placement.
+  // For today, the energy the user reports right now overrides the current hour.
+  const energyCurve = calculateDailyEnergyCurve(prefs.bioRhythmProfile, prefs.customBioRhythmSegments);
+  if (isToday && prefs.currentEnergy) {
+    energyCurve[new Date().getHours()] = prefs.currentEnergy;
+  }
+  const energyPenalty = prefs.energyMatchPenalty ?? DEFAULT_ENERGY_MATCH_PENALTY;
+
+  // Protected windows act as occupied time for the domains they block
+  const protectedBlocksByDomain = new Map<Domain, DailyPlanTask[]>();
+  const getProtectedBlocks = (domain: Domain): DailyPlanTask[] => {
+    if (!protectedBlocksByDomain.has(domain)) {
+      protectedBlocksByDomain.set(domain, getProtectedWindows(prefs, wakeTime, sleepTime, domain).map((window, i) => ({
+        id: `protected-${i}`,
+        taskId: null,
+        planDate: dateString,
+        scheduledStartTime: window.start.toISOString(),
+        scheduledEndTime: window.end.toISOString(),
+        completed: false,
+        order: -1,
+        blockType: 'rest' as const
+      })));
+    }
+    return protectedBlocksByDomain.get(domain)!;
+  };
 
   // CRITICAL: For today's schedule, we must preserve all tasks already assigned to today
   // Get tasks in TWO categories:
@@ -256,13 +422,24 @@ export const generateWakeDaySchedule = async (
   let tasksAssignedToday: Task[] = [];
   let otherEligibleTasks: Task[] = [];
 
-  // Fetch all todo tasks once at function scope (needed for wrongEnergy calculation later)
+  // Fetch all todo tasks once at function scope
   // Exclude archived tasks from scheduling
   const allTodoTasks = await db.tasks
     .where('status')
     .equals('todo')
     .and(task => !task.archived)
     .toArray();
+  const exceptions = await getOccurrenceExceptions();
+
+  // Tasks waiting on an open prerequisite sit out until it's done - across a horizon,
+  // until it has a day of its own. Assigned ones keep their assignedDate for the next reflow.
+  const tasksById = new Map((await db.tasks.toArray()).map(task => [task.id!, task]));
+  const blockedTasks: Task[] = [];
+  const isUnblocked = (task: Task) => {
+    if (!isTaskBlocked(task, tasksById, horizon?.placedTaskIds)) return true;
+    blockedTasks.push(task);
+    return false;
+  };
 
   if (isToday && !isDraft) {
     // For today's real schedule: prioritize tasks already assigned
@@ -271,6 +448,7 @@ export const generateWakeDaySchedule = async (
       .equals(dateString)
       .and(task => (task.status === 'todo' || task.status === 'doing') && task.id !== undefined && !task.archived)
       .toArray();
+    tasksAssignedToday = tasksAssignedToday.filter(isUnblocked);
 
     console.log(`  → Found ${tasksAssignedToday.length} tasks already assigned to today`);
     console.log('  → Assigned task details:', tasksAssignedToday.map(t => ({ id: t.id, title: t.title, energy: t.energy })));
@@ -279,15 +457,15 @@ export const generateWakeDaySchedule = async (
     otherEligibleTasks = allTodoTasks.filter(task =>
       task.id &&
       task.assignedDate !== dateString && // Not already assigned to today
-      isTaskEligibleForDate(task, targetDate) &&
-      canDoTaskAtEnergy(task.energy, currentEnergy)
+      isTaskEligibleForDate(task, targetDate, exceptions) &&
+      isUnblocked(task)
     );
 
     console.log(`  → Found ${otherEligibleTasks.length} other eligible tasks for backfill`);
   } else {
     // For drafts or future days: use standard eligibility
     otherEligibleTasks = allTodoTasks.filter(task =>
-      task.id && isTaskEligibleForDate(task, targetDate) && canDoTaskAtEnergy(task.energy, currentEnergy)
+      task.id && isTaskEligibleWithinHorizon(task, targetDate, dateString, exceptions, horizon) && isUnblocked(task)
     );
   }
 
@@ -295,6 +473,30 @@ export const generateWakeDaySchedule = async (
   const eligibleTasks = [...tasksAssignedToday, ...otherEligibleTasks];
   console.log(`  → Total eligible tasks to schedule: ${eligibleTasks.length}`);
 
+  // Decision trace - one entry per task, later decisions overwrite earlier ones
+  const decisions = new Map<string, ScheduleDecision>();
+  const recordDecision = (
+    task: Task,
+    reason: ScheduleDecisionReason,
+    detail: string,
+    extra: Partial<ScheduleDecision> = {}
+  ) => {
+    decisions.set(task.id!, {
+      taskId: task.id!,
+      title: task.title,
+      domain: task.domain,
+      outcome: reason === 'placed' ? 'placed' : 'skipped',
+      reason,
+      detail,
+      ...extra
+    });
+  };
+
+  for (const task of blockedTasks) {
+    const waitingOn = getBlockingTasks(task, tasksById, horizon?.placedTaskIds).map(prerequisite => prerequisite.title);
+    recordDecision(task, 'blocked', `Waiting on ${waitingOn.join(', ')}`);
+  }
+
   // Initialize domain allocations
   const domainAllocations: Record<Domain, DomainAllocation> = {
     Work: { domain: 'Work', minutesUsed: 0, maxMinutes: await getDomainCap('Work', prefs, targetDate) },
@@ -320,6 +522,64 @@ export const generateWakeDaySchedule = async (
     }
   }
 
+  // Domain of every task block, for transition buffers between neighbours
+  const taskDomains = new Map<string, Domain>(eligibleTasks.map(t => [t.id!, t.domain]));
+
+  // Work block count limit (0 = no limit)
+  const maxWorkBlocks = prefs.maxWorkBlocksPerDay > 0 ? prefs.maxWorkBlocksPerDay : Infinity;
+  let workBlockCount = 0;
+  for (const block of existingBlocks) {
+    if (block.blockType === 'task' && block.taskId) {
+      const task = await db.tasks.get(block.taskId);
+      if (task) taskDomains.set(block.taskId, task.domain);
+      if (task && task.domain === 'Work') workBlockCount++;
+    }
+  }
+
+  const getBlockDomain = (block: DailyPlanTask): Domain | null => {
+    return block.blockType === 'task' && block.taskId ? taskDomains.get(block.taskId) || null : null;
+  };
+
+  // Neighbouring task blocks grow by the setup/travel time needed to switch to and from `domain`
+  const withTransitionPadding = (domain: Domain, blocks: DailyPlanTask[]): DailyPlanTask[] => {
+    return blocks.map(block => {
+      const neighbour = getBlockDomain(block);
+      if (!neighbour) return block;
+      const before = getTransitionNeed(prefs, domain, neighbour).minutes;
+      const after = getTransitionNeed(prefs, neighbour, domain).minutes;
+      if (before === 0 && after === 0) return block;
+      return {
+        ...block,
+        scheduledStartTime: new Date(new Date(block.scheduledStartTime).getTime() - before * 60 * 1000).toISOString(),
+        scheduledEndTime: new Date(new Date(block.scheduledEndTime).getTime() + after * 60 * 1000).toISOString()
+      };
+    });
+  };
+
+  // Recovery mode: lighten the day after an over-cap day
+  const recoveryDay = await isRecoveryDay(prefs, targetDate);
+  if (recoveryDay) {
+    domainAllocations.Work.maxMinutes = Math.min(domainAllocations.Work.maxMinutes, getRecoveryCap(await getDomainCap('Work', prefs, targetDate)));
+    domainAllocations.SideHustle.maxMinutes = Math.min(domainAllocations.SideHustle.maxMinutes, getRecoveryCap(await getDomainCap('SideHustle', prefs, targetDate)));
+    console.log(`RECOVERY_MODE ${dateString}: Work cap ${domainAllocations.Work.maxMinutes}m, SideHustle cap ${domainAllocations.SideHustle.maxMinutes}m`);
+  }
+
+  // Weekly caps from this week's sessions and committed blocks (plus earlier horizon drafts)
+  // hardCap shrinks today's allocation to what's left of the week; softCap only warns
+  const { softCap, hardCap } = prefs.permissionRules;
+  const weekKey = toLocalDateString(getWeekStart(targetDate));
+  const weeklyStatuses = softCap || hardCap ? await getWeeklyCapStatuses(prefs, targetDate, dateString) : [];
+  for (const status of weeklyStatuses) {
+    status.usedMinutes += horizon?.weeklyMinutesPlanned.get(`${weekKey}|${status.domain}`) || 0;
+    status.remainingMinutes = Math.max(0, status.capMinutes - status.usedMinutes);
+
+    if (hardCap) {
+      const alloc = domainAllocations[status.domain];
+      alloc.maxMinutes = Math.min(alloc.maxMinutes, alloc.minutesUsed + status.remainingMinutes);
+      console.log(`WEEKLY_CAP ${status.domain}: ${Math.round(status.usedMinutes)}m used of ${status.capMinutes}m, ${Math.round(status.remainingMinutes)}m left`);
+    }
+  }
+
   // Prepare schedule items with time windows
   const scheduleItems: ScheduleItem[] = [];
 
@@ -327,8 +587,22 @@ export const generateWakeDaySchedule = async (
     let duration: number;
     let sliceNumber: number | undefined;
 
+    // Already on today's timeline at a time the user locked
+    const pinnedBlock = pinnedBlocks.find(block => block.taskId === task.id);
+    if (pinnedBlock) {
+      const pinnedStart = new Date(pinnedBlock.scheduledStartTime);
+      recordDecision(task, 'placed', `Pinned at ${formatTraceTime(pinnedStart)}`, {
+        score: scoreTask(task, targetDate),
+        slotStart: pinnedBlock.scheduledStartTime,
+        slotEnd: pinnedBlock.scheduledEndTime
+      });
+      continue;
+    }
+
     if (task.isProject && task.remainingMins > 0) {
-      const slice = getTodaysSlice(task);
+      // Across a horizon, slice from what earlier days have not already claimed
+      const alreadyPlanned = horizon?.projectMinsPlanned.get(task.id!) || 0;
+      const slice = getTodaysSlice({ ...task, remainingMins: task.remainingMins - alreadyPlanned });
       if (!slice) continue;
       duration = slice.sliceSize;
       sliceNumber = slice.sliceNumber;
@@ -341,20 +615,24 @@ export const generateWakeDaySchedule = async (
     // Parse time windows
     if (task.taskType === 'Fixed' && task.fixedStartTime) {
       const fixedDate = new Date(task.fixedStartTime);
-      // Fixed tasks MUST match the target date - enforce I1
-      const fixedDateString = fixedDate.toISOString().split('T')[0];
+      // Fixed tasks MUST match the target date - enforce I1 (after-midnight times count toward the logical day)
+      const fixedDateString = getLogicalDateString(prefs, fixedDate);
       if (fixedDateString !== dateString) {
+        recordDecision(task, 'fixedOtherDay', `Fixed for ${fixedDate.toLocaleDateString()} at ${formatTraceTime(fixedDate)}`);
         continue; // Skip - fixed task is for different day
       }
       item.fixedStartTime = fixedDate;
+    } else if (task.taskType === 'Fixed') {
+      recordDecision(task, 'missingFixedTime', 'Fixed task has no start time set');
+      continue;
     }
 
     if (task.eligibleStartTime) {
-      item.eligibleStart = parseTimeToDate(task.eligibleStartTime, targetDate);
+      item.eligibleStart = parseTimeInWakeDay(prefs, task.eligibleStartTime, targetDate);
     }
 
     if (task.mustFinishByTime) {
-      item.mustFinishBy = parseTimeToDate(task.mustFinishByTime, targetDate);
+      item.mustFinishBy = parseTimeInWakeDay(prefs, task.mustFinishByTime, targetDate);
     }
 
     scheduleItems.push(item);
@@ -410,22 +688,41 @@ export const generateWakeDaySchedule = async (
     // For Update/Interruption: MUST schedule already-assigned tasks regardless of domain cap
     // For initial planning: respect domain caps
     if (!isAlreadyAssignedToday && domainAlloc.minutesUsed >= domainAlloc.maxMinutes) {
+      recordDecision(item.task, 'domainCap', `${domain} cap of ${Math.round(domainAlloc.maxMinutes)}m already used`);
       continue; // Domain at capacity (only skip if not already assigned)
     }
 
+    if (!isAlreadyAssignedToday && domain === 'Work' && workBlockCount >= maxWorkBlocks) {
+      recordDecision(item.task, 'domainCap', `Work block limit of ${maxWorkBlocks} per day reached`);
+      continue;
+    }
+
     const startTime = item.fixedStartTime!;
     const endTime = new Date(startTime.getTime() + item.duration * 60 * 1000);
 
     // Check if time is available
     if (!isTimeWindowAvailable(startTime, endTime, [...existingBlocks, ...plannedTasks])) {
+      recordDecision(item.task, 'timeConflict', `${formatTraceTime(startTime)}–${formatTraceTime(endTime)} overlaps another block`);
       continue; // Time conflict
     }
 
     // Check if within wake-sleep window
     if (startTime < wakeTime || endTime > sleepTime) {
+      recordDecision(
+        item.task,
+        'outsideWakeDay',
+        `${formatTraceTime(startTime)} is outside today's window (${formatTraceTime(wakeTime)}–${formatTraceTime(sleepTime)})`
+      );
       continue; // Outside wake day
     }
 
+    // Fixed tasks keep their set time even in protected time - flag it instead of dropping it
+    const protectedConflict = findProtectedConflict(prefs, domain, startTime, endTime);
+    const warning = protectedConflict
+      ? `Falls in ${protectedConflict.protectedTime.label} ` +
+        `(${formatTraceTime(protectedConflict.start)}–${formatTraceTime(protectedConflict.end)}), which blocks ${domain}`
+      : undefined;
+
     // Schedule it as single block - chunking happens at timer start only
     plannedTasks.push({
       id: generateId(),
@@ -442,6 +739,13 @@ export const generateWakeDaySchedule = async (
     });
 
     domainAlloc.minutesUsed += item.duration;
+    if (domain === 'Work') workBlockCount++;
+    recordDecision(item.task, 'placed', `Fixed at ${formatTraceTime(startTime)}`, {
+      score: scoreTask(item.task, targetDate),
+      slotStart: startTime.toISOString(),
+      slotEnd: endTime.toISOString(),
+      warning
+    });
 
     // Only update assignedDate if not already assigned (prevent unnecessary writes)
     if (item.task.id && !isAlreadyAssignedToday && !isDraft) {
@@ -457,9 +761,9 @@ export const generateWakeDaySchedule = async (
   // Track reasons for not scheduling
   const unscheduledReasons = {
     domainCapHit: [] as string[],
-    noTimeSlot: [] as string[],
-    wrongEnergy: 0
+    noTimeSlot: [] as string[]
   };
+  let energyMismatchCount = 0;
 
   // Keep trying to schedule tasks until we can't schedule any more
   while (madeProgress) {
@@ -481,6 +785,7 @@ export const generateWakeDaySchedule = async (
         if (!unscheduledReasons.domainCapHit.includes(domain)) {
           unscheduledReasons.domainCapHit.push(domain);
         }
+        recordDecision(item.task, 'domainCap', `${domain} cap of ${Math.round(domainAlloc.maxMinutes)}m already used`);
         continue;
       }
 
@@ -489,21 +794,67 @@ export const generateWakeDaySchedule = async (
         if (!unscheduledReasons.domainCapHit.includes(domain)) {
           unscheduledReasons.domainCapHit.push(domain);
         }
+        recordDecision(
+          item.task,
+          'domainCap',
+          `Needs ${item.duration}m but only ${Math.round(remainingDomainCapacity)}m of ${domain} cap left`
+        );
+        continue;
+      }
+
+      if (!isAlreadyAssignedToday && domain === 'Work' && workBlockCount >= maxWorkBlocks) {
+        if (!unscheduledReasons.domainCapHit.includes(domain)) {
+          unscheduledReasons.domainCapHit.push(domain);
+        }
+        recordDecision(item.task, 'domainCap', `Work block limit of ${maxWorkBlocks} per day reached`);
         continue;
       }
 
-      // Find next available slot
-      const slot = findNextAvailableSlot(
+      // Errands leave room to travel there from home at the start and back at the end of the day
+      const searchStart = new Date(wakeTime.getTime() + getTransitionNeed(prefs, null, domain).minutes * 60 * 1000);
+      const searchEnd = new Date(sleepTime.getTime() - getTransitionNeed(prefs, domain, null).minutes * 60 * 1000);
+      const occupiedBlocks = withTransitionPadding(domain, [...existingBlocks, ...plannedTasks]);
+
+      // Find the available slot that best fits the task's energy demand
+      const slot = findBestEnergySlot(
         item.duration,
-        wakeTime,
-        sleepTime,
-        [...existingBlocks, ...plannedTasks],
+        searchStart,
+        searchEnd,
+        [...occupiedBlocks, ...getProtectedBlocks(domain)],
+        item.task.energy,
+        energyCurve,
+        energyPenalty,
         item.eligibleStart,
         item.mustFinishBy
       );
 
       if (!slot) {
         unscheduledReasons.noTimeSlot.push(item.task.title);
+
+        // Distinguish "day is full" from "only protected time is left"
+        const protectedBlocks = getProtectedBlocks(domain);
+        if (protectedBlocks.length > 0 && findNextAvailableSlot(
+          item.duration,
+          searchStart,
+          searchEnd,
+          occupiedBlocks,
+          item.eligibleStart,
+          item.mustFinishBy
+        )) {
+          const labels = Array.from(new Set(
+            getProtectedWindows(prefs, wakeTime, sleepTime, domain).map(w => w.protectedTime.label)
+          ));
+          recordDecision(item.task, 'protectedTime', `Only free time left is protected from ${domain} (${labels.join(', ')})`);
+          continue;
+        }
+
+        const windowStart = item.eligibleStart && item.eligibleStart > wakeTime ? item.eligibleStart : wakeTime;
+        const windowEnd = item.mustFinishBy && item.mustFinishBy < sleepTime ? item.mustFinishBy : sleepTime;
+        recordDecision(
+          item.task,
+          'noSlot',
+          `No free ${item.duration}m slot between ${formatTraceTime(windowStart)} and ${formatTraceTime(windowEnd)}`
+        );
         continue; // No slot available
       }
 
@@ -523,6 +874,17 @@ export const generateWakeDaySchedule = async (
       });
 
       domainAlloc.minutesUsed += item.duration;
+      if (domain === 'Work') workBlockCount++;
+      if (slot.mismatch >= 1) energyMismatchCount++;
+      const score = scoreTask(item.task, targetDate);
+      const slotEnergy = energyCurve[slot.start.getHours()];
+      recordDecision(
+        item.task,
+        'placed',
+        `${formatTraceTime(slot.start)}–${formatTraceTime(slot.end)} at ${slotEnergy} energy for a ${item.task.energy} task ` +
+        `(score ${Math.round(score)})`,
+        { score, slotStart: slot.start.toISOString(), slotEnd: slot.end.toISOString() }
+      );
       if (item.task.id) {
         scheduledTaskIds.add(item.task.id);
         // Only update assignedDate if not already assigned (prevent unnecessary writes)
@@ -535,10 +897,52 @@ export const generateWakeDaySchedule = async (
     }
   }
 
-  // Count tasks that were filtered out due to wrong energy
-  unscheduledReasons.wrongEnergy = allTodoTasks.filter(task =>
-    isTaskEligibleForDate(task, targetDate) && !canDoTaskAtEnergy(task.energy, currentEnergy)
-  ).length;
+  // Put setup and travel time on the timeline: right before each block that needs it,
+  // and right after the last Errand for the trip home
+  const taskBlocksInOrder = [...existingBlocks, ...plannedTasks]
+    .filter(block => getBlockDomain(block) !== null)
+    .sort((a, b) => new Date(a.scheduledStartTime).getTime() - new Date(b.scheduledStartTime).getTime());
+  const occupiedBeforeTransitions = [...existingBlocks, ...plannedTasks];
+  let transitionMinutes = 0;
+  let previousBlock: DailyPlanTask | null = null;
+
+  for (const block of [...taskBlocksInOrder, null]) {
+    const fromDomain = previousBlock ? getBlockDomain(previousBlock) : null;
+    const toDomain = block ? getBlockDomain(block) : null;
+    const need = getTransitionNeed(prefs, fromDomain, toDomain);
+
+    if (need.minutes > 0) {
+      const windowStart = previousBlock ? new Date(previousBlock.scheduledEndTime) : wakeTime;
+      const windowEnd = block ? new Date(block.scheduledStartTime) : sleepTime;
+      const minutes = Math.min(need.minutes, (windowEnd.getTime() - windowStart.getTime()) / (1000 * 60));
+
+      if (minutes > 0) {
+        const start = block ? new Date(windowEnd.getTime() - minutes * 60 * 1000) : windowStart;
+        const end = new Date(start.getTime() + minutes * 60 * 1000);
+
+        if (start >= wakeTime && isTimeWindowAvailable(start, end, occupiedBeforeTransitions)) {
+          plannedTasks.push({
+            id: generateId(),
+            taskId: null,
+            planDate: dateString,
+            scheduledStartTime: start.toISOString(),
+            scheduledEndTime: end.toISOString(),
+            completed: false,
+            order: order++,
+            blockType: 'transition',
+            transitionKind: need.kind,
+            transitionFrom: fromDomain,
+            transitionTo: toDomain,
+            sliceDuration: minutes,
+            isDraft
+          });
+          transitionMinutes += minutes;
+        }
+      }
+    }
+
+    previousBlock = block;
+  }
 
   // Fill remaining time with Free blocks
   const sortedPlanned = [...existingBlocks, ...plannedTasks].sort(
@@ -559,7 +963,8 @@ export const generateWakeDaySchedule = async (
       let freeType: FreeTimeType = prefs.freeTimePreference;
 
       // Use Buffer if work/sidehustle has remaining capacity and eligible tasks exist
-      if (prefs.freeTimePreference === 'Recharge') {
+      // (recovery days keep their free time as Recharge)
+      if (prefs.freeTimePreference === 'Recharge' && !recoveryDay) {
         const workRemaining = domainAllocations.Work.maxMinutes - domainAllocations.Work.minutesUsed;
         const sideHustleRemaining = domainAllocations.SideHustle.maxMinutes - domainAllocations.SideHustle.minutesUsed;
 
@@ -583,7 +988,9 @@ export const generateWakeDaySchedule = async (
       });
     }
 
-    currentTime = new Date(block.scheduledEndTime);
+    // Earlier blocks (completed, pinned before now) never move the cursor backwards
+    const blockEnd = new Date(block.scheduledEndTime);
+    if (blockEnd > currentTime) currentTime = blockEnd;
   }
 
   // Fill from last block to sleep time (always fill to maintain packed schedule)
@@ -595,7 +1002,7 @@ export const generateWakeDaySchedule = async (
     const workRemaining = domainAllocations.Work.maxMinutes - domainAllocations.Work.minutesUsed;
     const sideHustleRemaining = domainAllocations.SideHustle.maxMinutes - domainAllocations.SideHustle.minutesUsed;
 
-    if (prefs.freeTimePreference === 'Recharge' && (workRemaining > 0 || sideHustleRemaining > 0)) {
+    if (prefs.freeTimePreference === 'Recharge' && !recoveryDay && (workRemaining > 0 || sideHustleRemaining > 0)) {
       freeType = 'Buffer';
     }
 
@@ -634,11 +1041,11 @@ export const generateWakeDaySchedule = async (
 
     const totalUnscheduled = allFlexibleAndRecurring.length - scheduledTaskIds.size;
 
-    if (totalUnscheduled > 0 || unscheduledReasons.wrongEnergy > 0) {
+    if (totalUnscheduled > 0 || energyMismatchCount > 0) {
       const reasons = [];
 
-      if (unscheduledReasons.wrongEnergy > 0) {
-        reasons.push(`${unscheduledReasons.wrongEnergy} task(s) need higher energy (you're at ${currentEnergy})`);
+      if (energyMismatchCount > 0) {
+        reasons.push(`${energyMismatchCount} task(s) placed outside their energy window`);
       }
 
       if (unscheduledReasons.domainCapHit.length > 0) {
@@ -653,7 +1060,7 @@ export const generateWakeDaySchedule = async (
         message += `. ${reasons.join(', ')}.`;
       }
     } else if (taskCount === 0 && tasksAssignedToday.length === 0) {
-      message = 'No eligible tasks available for your current energy level.';
+      message = 'No eligible tasks available today.';
     } else if (taskCount === 0 && tasksAssignedToday.length > 0) {
       // SAFETY GUARD: If we had tasks assigned to today but none got scheduled, this is a bug
       console.error(`[REFLOW_GUARD] CRITICAL: ${tasksAssignedToday.length} tasks assigned to today but 0 scheduled! This should never happen.`);
@@ -662,21 +1069,51 @@ export const generateWakeDaySchedule = async (
       message += '. All eligible tasks scheduled!';
     }
 
+    if (transitionMinutes > 0) {
+      message += ` ${Math.round(transitionMinutes)}m set aside for transitions.`;
+    }
+
     if (freeMinutes > 0) {
       message += ` ${Math.round(freeMinutes / 60 * 10) / 10}h available time.`;
     }
   }
 
+  if (recoveryDay) {
+    message = `Recovery day (lighter caps after going over yesterday). ${message}`;
+  }
+
+  // Soft cap: warn when this plan brings a domain near or over its weekly limit
+  if (softCap && weeklyStatuses.length > 0) {
+    const plannedByDomain: Record<string, number> = {};
+    for (const block of plannedTasks) {
+      const domain = getBlockDomain(block);
+      if (domain) plannedByDomain[domain] = (plannedByDomain[domain] || 0) + (block.sliceDuration || 0);
+    }
+
+    const warnings = weeklyStatuses
+      .map(status => ({ status, total: status.usedMinutes + (plannedByDomain[status.domain] || 0) }))
+      .filter(({ status, total }) => total >= status.capMinutes * 0.9)
+      .map(({ status, total }) =>
+        `${status.domain} ${total > status.capMinutes ? 'over' : 'near'} weekly cap ` +
+        `(${Math.round(total / 60 * 10) / 10}h of ${Math.round(status.capMinutes / 60 * 10) / 10}h)`
+      );
+
+    if (warnings.length > 0) {
+      message += ` ⚠ ${warnings.join(', ')}.`;
+      console.log('SOFT_CAP_WARNING', warnings);
+    }
+  }
+
   // SAFETY GUARD: For today's schedule, verify all assigned tasks got blocks
   if (isToday && !isDraft && tasksAssignedToday.length > 0) {
-    const scheduledAssignedTasks = plannedTasks.filter(p => p.blockType === 'task' && assignedTaskIds.has(p.taskId!));
+    const scheduledAssignedTasks = [...pinnedBlocks, ...plannedTasks].filter(p => p.blockType === 'task' && assignedTaskIds.has(p.taskId!));
     const scheduledCount = scheduledAssignedTasks.length;
 
     console.log(`  → Scheduled ${scheduledCount} of ${tasksAssignedToday.length} assigned tasks`);
     console.log('  → Scheduled task IDs:', scheduledAssignedTasks.map(p => p.taskId));
 
     if (scheduledCount < tasksAssignedToday.length) {
-      const missingTasks = tasksAssignedToday.filter(t => !scheduledTaskIds.has(t.id!));
+      const missingTasks = tasksAssignedToday.filter(t => !scheduledTaskIds.has(t.id!) && !pinnedBlocks.some(b => b.taskId === t.id));
       console.error(
         `[REFLOW_GUARD] Assigned tasks lost during scheduling! ` +
         `Expected: ${tasksAssignedToday.length}, Got: ${scheduledCount}. ` +
@@ -685,12 +1122,25 @@ export const generateWakeDaySchedule = async (
     }
   }
 
+  const trace = Array.from(decisions.values());
+
+  // Keep the latest committed trace so TodayView can explain the plan later
+  if (!isDraft) {
+    try {
+      const stored: StoredScheduleTrace = { planDate: dateString, generatedAt: new Date().toISOString(), decisions: trace };
+      localStorage.setItem(TRACE_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.error('Failed to save schedule trace:', error);
+    }
+  }
+
   console.log(`  → Returning ${plannedTasks.length} total blocks (${plannedTasks.filter(p => p.blockType === 'task').length} tasks, ${plannedTasks.filter(p => p.blockType === 'free').length} free)`);
 
   return {
     plannedTasks,
     totalMinutes: totalAvailableMinutes,
-    message
+    message,
+    trace
   };
 };
 
@@ -708,12 +1158,19 @@ export const startMyDay = async (): Promise<ScheduleResult> => {
     actualWakeTimeToday: now.toISOString()
   });
 
-  // Clear today's plan
-  const todayString = now.toISOString().split('T')[0];
-  await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft).delete();
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+
+  // Clear today's plan (pinned blocks stay where they were locked)
+  const today = getLogicalDate(prefs, now);
+  const todayString = toLocalDateString(today);
+  await snapshotPlan(todayString, 'startMyDay');
+  await db.dailyPlanTasks.where('planDate').equals(todayString).and(task => !task.isDraft && !task.pinned).delete();
 
   // Rebuild schedule from now
-  return await generateWakeDaySchedule(now, false);
+  return await generateWakeDaySchedule(today, false);
 };
 
 /**
@@ -755,7 +1212,12 @@ const roundUpToNext5Min = (date: Date): Date => {
  */
 export const updateScheduleNow = async (): Promise<ScheduleResult> => {
   const now = new Date();
-  const todayString = now.toISOString().split('T')[0];
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+  const today = getLogicalDate(prefs, now);
+  const todayString = toLocalDateString(today);
 
   // SAFETY CHECK: Count tasks before update AND capture their IDs/titles
   const tasksBeforeUpdate = await db.tasks
@@ -771,9 +1233,10 @@ export const updateScheduleNow = async (): Promise<ScheduleResult> => {
   console.log('BEFORE UPDATE:', tasksBeforeCount, 'tasks assigned to today');
   console.log('Task details:', tasksBefore);
 
-  // Keep interruptions and completed blocks ONLY, remove all other blocks
+  // Keep interruptions, completed and pinned blocks ONLY, remove all other blocks
   const blocksBeforeDelete = await db.dailyPlanTasks.where('planDate').equals(todayString).toArray();
   console.log('Blocks before delete:', blocksBeforeDelete.length, blocksBeforeDelete.map(b => ({ type: b.blockType, completed: b.completed, taskId: b.taskId })));
+  await snapshotPlan(todayString, 'updateScheduleNow');
 
   await db.dailyPlanTasks
     .where('planDate')
@@ -782,7 +1245,8 @@ export const updateScheduleNow = async (): Promise<ScheduleResult> => {
       if (block.isDraft) return true; // Delete drafts
       if (block.blockType === 'interruption') return false; // Keep interruptions
       if (block.completed) return false; // Keep completed
-      // Delete ALL unfinished task blocks (they'll be rescheduled)
+      if (block.pinned) return false; // Keep pinned - the reflow works around them
+      // Delete ALL other unfinished blocks (they'll be rescheduled)
       return true;
     })
     .delete();
@@ -796,7 +1260,7 @@ export const updateScheduleNow = async (): Promise<ScheduleResult> => {
   console.log('Calling generateWakeDaySchedule with startTime:', startTime.toISOString());
 
   // Rebuild from rounded time - this will reschedule all tasks assigned to today
-  const result = await generateWakeDaySchedule(now, false, startTime);
+  const result = await generateWakeDaySchedule(today, false, startTime);
 
   // CRITICAL: Save the generated blocks to the database
   if (result.plannedTasks.length > 0) {
@@ -864,7 +1328,12 @@ export const logInterruption = async (
   description?: string
 ): Promise<ScheduleResult> => {
   const now = new Date();
-  const todayString = now.toISOString().split('T')[0];
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+  const today = getLogicalDate(prefs, now);
+  const todayString = toLocalDateString(today);
 
   // SAFETY CHECK: Count tasks before interruption AND capture their IDs/titles
   const tasksBeforeInterrupt = await db.tasks
@@ -880,6 +1349,9 @@ export const logInterruption = async (
   console.log('BEFORE INTERRUPTION:', tasksBeforeCount, 'tasks assigned to today');
   console.log('Task details:', tasksBefore);
 
+  // Snapshot before the interruption block goes in, so undo removes it too
+  await snapshotPlan(todayString, 'interruption');
+
   // Round current time to 5-minute grid
   const interruptionStart = roundUpToNext5Min(now);
 
@@ -901,7 +1373,7 @@ export const logInterruption = async (
     isDraft: false
   });
 
-  // Remove all unfinished blocks (keep only interruptions and completed)
+  // Remove all unfinished blocks (keep only interruptions, completed and pinned)
   // NOTE: We do NOT remove tasks from db.tasks, only from dailyPlanTasks
   await db.dailyPlanTasks
     .where('planDate')
@@ -910,7 +1382,13 @@ export const logInterruption = async (
       if (block.isDraft) return true; // Delete drafts
       if (block.blockType === 'interruption') return false; // Keep all interruptions
       if (block.completed) return false; // Keep completed blocks
-      // Delete ALL unfinished task blocks (they'll be rescheduled)
+      if (block.pinned) {
+        // A pinned block the interruption ran over can't happen at its time any more - reschedule it
+        const overlapsInterruption =
+          new Date(block.scheduledStartTime) < interruptionEndTime && new Date(block.scheduledEndTime) > interruptionStart;
+        return overlapsInterruption;
+      }
+      // Delete ALL other unfinished blocks (they'll be rescheduled)
       return true;
     })
     .delete();
@@ -918,14 +1396,8 @@ export const logInterruption = async (
   // Rebuild from AFTER the interruption, rounded to next 5-min
   const restartTime = roundUpToNext5Min(interruptionEndTime);
 
-  // Get user prefs to calculate remaining capacity
-  const prefs = await db.userPrefs.get(1);
-  if (!prefs) {
-    throw new Error('User preferences not found');
-  }
-
   // Calculate remaining time today
-  const sleepTime = parseTimeToDate(prefs.defaultSleepTime, now);
+  const { sleep: sleepTime } = getWakeWindow(prefs, today);
   const remainingMinutesToday = Math.max(0, (sleepTime.getTime() - restartTime.getTime()) / (1000 * 60));
 
   console.log('CAPACITY CHECK: remainingMinutesToday =', remainingMinutesToday, 'minutes');
@@ -933,7 +1405,7 @@ export const logInterruption = async (
   console.log('Day ends at:', sleepTime.toISOString());
 
   // This will attempt to fit all remaining tasks after the interruption
-  const result = await generateWakeDaySchedule(now, false, restartTime);
+  const result = await generateWakeDaySchedule(today, false, restartTime);
 
   // CRITICAL: Save the generated blocks to the database
   if (result.plannedTasks.length > 0) {
@@ -976,9 +1448,9 @@ export const logInterruption = async (
   if (tasksToDefer.length > 0 && remainingMinutesToday <= 5) {
     console.log(`Deferring ${tasksToDefer.length} tasks to tomorrow (day ended, ${remainingMinutesToday} min remaining)`);
 
-    const tomorrow = new Date(now);
+    const tomorrow = new Date(today);
     tomorrow.setDate(tomorrow.getDate() + 1);
-    const tomorrowString = tomorrow.toISOString().split('T')[0];
+    const tomorrowString = toLocalDateString(tomorrow);
 
     for (const taskId of tasksToDefer) {
       await db.tasks.update(taskId, {
@@ -1031,3 +1503,119 @@ export const logInterruption = async (
 
   return result;
 };
+
+/**
+ * Plan a multi-day horizon starting tomorrow
+ * Distributes eligible tasks across the next N days (each with its own wake/sleep
+ * window and domain caps) so due-dated work lands before its deadline.
+ * Results are saved as draft blocks per planDate.
+ */
+export const generateMultiDaySchedule = async (days: number = 7): Promise<MultiDayScheduleResult> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) {
+    throw new Error('User preferences not found');
+  }
+  const today = getLogicalDate(prefs);
+  const todayString = toLocalDateString(today);
+
+  console.log(`=== PLAN HORIZON (${days} days) ===`);
+
+  const horizon: HorizonContext = {
+    placedTaskIds: new Set<string>(),
+    projectMinsPlanned: new Map<string, number>(),
+    weeklyMinutesPlanned: new Map<string, number>()
+  };
+
+  const allTodoTasks = await db.tasks
+    .where('status')
+    .equals('todo')
+    .and(task => !task.archived)
+    .toArray();
+  const tasksById = new Map(allTodoTasks.map(task => [task.id!, task]));
+
+  // Work already committed to today is not re-planned on later days
+  const todaysBlocks = await db.dailyPlanTasks
+    .where('planDate')
+    .equals(todayString)
+    .and(block => !block.isDraft && block.blockType === 'task' && !block.completed)
+    .toArray();
+
+  const claimForHorizon = (taskId: string, minutes: number, weekKey?: string) => {
+    const task = tasksById.get(taskId);
+    if (!task) return;
+    if (weekKey) {
+      // Drafts aren't in the weekly usage totals, so carry them forward for weekly caps
+      const key = `${weekKey}|${task.domain}`;
+      horizon.weeklyMinutesPlanned.set(key, (horizon.weeklyMinutesPlanned.get(key) || 0) + minutes);
+    }
+    if (task.isProject) {
+      horizon.projectMinsPlanned.set(taskId, (horizon.projectMinsPlanned.get(taskId) || 0) + minutes);
+    } else if (task.recurrence === 'Once') {
+      horizon.placedTaskIds.add(taskId);
+    }
+  };
+
+  for (const block of todaysBlocks) {
+    if (block.taskId) claimForHorizon(block.taskId, block.sliceDuration || 0);
+  }
+  for (const task of allTodoTasks) {
+    if (task.assignedDate === todayString && task.recurrence === 'Once' && !task.isProject) {
+      horizon.placedTaskIds.add(task.id!);
+    }
+  }
+
+  const plannedDays: MultiDayScheduleResult['days'] = [];
+  let lastPlanDate = todayString;
+
+  for (let i = 1; i <= days; i++) {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    const planDate = toLocalDateString(date);
+    lastPlanDate = planDate;
+
+    // Replace any existing draft for this day
+    await db.dailyPlanTasks.where('planDate').equals(planDate).and(block => block.isDraft === true).delete();
+
+    const dayResult = await generateWakeDaySchedule(date, true, undefined, horizon);
+    const taskBlocks = dayResult.plannedTasks.filter(p => p.blockType === 'task');
+
+    const weekKey = toLocalDateString(getWeekStart(date));
+    for (const block of taskBlocks) {
+      if (block.taskId) claimForHorizon(block.taskId, block.sliceDuration || 0, weekKey);
+    }
+
+    if (dayResult.plannedTasks.length > 0) {
+      await db.dailyPlanTasks.bulkAdd(dayResult.plannedTasks);
+    }
+
+    const taskMinutes = taskBlocks.reduce((sum, p) => sum + (p.sliceDuration || 0), 0);
+    plannedDays.push({ planDate, plannedTasks: dayResult.plannedTasks, taskCount: taskBlocks.length, taskMinutes });
+
+    console.log(`  → ${planDate}: ${taskBlocks.length} tasks (${Math.round(taskMinutes / 60 * 10) / 10}h)`);
+  }
+
+  // One-off tasks due within the horizon that never found room
+  const unplacedTasks = allTodoTasks.filter(task =>
+    task.recurrence === 'Once' &&
+    !task.isProject &&
+    task.dueDate &&
+    toDateKey(task.dueDate) <= lastPlanDate &&
+    !horizon.placedTaskIds.has(task.id!)
+  );
+
+  const totalTasks = plannedDays.reduce((sum, d) => sum + d.taskCount, 0);
+  const totalMinutes = plannedDays.reduce((sum, d) => sum + d.taskMinutes, 0);
+  let message = `Planned ${totalTasks} tasks across ${days} days (${Math.round(totalMinutes / 60 * 10) / 10}h)`;
+  if (unplacedTasks.length > 0) {
+    message += `. ${unplacedTasks.length} task(s) didn't fit before their due date: ${unplacedTasks.map(t => t.title).join(', ')}.`;
+  }
+
+  console.log(message);
+  console.log('=== END PLAN HORIZON ===\n');
+
+  return {
+    days: plannedDays,
+    unplacedTasks,
+    message
+  };
+};
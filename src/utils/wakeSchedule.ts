@@ -0,0 +1,106 @@
+import { UserPrefs, WakeSleepTimes } from '../db/database';
+import { addDays, toLocalDateString } from './localDate';
+
+export type WakeScheduleSource = 'override' | 'weekday' | 'default';
+
+export interface ResolvedWakeTimes extends WakeSleepTimes {
+  source: WakeScheduleSource;
+}
+
+const getWeekday = (date: Date): number => (date.getDay() === 0 ? 7 : date.getDay());
+
+/**
+ * Wake/sleep times for a date: a per-date override wins, then the weekday
+ * template, then the single default wake/sleep times
+ */
+export const getWakeSleepTimes = (prefs: UserPrefs, date: Date): ResolvedWakeTimes => {
+  const dateString = toLocalDateString(date);
+
+  const override = prefs.wakeScheduleOverrides?.[dateString];
+  if (override) {
+    return { ...override, source: 'override' };
+  }
+
+  const weekdayTimes = prefs.weeklyWakeSchedule?.[getWeekday(date)];
+  if (weekdayTimes) {
+    return { ...weekdayTimes, source: 'weekday' };
+  }
+
+  return { wakeTime: prefs.defaultWakeTime, sleepTime: prefs.defaultSleepTime, source: 'default' };
+};
+
+const atTime = (timeStr: string, date: Date): Date => {
+  const [hours, minutes] = timeStr.split(':').map(Number);
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+};
+
+/**
+ * Wake and sleep instants for a logical day
+ * A sleep time at or before the wake time falls on the next calendar day (e.g. 14:00–02:00)
+ */
+export const getWakeWindow = (prefs: UserPrefs, date: Date): { wake: Date; sleep: Date } => {
+  const times = getWakeSleepTimes(prefs, date);
+  const wake = atTime(times.wakeTime, date);
+  let sleep = atTime(times.sleepTime, date);
+  if (sleep <= wake) {
+    sleep = addDays(sleep, 1);
+  }
+  return { wake, sleep };
+};
+
+/**
+ * Resolve an HH:MM time within a logical day - times earlier than the wake
+ * time are the small hours after midnight
+ */
+export const parseTimeInWakeDay = (prefs: UserPrefs, timeStr: string, date: Date): Date => {
+  const { wake } = getWakeWindow(prefs, date);
+  const result = atTime(timeStr, date);
+  return result < wake ? addDays(result, 1) : result;
+};
+
+/**
+ * Where one logical day hands over to the next: halfway between the first
+ * day's sleep and the next day's wake (or the next wake, if the windows overlap)
+ */
+const getDayBoundary = (prefs: UserPrefs, date: Date): Date => {
+  const { sleep } = getWakeWindow(prefs, date);
+  const { wake: nextWake } = getWakeWindow(prefs, addDays(date, 1));
+  if (sleep >= nextWake) return nextWake;
+  return new Date((sleep.getTime() + nextWake.getTime()) / 2);
+};
+
+/**
+ * Start/end of a logical day, for attributing sessions and blocks after midnight
+ */
+export const getLogicalDayBounds = (prefs: UserPrefs, date: Date): { start: Date; end: Date } => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return {
+    start: getDayBoundary(prefs, addDays(day, -1)),
+    end: getDayBoundary(prefs, day)
+  };
+};
+
+/**
+ * The logical day a moment belongs to, as local midnight of the day it started
+ * A late night stays on the day that started at wake time
+ */
+export const getLogicalDate = (prefs: UserPrefs, moment: Date = new Date()): Date => {
+  const day = new Date(moment);
+  day.setHours(0, 0, 0, 0);
+
+  for (const candidate of [day, addDays(day, -1), addDays(day, 1)]) {
+    const { start, end } = getLogicalDayBounds(prefs, candidate);
+    if (moment >= start && moment < end) return candidate;
+  }
+  return day;
+};
+
+/**
+ * planDate (YYYY-MM-DD) of the logical day a moment belongs to
+ */
+export const getLogicalDateString = (prefs: UserPrefs, moment: Date = new Date()): string => {
+  return toLocalDateString(getLogicalDate(prefs, moment));
+};
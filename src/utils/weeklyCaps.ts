@@ -0,0 +1,242 @@
+import { Task, Domain, UserPrefs, db } from '../db/database';
+import { getLogicalDayBounds } from './wakeSchedule';
+import { toLocalDateString } from './localDate';
+
+const RECOVERY_FACTOR = 0.5; // Daily caps are halved the day after an over-cap day
+const NEAR_CAP_THRESHOLD = 0.9; // Soft cap warns from 90% of the weekly limit
+
+const DOMAINS: Domain[] = ['Work', 'SideHustle', 'Chore', 'Errand', 'Personal', 'Creative'];
+
+type WeeklyCapKey =
+  | 'maxWorkHoursPerWeek'
+  | 'maxSideHustleHoursPerWeek'
+  | 'maxChoreHoursPerWeek'
+  | 'maxErrandHoursPerWeek'
+  | 'maxPersonalHoursPerWeek'
+  | 'maxCreativeHoursPerWeek';
+
+// Where each domain's weekly cap lives in UserPrefs (Unplanned time is never capped)
+const WEEKLY_CAP_KEYS: Record<Domain, WeeklyCapKey | null> = {
+  Work: 'maxWorkHoursPerWeek',
+  SideHustle: 'maxSideHustleHoursPerWeek',
+  Chore: 'maxChoreHoursPerWeek',
+  Errand: 'maxErrandHoursPerWeek',
+  Personal: 'maxPersonalHoursPerWeek',
+  Creative: 'maxCreativeHoursPerWeek',
+  Unplanned: null
+};
+
+export interface WeeklyCapStatus {
+  domain: Domain;
+  usedMinutes: number; // Completed sessions + interruptions this week, plus committed blocks unless left out
+  capMinutes: number; // Infinity when no weekly cap is set
+  remainingMinutes: number;
+  nearCap: boolean;
+  overCap: boolean;
+}
+
+/**
+ * Start of the week (Sunday midnight) containing the given date
+ */
+export const getWeekStart = (date: Date): Date => {
+  const weekStart = new Date(date);
+  weekStart.setDate(weekStart.getDate() - weekStart.getDay());
+  weekStart.setHours(0, 0, 0, 0);
+  return weekStart;
+};
+
+/**
+ * Weekly cap for a domain in minutes (0 or unset = no cap)
+ */
+export const getWeeklyCapMinutes = (domain: Domain, prefs: UserPrefs): number => {
+  const key = WEEKLY_CAP_KEYS[domain];
+  const hours = key ? prefs[key] || 0 : 0;
+  return hours > 0 ? hours * 60 : Infinity;
+};
+
+/**
+ * Minutes per domain used this week: completed sessions and logged interruptions, plus
+ * committed, unfinished task blocks when includeCommitted is set. Blocks on excludePlanDate
+ * are skipped so a day being rebuilt isn't counted twice.
+ */
+export const getWeeklyUsage = async (
+  date: Date,
+  excludePlanDate?: string,
+  includeCommitted: boolean = true
+): Promise<Record<Domain, number>> => {
+  const weekStart = getWeekStart(date);
+  const weekEnd = new Date(weekStart);
+  weekEnd.setDate(weekEnd.getDate() + 6);
+  const weekStartString = toLocalDateString(weekStart);
+  const weekEndString = toLocalDateString(weekEnd);
+
+  const usage = {} as Record<Domain, number>;
+  for (const domain of [...DOMAINS, 'Unplanned' as Domain]) {
+    usage[domain] = 0;
+  }
+
+  const allTasks = await db.tasks.toArray();
+  const taskDomainMap = new Map(allTasks.map(t => [t.id, t.domain]));
+
+  // Time actually worked
+  const weekSessions = await db.sessions
+    .where('startTime')
+    .above(weekStart.toISOString())
+    .and(session => session.completed === true)
+    .toArray();
+
+  for (const session of weekSessions) {
+    const domain = taskDomainMap.get(session.taskId);
+    if (domain) usage[domain] += session.earnedMins || 0;
+  }
+
+  // Time committed but not yet worked, plus logged interruptions
+  const weekBlocks = await db.dailyPlanTasks
+    .where('planDate')
+    .between(weekStartString, weekEndString, true, true)
+    .and(block => !block.isDraft && block.planDate !== excludePlanDate)
+    .toArray();
+
+  for (const block of weekBlocks) {
+    if (block.blockType === 'task' && !block.completed && block.taskId) {
+      if (!includeCommitted) continue;
+      const domain = taskDomainMap.get(block.taskId);
+      if (domain) usage[domain] += block.sliceDuration || 0;
+    } else if (block.blockType === 'interruption' && block.interruptionDomain) {
+      usage[block.interruptionDomain] += block.sliceDuration || 0;
+    }
+  }
+
+  return usage;
+};
+
+/**
+ * Weekly cap status for every domain that has a cap set
+ */
+export const getWeeklyCapStatuses = async (
+  prefs: UserPrefs,
+  date: Date = new Date(),
+  excludePlanDate?: string,
+  includeCommitted: boolean = true
+): Promise<WeeklyCapStatus[]> => {
+  const usage = await getWeeklyUsage(date, excludePlanDate, includeCommitted);
+
+  return DOMAINS
+    .map(domain => {
+      const capMinutes = getWeeklyCapMinutes(domain, prefs);
+      const usedMinutes = usage[domain];
+      return {
+        domain,
+        usedMinutes,
+        capMinutes,
+        remainingMinutes: Math.max(0, capMinutes - usedMinutes),
+        nearCap: usedMinutes >= capMinutes * NEAR_CAP_THRESHOLD,
+        overCap: usedMinutes >= capMinutes
+      };
+    })
+    .filter(status => status.capMinutes !== Infinity);
+};
+
+/**
+ * Minutes per domain worked or committed on a single logical day
+ */
+const getDayUsage = async (prefs: UserPrefs, date: Date): Promise<Record<Domain, number>> => {
+  const dateString = toLocalDateString(date);
+  const usage = {} as Record<Domain, number>;
+  for (const domain of DOMAINS) {
+    usage[domain] = 0;
+  }
+
+  // Sessions after midnight still count toward the day that started at wake time
+  const { start: dayStart, end: dayEnd } = getLogicalDayBounds(prefs, date);
+
+  const allTasks = await db.tasks.toArray();
+  const taskDomainMap = new Map(allTasks.map(t => [t.id, t.domain]));
+
+  const daySessions = await db.sessions
+    .where('startTime')
+    .between(dayStart.toISOString(), dayEnd.toISOString())
+    .and(session => session.completed === true)
+    .toArray();
+
+  for (const session of daySessions) {
+    const domain = taskDomainMap.get(session.taskId);
+    if (domain && domain in usage) usage[domain] += session.earnedMins || 0;
+  }
+
+  const dayBlocks = await db.dailyPlanTasks
+    .where('planDate')
+    .equals(dateString)
+    .and(block => !block.isDraft && block.blockType === 'task' && !block.completed)
+    .toArray();
+
+  for (const block of dayBlocks) {
+    const domain = block.taskId ? taskDomainMap.get(block.taskId) : undefined;
+    if (domain && domain in usage) usage[domain] += block.sliceDuration || 0;
+  }
+
+  return usage;
+};
+
+/**
+ * A recovery day follows a day where Work or SideHustle went over its daily cap
+ */
+export const isRecoveryDay = async (prefs: UserPrefs, date: Date): Promise<boolean> => {
+  if (!prefs.permissionRules.recoveryMode) return false;
+
+  const previousDay = new Date(date);
+  previousDay.setDate(previousDay.getDate() - 1);
+  const usage = await getDayUsage(prefs, previousDay);
+
+  const workOver = usage.Work > (prefs.maxWorkHoursPerDay || 4) * 60;
+  const sideHustleOver = usage.SideHustle > (prefs.maxSideHustleHoursPerDay || 2) * 60;
+
+  return workOver || sideHustleOver;
+};
+
+/**
+ * Scale a daily cap down on recovery days
+ */
+export const getRecoveryCap = (dailyCapMinutes: number): number => {
+  return Math.round(dailyCapMinutes * RECOVERY_FACTOR);
+};
+
+/**
+ * Decide whether a timer may start for a task under the permission rules
+ * hardCap blocks starts once the domain's weekly cap is used; softCap only warns.
+ * Only time already worked counts here - planned blocks (including the one being
+ * started) were placed under the cap by the scheduler and shouldn't lock themselves out.
+ */
+export const checkTimerStartAllowed = async (task: Task): Promise<{ allowed: boolean; warning: string | null }> => {
+  const prefs = await db.userPrefs.get(1);
+  if (!prefs) return { allowed: true, warning: null };
+
+  const { softCap, hardCap } = prefs.permissionRules;
+  if (!softCap && !hardCap) return { allowed: true, warning: null };
+
+  const statuses = await getWeeklyCapStatuses(prefs, new Date(), undefined, false);
+  const status = statuses.find(s => s.domain === task.domain);
+  if (!status) return { allowed: true, warning: null };
+
+  const usedHours = Math.round(status.usedMinutes / 60 * 10) / 10;
+  const capHours = Math.round(status.capMinutes / 60 * 10) / 10;
+
+  if (status.overCap && hardCap) {
+    console.log(`CAP_BLOCKED ${task.domain} ${usedHours}h/${capHours}h`);
+    return {
+      allowed: false,
+      warning: `${task.domain} weekly cap reached (${usedHours}h of ${capHours}h). Hard cap is on, so new ${task.domain} sessions are blocked until next week.`
+    };
+  }
+
+  if (status.nearCap && softCap) {
+    return {
+      allowed: true,
+      warning: status.overCap
+        ? `You're over your ${task.domain} weekly cap (${usedHours}h of ${capHours}h).`
+        : `You're close to your ${task.domain} weekly cap (${usedHours}h of ${capHours}h).`
+    };
+  }
+
+  return { allowed: true, warning: null };
+};